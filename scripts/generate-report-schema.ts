@@ -0,0 +1,25 @@
+#!/usr/bin/env bun
+/**
+ * Write the report JSON Schema to schemas/ for the published package.
+ *
+ * Usage:
+ *   bun run schema:gen
+ *
+ * The source of truth is REPORT_JSON_SCHEMA in src/lib/report-schema.ts;
+ * tests fail if the committed file drifts from it. The `schema:gen`
+ * script formats the output with Biome afterwards.
+ */
+
+import { writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+
+import { REPORT_JSON_SCHEMA } from '../src/lib/report-schema.js'
+
+const path = join(
+	import.meta.dir,
+	'..',
+	'schemas',
+	'last-30-days-report.schema.json',
+)
+writeFileSync(path, `${JSON.stringify(REPORT_JSON_SCHEMA, null, '\t')}\n`)
+console.log(`Wrote ${path}`)
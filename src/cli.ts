@@ -4,11 +4,17 @@
  *
  * Usage:
  *   last-30-days <topic> [options]
+ *   last-30-days diff <topic> [--emit=md|json]
+ *   last-30-days watch <topic>... [watch options]
+ *   last-30-days schema
+ *   last-30-days cache stats|ls|show <key>|invalidate|reindex|prune|clear|migrate
+ *                    [filters] [--emit=text|json]
  *
  * Options:
  *   --mock           Use fixtures instead of real API calls
- *   --emit=MODE      Output mode: compact|json|md|context|path (default: compact)
- *   --sources=MODE   Source selection: auto|reddit|x|both (default: auto)
+ *   --emit=MODE      Output mode: compact|json|md|html|atom|rss|csv|jsonl|context|path
+ *                    (default: compact)
+ *   --sources=MODE   Source selection: auto|reddit|x|both or a list like reddit,x,hn
  *   --days=N         Lookback window in days (default: 30, range: 1-365)
  *   --quick          Faster research with fewer sources
  *   --deep           Comprehensive research with more sources
@@ -17,39 +23,28 @@
  *   --refresh        Bypass cache reads and force fresh search
  *   --no-cache       Disable cache reads and writes
  *   --outdir=PATH    Write output files to PATH instead of default location
+ *   --no-history     Don't record this run in the history store
+ *   --synthesize     Fill best practices and a prompt pack via OpenAI/xAI
+ *   --profile=NAME   Scoring profile: default|recency|engagement|relevance|custom
+ *   --weights=SPEC   Scoring weight overrides, e.g. relevance=0.6,recency=0.2,engagement=0.2
+ *                    (merged into the profile, then each mix rescaled to sum to 1)
+ *   --explain        Show each item's score breakdown (compact and md output)
+ *   --record=DIR     Save every HTTP request/response to a cassette directory
+ *   --replay=DIR     Serve HTTP responses from a recorded cassette (offline)
  */
 
 import { readFileSync } from 'node:fs'
-import { dirname, join } from 'node:path'
-import { fileURLToPath } from 'node:url'
 import * as cache from './lib/cache.js'
 import * as config from './lib/config.js'
-import { getDateRange } from './lib/dates.js'
-import * as dedupe from './lib/dedupe.js'
-import { RateLimitError } from './lib/http.js'
-import * as models from './lib/models.js'
-import * as normalize from './lib/normalize.js'
-import * as openaiReddit from './lib/openai-reddit.js'
-import * as redditEnrich from './lib/reddit-enrich.js'
+import * as history from './lib/history.js'
 import * as render from './lib/render.js'
+import { REPORT_JSON_SCHEMA } from './lib/report-schema.js'
+import { isWebMode, ResearchError, research } from './lib/research.js'
 import * as schema from './lib/schema.js'
-import * as score from './lib/score.js'
+import { parseScoringWeights, resolveScoringProfile } from './lib/score.js'
+import { isValidSourceSelection, listSources } from './lib/sources.js'
 import { ProgressDisplay } from './lib/ui.js'
-import * as xaiX from './lib/xai-x.js'
-
-/** Load a fixture file. */
-function loadFixture(name: string): Record<string, unknown> {
-	const scriptDir = dirname(fileURLToPath(import.meta.url))
-	const fixturePath = join(scriptDir, '..', 'fixtures', name)
-	try {
-		return JSON.parse(readFileSync(fixturePath, 'utf-8')) as Record<
-			string,
-			unknown
-		>
-	} catch {
-		return {}
-	}
-}
+import { parseInterval, watch } from './lib/watch.js'
 
 /** Print usage information and exit. */
 function showHelp(): never {
@@ -57,19 +52,64 @@ function showHelp(): never {
 
 Usage:
   last-30-days <topic> [options]
+  last-30-days diff <topic> [--emit=md|json]
+  last-30-days watch <topic>... [watch options]
+  last-30-days schema
+  last-30-days cache stats|ls|show <key>|invalidate|reindex|prune|clear|migrate
+                    [filters] [--emit=text|json]
+
+Commands:
+  diff <topic>     Show new, dropped and moved items since the previous run
+  watch <topic>... Re-run topics on an interval and alert on new items
+  schema           Print the JSON Schema for --emit=json and report.json
+  cache stats      Entry counts and bytes per kind (search, enrichment,
+                   model, circuit, index, lock, temp) under ~/.cache/last-30-days
+  cache ls         List entries with age, size and metadata (filters apply)
+  cache show <key> Show one entry (a unique key prefix is enough)
+  cache invalidate Delete the entries matching the filters (at least one)
+  cache reindex    Rebuild the cache index from the entries on disk
+  cache prune      Delete entries past their TTL, stale locks and temp files
+  cache clear      Delete everything in the cache
+  cache migrate    Move file cache entries into the SQLite backend
+
+Cache filters:
+  --topic=TOPIC    Search entries for TOPIC (case and spacing ignored)
+  --source=ID      Entries from one source, e.g. reddit, x, hn
+  --prompt=VER     Entries written under prompt version VER
+  --model=MODEL    Entries from one model
+  --kind=KIND      search or enrichment
+
+Watch options:
+  --topics-file=PATH  Read topics from PATH (one per line, # comments)
+  --interval=TIME     Time between runs: 90s, 30m, 2h (default: 60m)
+  --min-score=N       Only alert on items scoring at least N (default: 60)
+  --jsonl=PATH        Append alerts to PATH as JSON lines
+  --webhook=URL       POST alerts for each topic to URL as JSON
+  --once              Run a single cycle and exit
+  Also accepts --sources, --days, --profile, --weights, --quick, --deep,
+  --mock, --debug.
+  Alerts print to stdout unless --jsonl or --webhook is given.
 
 Options:
   --emit=MODE      Output mode (default: compact)
                      compact  Markdown summary for Claude to synthesize
                      json     Full report as JSON
                      md       Full markdown report
+                     html     Self-contained HTML report with sortable tables
+                     atom     Atom feed of ranked items
+                     rss      RSS 2.0 feed of ranked items
+                     csv      One row per item across sources
+                     jsonl    One JSON object per item across sources
                      context  Reusable context snippet
                      path     Print path to context file
   --sources=MODE   Source selection (default: auto)
                      auto     Use all available API keys
-                     reddit   Reddit only (requires OPENAI_API_KEY)
+                     reddit   Reddit only (public search without OPENAI_API_KEY)
                      x        X/Twitter only (requires XAI_API_KEY)
                      both     Reddit + X (requires both keys)
+                     hn       Hacker News only (no key needed)
+                     reddit-public  Reddit public search only (no key needed)
+                     a,b      Comma-separated registered sources (e.g. reddit,x,hn)
   --days=N         Lookback window in days (default: 30, range: 1-365)
   --quick          Faster research with fewer results
   --deep           Comprehensive research with more results
@@ -77,20 +117,67 @@ Options:
   --refresh        Bypass cache reads and force fresh search
   --no-cache       Disable cache reads and writes
   --outdir=PATH    Write output files to PATH instead of default location
+  --no-history     Don't record this run in the history store
+  --synthesize     Write cited best practices and a prompt pack with the
+                   configured OpenAI/xAI model (needs an API key)
+  --profile=NAME   Scoring profile (default: default)
+                     default     Balanced relevance, recency and engagement
+                     recency     What's hot right now
+                     engagement  Most upvoted/liked discussion
+                     relevance   Most on-topic, evergreen discussion
+                     custom      default plus --weights
+  --weights=SPEC   Override scoring weights, e.g.
+                   relevance=0.6,recency=0.2,engagement=0.2
+                   (keys: relevance, recency, engagement, web_relevance,
+                   web_recency, web_source_penalty, default_engagement, ...)
+                   Weights you leave out keep the profile's value, then the
+                   relevance/recency/engagement and web_relevance/web_recency
+                   mixes are each rescaled to sum to 1. With the default
+                   profile, relevance=0.6,recency=0.4 keeps engagement at 0.3
+                   and ends up as 0.462/0.308/0.231; name all three to set
+                   the mix exactly.
+  --explain        Show each item's score components, weights, penalties and
+                   engagement normalization range (compact and md output)
   --mock           Use fixture data instead of real API calls
+  --record=DIR     Save every HTTP request/response (API keys redacted) to a
+                   cassette directory; bypasses the search cache
+  --replay=DIR     Answer HTTP requests from a recorded cassette instead of
+                   the network (no API keys needed)
   --debug          Enable verbose debug logging
   -h, --help       Show this help message
 
+History:
+  Every run is saved to ~/.local/share/last-30-days/history/<topic>/ so
+  "last-30-days diff <topic>" can compare it with the previous run.
+
 Config:
   API keys are loaded from environment variables or ~/.config/last-30-days/.env
-    OPENAI_API_KEY   Required for Reddit search (via OpenAI Responses API)
+    OPENAI_API_KEY   AI-curated Reddit search (via OpenAI Responses API);
+                     without it Reddit falls back to reddit.com public search
     XAI_API_KEY      Required for X search (via xAI Responses API)
+    HN_API_BASE_URL  Optional Algolia HN API base URL (default: hn.algolia.com)
+    SCORING_PROFILE  Default --profile
+    SCORING_WEIGHTS  Default --weights
+    RATE_LIMITS      Client-side requests/minute per host, e.g.
+                     api.openai.com=500,api.x.ai=60,reddit.com=10
+                     (defaults: OpenAI 60, xAI 60, reddit.com 30; 0 = off)
+    CACHE_BACKEND    file (default) or sqlite: keep search/enrichment entries
+                     and locks in ~/.cache/last-30-days/cache.sqlite
+    CACHE_LIMITS     Cache size caps enforced on write (least recently used
+                     entries are evicted first), e.g.
+                     search_bytes=50MB,search_entries=2000,enrichment_bytes=100MB
+                     (defaults: search 200MB/5000, enrichment 100MB/20000;
+                     0 = no cap)
 
 Examples:
   last-30-days "Claude Code"
   last-30-days "React Server Components" --deep --emit=json
   last-30-days "Bun 1.2" --sources=reddit --include-web
-  last-30-days "Bun 1.2" --days=7 --emit=json`
+  last-30-days "Bun 1.2" --sources=reddit,x,hn
+  last-30-days "Bun 1.2" --days=7 --emit=json
+  last-30-days "Bun 1.2" --profile=recency
+  last-30-days "Bun 1.2" --record=cassettes/bun && last-30-days "Bun 1.2" --replay=cassettes/bun
+  last-30-days watch "Claude Code" "Bun" --interval=2h --min-score=70`
 
 	console.log(text)
 	process.exit(0)
@@ -102,6 +189,25 @@ function parseDaysValue(value: string): number {
 	return Number(value)
 }
 
+/**
+ * Resolve --profile/--weights, exiting with a usage error when invalid.
+ * @returns Weight overrides to pass to `research()`.
+ */
+function parseScoringFlags(
+	profile: string,
+	weights: string,
+): Partial<schema.ScoringWeights> | undefined {
+	try {
+		const overrides = weights ? parseScoringWeights(weights) : undefined
+		if (profile || overrides)
+			resolveScoringProfile(profile || 'default', overrides)
+		return overrides
+	} catch (e) {
+		process.stderr.write(`Error: ${e instanceof Error ? e.message : e}\n`)
+		process.exit(1)
+	}
+}
+
 /** Parse CLI arguments. */
 function parseArgs(args: string[]) {
 	let topic = ''
@@ -116,6 +222,13 @@ function parseArgs(args: string[]) {
 	let noCache = false
 	let days = 30
 	let outdir = ''
+	let noHistory = false
+	let synthesize = false
+	let profile = ''
+	let weights = ''
+	let explain = false
+	let record = ''
+	let replay = ''
 
 	for (let i = 0; i < args.length; i++) {
 		const arg = args[i]!
@@ -161,6 +274,44 @@ function parseArgs(args: string[]) {
 			refresh = true
 		} else if (arg === '--no-cache') {
 			noCache = true
+		} else if (arg === '--no-history') {
+			noHistory = true
+		} else if (arg === '--synthesize') {
+			synthesize = true
+		} else if (arg === '--explain') {
+			explain = true
+		} else if (arg.startsWith('--profile=')) {
+			profile = arg.slice('--profile='.length)
+		} else if (arg === '--profile') {
+			const value = args[i + 1]
+			if (value && !value.startsWith('-')) {
+				profile = value
+				i += 1
+			}
+		} else if (arg.startsWith('--weights=')) {
+			weights = arg.slice('--weights='.length)
+		} else if (arg === '--weights') {
+			const value = args[i + 1]
+			if (value && !value.startsWith('-')) {
+				weights = value
+				i += 1
+			}
+		} else if (arg.startsWith('--record=')) {
+			record = arg.slice('--record='.length)
+		} else if (arg === '--record') {
+			const value = args[i + 1]
+			if (value && !value.startsWith('-')) {
+				record = value
+				i += 1
+			}
+		} else if (arg.startsWith('--replay=')) {
+			replay = arg.slice('--replay='.length)
+		} else if (arg === '--replay') {
+			const value = args[i + 1]
+			if (value && !value.startsWith('-')) {
+				replay = value
+				i += 1
+			}
 		} else if (arg.startsWith('--outdir=')) {
 			outdir = arg.slice('--outdir='.length)
 		} else if (arg === '--outdir') {
@@ -178,7 +329,18 @@ function parseArgs(args: string[]) {
 		}
 	}
 
-	const validEmits = ['compact', 'json', 'md', 'context', 'path']
+	const validEmits = [
+		'compact',
+		'json',
+		'md',
+		'html',
+		'atom',
+		'rss',
+		'csv',
+		'jsonl',
+		'context',
+		'path',
+	]
 	if (!validEmits.includes(emit)) {
 		process.stderr.write(
 			`Error: Invalid --emit value: "${emit}". Valid: ${validEmits.join(', ')}\n`,
@@ -186,14 +348,23 @@ function parseArgs(args: string[]) {
 		process.exit(1)
 	}
 
-	const validSources = ['auto', 'reddit', 'x', 'both', 'web']
-	if (!validSources.includes(sources)) {
+	if (!isValidSourceSelection(sources)) {
+		const registered = listSources().map((s) => s.name)
 		process.stderr.write(
-			`Error: Invalid --sources value: "${sources}". Valid: ${validSources.join(', ')}\n`,
+			`Error: Invalid --sources value: "${sources}". Valid: auto, reddit, x, both, web, or a comma-separated list of: ${registered.join(', ')}\n`,
 		)
 		process.exit(1)
 	}
 
+	if ([mock, record, replay].filter(Boolean).length > 1) {
+		process.stderr.write(
+			'Error: --mock, --record and --replay are mutually exclusive\n',
+		)
+		process.exit(1)
+	}
+
+	const scoringWeights = parseScoringFlags(profile, weights)
+
 	return {
 		topic,
 		mock,
@@ -207,331 +378,407 @@ function parseArgs(args: string[]) {
 		noCache,
 		days,
 		outdir,
+		noHistory,
+		synthesize,
+		profile,
+		weights: scoringWeights,
+		explain,
+		record,
+		replay,
 	}
 }
 
-interface SearchTaskResult {
-	items: Record<string, unknown>[]
-	raw: Record<string, unknown> | null
-	error: string | null
-	fromCache: boolean
-	cacheAgeHours: number | null
-	rateLimited: boolean
-	usedStaleCache: boolean
+/**
+ * Apply the configured CACHE_BACKEND, which also decides where run history
+ * lives, exiting with a usage error when it is invalid.
+ */
+function applyCacheBackend(): void {
+	const backend = config.getConfig().CACHE_BACKEND
+	if (!backend) return
+	try {
+		cache.setCacheBackend(backend)
+	} catch (e) {
+		process.stderr.write(
+			`Error: ${e instanceof Error ? e.message : String(e)}\n`,
+		)
+		process.exit(1)
+	}
 }
 
-interface CachedSearchPayload {
-	items: Record<string, unknown>[]
-	raw: Record<string, unknown> | null
-}
+/** Run `last-30-days diff <topic>`: compare the two most recent runs. */
+function runDiff(args: string[]): void {
+	let emit = 'md'
+	const words: string[] = []
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i]!
+		if (arg === '--help' || arg === '-h') {
+			showHelp()
+		} else if (arg.startsWith('--emit=')) {
+			emit = arg.slice('--emit='.length)
+		} else if (arg === '--emit') {
+			const value = args[i + 1]
+			if (value && !value.startsWith('-')) {
+				emit = value
+				i += 1
+			}
+		} else if (arg.startsWith('-')) {
+			process.stderr.write(`Error: Unknown flag for diff: ${arg}\n`)
+			process.exit(1)
+		} else {
+			words.push(arg)
+		}
+	}
 
-function parseCachedSearchPayload(
-	data: Record<string, unknown> | null,
-): CachedSearchPayload | null {
-	if (!data) return null
-	const itemsRaw = data.items
-	if (!Array.isArray(itemsRaw)) return null
-	const items = itemsRaw.filter(
-		(item) => item && typeof item === 'object',
-	) as Record<string, unknown>[]
-	const rawData =
-		data.raw && typeof data.raw === 'object'
-			? (data.raw as Record<string, unknown>)
-			: null
-	return { items, raw: rawData }
-}
+	const validEmits = ['md', 'json']
+	if (!validEmits.includes(emit)) {
+		process.stderr.write(
+			`Error: Invalid --emit value for diff: "${emit}". Valid: ${validEmits.join(', ')}\n`,
+		)
+		process.exit(1)
+	}
 
-async function searchRedditTask(
-	topic: string,
-	cfg: Record<string, string | null>,
-	selectedModels: Record<string, string | null>,
-	fromDate: string,
-	toDate: string,
-	days: number,
-	depth: string,
-	mock: boolean,
-	cacheOpts: { skipRead: boolean; skipWrite: boolean },
-): Promise<SearchTaskResult> {
-	const cacheKey = cache.getSourceCacheKey(
-		topic,
-		fromDate,
-		toDate,
-		days,
-		'reddit',
-		depth,
-		selectedModels.openai ?? null,
-		openaiReddit.REDDIT_PROMPT_VERSION,
-	)
+	const topic = words.join(' ')
+	if (!topic) {
+		process.stderr.write('Error: Please provide a topic to diff.\n')
+		process.stderr.write('Usage: last-30-days diff <topic> [--emit=md|json]\n')
+		process.exit(1)
+	}
 
-	// Try cache first (unless refreshing or mock)
-	if (!mock && !cacheOpts.skipRead) {
-		const [cached, ageHours] = cache.loadCacheWithAge(
-			cacheKey,
-			cache.getSearchTTL(),
+	applyCacheBackend()
+	if (history.listRuns(topic).length === 0) {
+		process.stderr.write(
+			`Error: No run history for "${topic}". Run last-30-days "${topic}" first.\n`,
 		)
-		const payload = parseCachedSearchPayload(cached)
-		if (payload) {
-			return {
-				items: payload.items,
-				raw: payload.raw,
-				error: null,
-				fromCache: true,
-				cacheAgeHours: ageHours,
-				rateLimited: false,
-				usedStaleCache: false,
-			}
-		}
+		process.exit(1)
 	}
 
-	let lockAcquired = false
-	if (!mock && !cacheOpts.skipRead) {
-		lockAcquired = await cache.acquireCacheLock(cacheKey)
-		if (!lockAcquired) {
-			const [cachedAfterWait, ageHours] = cache.loadCacheWithAge(
-				cacheKey,
-				cache.getSearchTTL(),
-			)
-			const payload = parseCachedSearchPayload(cachedAfterWait)
-			if (payload) {
-				return {
-					items: payload.items,
-					raw: payload.raw,
-					error: null,
-					fromCache: true,
-					cacheAgeHours: ageHours,
-					rateLimited: false,
-					usedStaleCache: false,
-				}
-			}
-		}
+	const diff = history.diffLatestRuns(topic)
+	if (!diff) {
+		process.stderr.write(
+			`Only one run recorded for "${topic}" - run it again to see changes.\n`,
+		)
+		return
 	}
 
-	let raw: Record<string, unknown> | null = null
-	let error: string | null = null
-	let rateLimited = false
+	if (emit === 'json') {
+		console.log(JSON.stringify(diff, null, 2))
+	} else {
+		console.log(render.renderDiff(diff))
+	}
+}
 
-	try {
-		if (mock) {
-			raw = loadFixture('openai_sample.json')
-		} else {
-			raw = await openaiReddit.searchReddit(
-				cfg.OPENAI_API_KEY!,
-				selectedModels.openai!,
-				topic,
-				fromDate,
-				toDate,
-				depth,
-			)
-		}
-	} catch (e) {
-		raw = { error: String(e) }
-		if (e instanceof RateLimitError) {
-			rateLimited = true
-			error = e.retryable
-				? `Rate limited after ${e.retries_attempted} retries`
-				: 'OpenAI quota/billing limit reached (non-retryable 429)'
-
-			// Stale cache fallback on transient rate-limit only.
-			// Keep error null when stale cache is served so results still render.
-			if (e.retryable && !cacheOpts.skipRead) {
-				const [stale, staleAge] = cache.loadStaleCacheWithAge(cacheKey)
-				const payload = parseCachedSearchPayload(stale)
-				if (payload) {
-					return {
-						items: payload.items,
-						raw: payload.raw,
-						error: null,
-						fromCache: true,
-						cacheAgeHours: staleAge,
-						rateLimited: true,
-						usedStaleCache: true,
-					}
-				}
-			}
-		} else {
-			error = `API error: ${e}`
-		}
-	} finally {
-		if (lockAcquired) cache.releaseCacheLock(cacheKey)
-	}
-
-	const items = openaiReddit.parseRedditResponse(raw ?? {})
-
-	// Quick retry with simpler query if few results
-	// Skip if the first attempt was rate-limited (retry amplification guard)
-	if (items.length < 5 && !mock && !error && !rateLimited) {
-		const core = openaiReddit.extractCoreSubject(topic)
-		if (core.toLowerCase() !== topic.toLowerCase()) {
-			try {
-				const retryRaw = await openaiReddit.searchReddit(
-					cfg.OPENAI_API_KEY!,
-					selectedModels.openai!,
-					core,
-					fromDate,
-					toDate,
-					depth,
+/** Run `last-30-days cache <action>`: inspect and maintain the file cache. */
+function runCache(args: string[]): void {
+	let emit = 'text'
+	const words: string[] = []
+	const filter: cache.CacheFilter = {}
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i]!
+		if (arg === '--help' || arg === '-h') {
+			showHelp()
+		} else if (arg.startsWith('--topic=')) {
+			filter.topic = arg.slice('--topic='.length)
+		} else if (arg.startsWith('--source=')) {
+			filter.source = arg.slice('--source='.length)
+		} else if (arg.startsWith('--prompt=')) {
+			filter.prompt_version = arg.slice('--prompt='.length)
+		} else if (arg.startsWith('--model=')) {
+			filter.model = arg.slice('--model='.length)
+		} else if (arg.startsWith('--kind=')) {
+			const kind = arg.slice('--kind='.length)
+			if (kind !== 'search' && kind !== 'enrichment') {
+				process.stderr.write(
+					`Error: Invalid --kind value: "${kind}". Valid: search, enrichment\n`,
 				)
-				const retryItems = openaiReddit.parseRedditResponse(retryRaw)
-				const existingUrls = new Set(items.map((i) => i.url))
-				for (const item of retryItems) {
-					if (!existingUrls.has(item.url)) items.push(item)
-				}
-			} catch {
-				// ignore retry errors
+				process.exit(1)
+			}
+			filter.kind = kind
+		} else if (arg.startsWith('--emit=')) {
+			emit = arg.slice('--emit='.length)
+		} else if (arg === '--emit') {
+			const value = args[i + 1]
+			if (value && !value.startsWith('-')) {
+				emit = value
+				i += 1
 			}
+		} else if (arg.startsWith('-')) {
+			process.stderr.write(`Error: Unknown flag for cache: ${arg}\n`)
+			process.exit(1)
+		} else {
+			words.push(arg)
 		}
 	}
 
-	// Write through to cache on success (unless disabled)
-	if (!mock && !cacheOpts.skipWrite && !error && items.length > 0) {
-		cache.saveCache(cacheKey, { items, raw })
+	if (!['text', 'json'].includes(emit)) {
+		process.stderr.write(
+			`Error: Invalid --emit value for cache: "${emit}". Valid: text, json\n`,
+		)
+		process.exit(1)
 	}
+	const json = emit === 'json'
+	const [action = 'stats', key] = words
 
-	return {
-		items,
-		raw,
-		error,
-		fromCache: false,
-		cacheAgeHours: null,
-		rateLimited,
-		usedStaleCache: false,
+	const cfg = config.getConfig()
+	try {
+		if (cfg.CACHE_BACKEND) cache.setCacheBackend(cfg.CACHE_BACKEND)
+		if (cfg.CACHE_LIMITS) {
+			cache.setCacheLimits(cache.parseCacheLimits(cfg.CACHE_LIMITS))
+		}
+	} catch (e) {
+		process.stderr.write(
+			`Error: ${e instanceof Error ? e.message : String(e)}\n`,
+		)
+		process.exit(1)
 	}
-}
 
-async function searchXTask(
-	topic: string,
-	cfg: Record<string, string | null>,
-	selectedModels: Record<string, string | null>,
-	fromDate: string,
-	toDate: string,
-	days: number,
-	depth: string,
-	mock: boolean,
-	cacheOpts: { skipRead: boolean; skipWrite: boolean },
-): Promise<SearchTaskResult> {
-	const cacheKey = cache.getSourceCacheKey(
-		topic,
-		fromDate,
-		toDate,
-		days,
-		'x',
-		depth,
-		selectedModels.xai ?? null,
-		xaiX.X_PROMPT_VERSION,
-	)
-
-	// Try cache first (unless refreshing or mock)
-	if (!mock && !cacheOpts.skipRead) {
-		const [cached, ageHours] = cache.loadCacheWithAge(
-			cacheKey,
-			cache.getSearchTTL(),
+	if (action === 'stats') {
+		const stats = cache.getCacheStats()
+		console.log(
+			json ? JSON.stringify(stats, null, 2) : render.renderCacheStats(stats),
 		)
-		const payload = parseCachedSearchPayload(cached)
-		if (payload) {
-			return {
-				items: payload.items,
-				raw: payload.raw,
-				error: null,
-				fromCache: true,
-				cacheAgeHours: ageHours,
-				rateLimited: false,
-				usedStaleCache: false,
-			}
+	} else if (action === 'ls') {
+		const filtered = Object.keys(filter).length > 0
+		const entries = cache
+			.listCacheEntries()
+			.filter(
+				(e) =>
+					!filtered || (e.meta && cache.matchesCacheFilter(e.meta, filter)),
+			)
+		console.log(
+			json ? JSON.stringify(entries, null, 2) : render.renderCacheList(entries),
+		)
+	} else if (action === 'show') {
+		if (!key) {
+			process.stderr.write('Usage: last-30-days cache show <key>\n')
+			process.exit(1)
 		}
-	}
-
-	let lockAcquired = false
-	if (!mock && !cacheOpts.skipRead) {
-		lockAcquired = await cache.acquireCacheLock(cacheKey)
-		if (!lockAcquired) {
-			const [cachedAfterWait, ageHours] = cache.loadCacheWithAge(
-				cacheKey,
-				cache.getSearchTTL(),
+		const found = cache.inspectCacheEntry(key)
+		if (!found) {
+			process.stderr.write(
+				`Error: No cache entry matches "${key}" (or the prefix is ambiguous).\n`,
 			)
-			const payload = parseCachedSearchPayload(cachedAfterWait)
-			if (payload) {
-				return {
-					items: payload.items,
-					raw: payload.raw,
-					error: null,
-					fromCache: true,
-					cacheAgeHours: ageHours,
-					rateLimited: false,
-					usedStaleCache: false,
-				}
-			}
+			process.exit(1)
+		}
+		console.log(
+			json
+				? JSON.stringify(found, null, 2)
+				: render.renderCacheEntry(found.entry),
+		)
+	} else if (action === 'invalidate') {
+		if (Object.keys(filter).length === 0) {
+			process.stderr.write(
+				'Error: cache invalidate needs at least one filter (--topic, --source, --prompt, --model, --kind). Use cache clear to delete everything.\n',
+			)
+			process.exit(1)
+		}
+		const removed = cache.invalidateCache(filter)
+		console.log(
+			json
+				? JSON.stringify({ removed }, null, 2)
+				: `Invalidated ${removed.length} entries.`,
+		)
+	} else if (action === 'reindex') {
+		const indexed = cache.rebuildCacheIndex()
+		console.log(
+			json
+				? JSON.stringify({ indexed }, null, 2)
+				: `Indexed ${indexed} entries.`,
+		)
+	} else if (action === 'prune') {
+		const removed = cache.pruneCache()
+		const bytes = removed.reduce((n, e) => n + e.bytes, 0)
+		console.log(
+			json
+				? JSON.stringify({ removed }, null, 2)
+				: `Pruned ${removed.length} entries (${render.formatBytes(bytes)}).`,
+		)
+	} else if (action === 'clear') {
+		const removed = cache.clearCache()
+		console.log(
+			json
+				? JSON.stringify({ removed }, null, 2)
+				: `Removed ${removed} cache files.`,
+		)
+	} else if (action === 'migrate') {
+		const result = cache.migrateCacheToSqlite()
+		if (json) {
+			console.log(JSON.stringify(result, null, 2))
+			return
+		}
+		const skipped = result.skipped
+			? ` (${result.skipped} unrecognized files left in place)`
+			: ''
+		console.log(`Migrated ${result.migrated} entries to SQLite${skipped}.`)
+		if (cache.getCacheBackend() !== 'sqlite') {
+			console.log('Set CACHE_BACKEND=sqlite to use it.')
 		}
+	} else {
+		process.stderr.write(
+			`Error: Unknown cache action: "${action}". Valid: stats, ls, show, invalidate, reindex, prune, clear, migrate\n`,
+		)
+		process.exit(1)
 	}
+}
 
-	let raw: Record<string, unknown> | null = null
-	let error: string | null = null
-	let rateLimited = false
+/** Run `last-30-days watch <topic>...`: re-run topics and alert on new items. */
+async function runWatch(args: string[]): Promise<void> {
+	const topics: string[] = []
+	let topicsFile = ''
+	let interval = '60m'
+	let minScore = '60'
+	let jsonl = ''
+	let webhook = ''
+	let once = false
+	let sources = 'auto'
+	let days = 30
+	let depth: 'quick' | 'default' | 'deep' = 'default'
+	let profile = ''
+	let weights = ''
+	let mock = false
+	let debug = false
 
-	try {
-		if (mock) {
-			raw = loadFixture('xai_sample.json')
-		} else {
-			raw = await xaiX.searchX(
-				cfg.XAI_API_KEY!,
-				selectedModels.xai!,
-				topic,
-				fromDate,
-				toDate,
-				depth,
-			)
-		}
-	} catch (e) {
-		raw = { error: String(e) }
-		if (e instanceof RateLimitError) {
-			rateLimited = true
-			error = e.retryable
-				? `Rate limited after ${e.retries_attempted} retries`
-				: 'xAI quota/billing limit reached (non-retryable 429)'
-
-			// Stale cache fallback on transient rate-limit only.
-			// Keep error null when stale cache is served so results still render.
-			if (e.retryable && !cacheOpts.skipRead) {
-				const [stale, staleAge] = cache.loadStaleCacheWithAge(cacheKey)
-				const payload = parseCachedSearchPayload(stale)
-				if (payload) {
-					return {
-						items: payload.items,
-						raw: payload.raw,
-						error: null,
-						fromCache: true,
-						cacheAgeHours: staleAge,
-						rateLimited: true,
-						usedStaleCache: true,
-					}
-				}
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i]!
+		const [flag, inline] = arg.startsWith('--') ? arg.split(/=(.*)/s) : [arg]
+		// Value from "--flag=value" or the following "--flag value" argument
+		const value = (): string => {
+			if (inline !== undefined) return inline
+			const next = args[i + 1]
+			if (next === undefined || next.startsWith('-')) {
+				process.stderr.write(`Error: ${flag} requires a value\n`)
+				process.exit(1)
 			}
+			i += 1
+			return next
+		}
+
+		if (arg === '--help' || arg === '-h') {
+			showHelp()
+		} else if (flag === '--topics-file') {
+			topicsFile = value()
+		} else if (flag === '--interval') {
+			interval = value()
+		} else if (flag === '--min-score') {
+			minScore = value()
+		} else if (flag === '--jsonl') {
+			jsonl = value()
+		} else if (flag === '--webhook') {
+			webhook = value()
+		} else if (flag === '--sources') {
+			sources = value()
+		} else if (flag === '--days') {
+			days = parseDaysValue(value())
+		} else if (flag === '--profile') {
+			profile = value()
+		} else if (flag === '--weights') {
+			weights = value()
+		} else if (arg === '--once') {
+			once = true
+		} else if (arg === '--quick') {
+			depth = 'quick'
+		} else if (arg === '--deep') {
+			depth = 'deep'
+		} else if (arg === '--mock') {
+			mock = true
+		} else if (arg === '--debug') {
+			debug = true
+		} else if (arg.startsWith('-')) {
+			process.stderr.write(`Error: Unknown flag for watch: ${arg}\n`)
+			process.exit(1)
 		} else {
-			error = `API error: ${e}`
+			topics.push(arg)
 		}
-	} finally {
-		if (lockAcquired) cache.releaseCacheLock(cacheKey)
 	}
 
-	const items = xaiX.parseXResponse(raw ?? {})
-
-	// Write through to cache on success (unless disabled)
-	if (!mock && !cacheOpts.skipWrite && !error && items.length > 0) {
-		cache.saveCache(cacheKey, { items, raw })
+	if (topicsFile) {
+		try {
+			for (const line of readFileSync(topicsFile, 'utf-8').split('\n')) {
+				const topic = line.trim()
+				if (topic && !topic.startsWith('#')) topics.push(topic)
+			}
+		} catch (e) {
+			process.stderr.write(`Error: Could not read --topics-file: ${e}\n`)
+			process.exit(1)
+		}
+	}
+	if (topics.length === 0) {
+		process.stderr.write('Error: Please provide at least one topic to watch.\n')
+		process.stderr.write('Usage: last-30-days watch <topic>... [options]\n')
+		process.exit(1)
 	}
 
-	return {
-		items,
-		raw,
-		error,
-		fromCache: false,
-		cacheAgeHours: null,
-		rateLimited,
-		usedStaleCache: false,
+	const intervalMs = parseInterval(interval)
+	if (Number.isNaN(intervalMs)) {
+		process.stderr.write(
+			`Error: Invalid --interval value: "${interval}". Use e.g. 90s, 30m, 2h.\n`,
+		)
+		process.exit(1)
 	}
+	const minScoreValue = Number(minScore)
+	if (!Number.isFinite(minScoreValue) || minScoreValue < 0) {
+		process.stderr.write(
+			`Error: Invalid --min-score value: "${minScore}". Use 0-100.\n`,
+		)
+		process.exit(1)
+	}
+	if (!Number.isInteger(days) || days < 1 || days > 365) {
+		process.stderr.write(
+			'Error: --days must be an integer between 1 and 365.\n',
+		)
+		process.exit(1)
+	}
+	if (!isValidSourceSelection(sources)) {
+		process.stderr.write(`Error: Invalid --sources value: "${sources}".\n`)
+		process.exit(1)
+	}
+	const scoringWeights = parseScoringFlags(profile, weights)
+	// Before the first cycle reads the previous runs from history
+	applyCacheBackend()
+
+	process.stderr.write(
+		once
+			? `Watching ${topics.length} topic(s) once\n`
+			: `Watching ${topics.length} topic(s) every ${interval} - Ctrl+C to stop\n`,
+	)
+	await watch({
+		topics,
+		intervalMs,
+		minScore: minScoreValue,
+		cycles: once ? 1 : undefined,
+		jsonl: jsonl || undefined,
+		webhook: webhook || undefined,
+		research: {
+			sources,
+			days,
+			depth,
+			profile: profile || undefined,
+			weights: scoringWeights,
+			mock,
+			debug,
+		},
+	})
 }
 
 async function main() {
-	const args = parseArgs(process.argv.slice(2))
+	const argv = process.argv.slice(2)
+	if (argv[0] === 'diff') {
+		runDiff(argv.slice(1))
+		return
+	}
+	if (argv[0] === 'watch') {
+		await runWatch(argv.slice(1))
+		return
+	}
+	if (argv[0] === 'cache') {
+		runCache(argv.slice(1))
+		return
+	}
+	if (argv[0] === 'schema') {
+		console.log(JSON.stringify(REPORT_JSON_SCHEMA, null, 2))
+		return
+	}
+
+	const args = parseArgs(argv)
 
 	if (args.debug) {
 		process.env.LAST_30_DAYS_DEBUG = '1'
@@ -559,332 +806,49 @@ async function main() {
 		process.exit(1)
 	}
 
-	// Load config
 	const cfg = config.getConfig()
-	const available = config.getAvailableSources(cfg)
-
-	// Determine sources
-	let sources: string
-	if (args.mock) {
-		// In mock mode, simulate having both keys available
-		const [effectiveSources, error] = config.validateSources(
-			args.sources,
-			'both',
-			args.includeWeb,
-		)
-		sources = effectiveSources
-		if (error && !error.includes('WebSearch fallback')) {
-			process.stderr.write(`Error: ${error}\n`)
-			process.exit(1)
-		}
-	} else {
-		const [effectiveSources, error] = config.validateSources(
-			args.sources,
-			available,
-			args.includeWeb,
-		)
-		sources = effectiveSources
-		if (error) {
-			if (error.includes('WebSearch fallback')) {
-				process.stderr.write(`Note: ${error}\n`)
-			} else {
-				process.stderr.write(`Error: ${error}\n`)
-				process.exit(1)
-			}
-		}
-	}
-
-	// Get date range
-	const [fromDate, toDate] = getDateRange(args.days)
 	const missingKeys = config.getMissingKeys(cfg)
 
-	// Initialize progress
-	const progress = new ProgressDisplay(args.topic, true)
-
-	if (missingKeys !== 'none') progress.showPromo(missingKeys)
-
-	// Select models
-	let selectedModels: Record<string, string | null>
-	if (args.mock) {
-		const mockOpenai =
-			(loadFixture('models_openai_sample.json').data as Record<
-				string,
-				unknown
-			>[]) ?? []
-		const mockXai =
-			(loadFixture('models_xai_sample.json').data as Record<
-				string,
-				unknown
-			>[]) ?? []
-		selectedModels = await models.getModels(
-			{ OPENAI_API_KEY: 'mock', XAI_API_KEY: 'mock', ...cfg },
-			mockOpenai,
-			mockXai,
-		)
-	} else {
-		selectedModels = await models.getModels(cfg)
-	}
-
-	// Determine mode string
-	const modeMap: Record<string, string> = {
-		all: 'all',
-		both: 'both',
-		reddit: 'reddit-only',
-		'reddit-web': 'reddit-web',
-		x: 'x-only',
-		'x-web': 'x-web',
-		web: 'web-only',
-	}
-	const mode = modeMap[sources] ?? sources
-
-	// Check if WebSearch is needed
-	const webNeeded = ['all', 'web', 'reddit-web', 'x-web'].includes(sources)
-
-	// Web-only mode
-	if (sources === 'web') {
-		progress.startWebOnly()
-		progress.endWebOnly()
-	}
-
-	const runReddit = ['both', 'reddit', 'all', 'reddit-web'].includes(sources)
-	const runX = ['both', 'x', 'all', 'x-web'].includes(sources)
-
-	// Cache configuration
-	const skipCacheRead = args.refresh || args.noCache
-	const skipCacheWrite = args.noCache
-	const cacheOpts = { skipRead: skipCacheRead, skipWrite: skipCacheWrite }
-
-	// Run searches in parallel
-	let redditItems: Record<string, unknown>[] = []
-	let xItems: Record<string, unknown>[] = []
-	let rawOpenai: Record<string, unknown> | null = null
-	let rawXai: Record<string, unknown> | null = null
-	let redditError: string | null = null
-	let xError: string | null = null
-	let anyFromCache = false
-	let maxCacheAge: number | null = null
-	let redditRateLimited = false
-	let xRateLimited = false
-	let redditUsedStaleCache = false
-	let xUsedStaleCache = false
-
-	const promises: Promise<void>[] = []
-
-	if (runReddit) {
-		progress.startReddit()
-		promises.push(
-			searchRedditTask(
-				args.topic,
-				cfg,
-				selectedModels,
-				fromDate,
-				toDate,
-				args.days,
-				depth,
-				args.mock,
-				cacheOpts,
-			).then((result) => {
-				redditItems = result.items
-				rawOpenai = result.raw
-				redditError = result.error
-				if (result.fromCache) {
-					anyFromCache = true
-					if (
-						result.cacheAgeHours != null &&
-						(maxCacheAge == null || result.cacheAgeHours > maxCacheAge)
-					) {
-						maxCacheAge = result.cacheAgeHours
-					}
-				}
-				if (result.rateLimited) redditRateLimited = true
-				if (result.usedStaleCache) redditUsedStaleCache = true
-				if (result.fromCache && !result.rateLimited) {
-					progress.endReddit(redditItems.length)
-				} else {
-					if (redditError) progress.showError(`Reddit error: ${redditError}`)
-					progress.endReddit(redditItems.length)
-				}
-			}),
-		)
-	}
-
-	if (runX) {
-		progress.startX()
-		promises.push(
-			searchXTask(
-				args.topic,
-				cfg,
-				selectedModels,
-				fromDate,
-				toDate,
-				args.days,
-				depth,
-				args.mock,
-				cacheOpts,
-			).then((result) => {
-				xItems = result.items
-				rawXai = result.raw
-				xError = result.error
-				if (result.fromCache) {
-					anyFromCache = true
-					if (
-						result.cacheAgeHours != null &&
-						(maxCacheAge == null || result.cacheAgeHours > maxCacheAge)
-					) {
-						maxCacheAge = result.cacheAgeHours
-					}
-				}
-				if (result.rateLimited) xRateLimited = true
-				if (result.usedStaleCache) xUsedStaleCache = true
-				if (result.fromCache && !result.rateLimited) {
-					progress.endX(xItems.length)
-				} else {
-					if (xError) progress.showError(`X error: ${xError}`)
-					progress.endX(xItems.length)
-				}
-			}),
-		)
-	}
-
-	await Promise.allSettled(promises)
-
-	const anyRateLimited = redditRateLimited || xRateLimited
-	const anyUsedStaleCache = redditUsedStaleCache || xUsedStaleCache
-
-	if (anyFromCache && !anyRateLimited) {
-		progress.showCached(maxCacheAge)
-	}
-	if (anyRateLimited) {
-		const rateLimitedSources: string[] = []
-		if (redditRateLimited) rateLimitedSources.push('Reddit')
-		if (xRateLimited) rateLimitedSources.push('X')
-		const sourceName = rateLimitedSources.join('/')
-		progress.showRateLimited(sourceName, anyUsedStaleCache, maxCacheAge)
-	}
-
-	// Enrich Reddit items
-	const rawRedditEnriched: Record<string, unknown>[] = []
-	if (redditItems.length > 0) {
-		progress.startRedditEnrich(1, redditItems.length)
-		for (let i = 0; i < redditItems.length; i++) {
-			if (i > 0) progress.updateRedditEnrich(i + 1, redditItems.length)
-			const item = redditItems[i]!
-			const itemUrl = String(item.url ?? '')
-			const enrichKey = itemUrl ? cache.getEnrichmentCacheKey(itemUrl) : ''
-
-			if (!args.mock && enrichKey && !skipCacheRead) {
-				const [cachedEnriched] = cache.loadCacheWithAge(
-					enrichKey,
-					cache.getEnrichmentTTL(),
-				)
-				const cachedItem =
-					cachedEnriched &&
-					typeof cachedEnriched.item === 'object' &&
-					cachedEnriched.item
-						? (cachedEnriched.item as Record<string, unknown>)
-						: null
-				if (cachedItem) {
-					redditItems[i] = cachedItem
-					rawRedditEnriched.push(cachedItem)
-					continue
-				}
-			}
-
-			try {
-				if (args.mock) {
-					const mockThread = loadFixture('reddit_thread_sample.json')
-					redditItems[i] = await redditEnrich.enrichRedditItem(
-						redditItems[i]!,
-						mockThread,
-					)
-				} else {
-					redditItems[i] = await redditEnrich.enrichRedditItem(redditItems[i]!)
-					if (enrichKey && !skipCacheWrite) {
-						cache.saveCache(enrichKey, {
-							item: redditItems[i]!,
-							cached_at: new Date().toISOString(),
-						})
-					}
-				}
-			} catch (e) {
-				progress.showError(`Enrich failed: ${e}`)
-			}
-			rawRedditEnriched.push(redditItems[i]!)
-		}
-		progress.endRedditEnrich()
-	}
-
-	// Processing phase
-	progress.startProcessing()
-
-	const normalizedReddit = normalize.normalizeRedditItems(
-		redditItems,
-		fromDate,
-		toDate,
-	)
-	const normalizedX = normalize.normalizeXItems(xItems, fromDate, toDate)
-
-	const filteredReddit = normalize.filterByDateRange(
-		normalizedReddit,
-		fromDate,
-		toDate,
-	)
-	const filteredX = normalize.filterByDateRange(normalizedX, fromDate, toDate)
-
-	const scoredReddit = score.scoreRedditItems(filteredReddit, args.days)
-	const scoredX = score.scoreXItems(filteredX, args.days)
-
-	const sortedReddit = score.sortItems(scoredReddit)
-	const sortedX = score.sortItems(scoredX)
-
-	const dedupedReddit = dedupe.dedupeReddit(sortedReddit as schema.RedditItem[])
-	const dedupedX = dedupe.dedupeX(sortedX as schema.XItem[])
-
-	progress.endProcessing()
-
-	// Create report
-	const report = schema.createReport(
-		args.topic,
-		fromDate,
-		toDate,
-		mode,
-		selectedModels.openai,
-		selectedModels.xai,
-		args.days,
-	)
-	report.reddit = dedupedReddit
-	report.x = dedupedX
-	report.reddit_error = redditError
-	report.x_error = xError
-	report.from_cache = anyFromCache
-	report.cache_age_hours = maxCacheAge
-	report.context_snippet_md = render.renderContextSnippet(report)
-
-	// Write outputs
+	let report: schema.Report
 	try {
-		render.writeOutputs(
-			report,
-			rawOpenai,
-			rawXai,
-			rawRedditEnriched,
-			args.outdir || undefined,
-		)
+		report = await research(args.topic, {
+			days: args.days,
+			depth,
+			sources: args.sources,
+			includeWeb: args.includeWeb,
+			refresh: args.refresh,
+			noCache: args.noCache,
+			outdir: args.outdir || undefined,
+			writeOutputs: true,
+			saveHistory: !args.noHistory,
+			synthesize: args.synthesize,
+			profile: args.profile || undefined,
+			weights: args.weights,
+			mock: args.mock,
+			cassette: args.record
+				? { mode: 'record', dir: args.record }
+				: args.replay
+					? { mode: 'replay', dir: args.replay }
+					: undefined,
+			config: cfg,
+			progress: new ProgressDisplay(args.topic, true),
+			debug: args.debug,
+		})
 	} catch (e) {
-		if (args.debug) {
-			process.stderr.write(`Warning: Could not write output files: ${e}\n`)
+		if (e instanceof ResearchError) {
+			process.stderr.write(`Error: ${e.message}\n`)
+			process.exit(1)
 		}
+		throw e
 	}
 
-	// Show completion
-	if (sources === 'web') {
-		progress.showWebOnlyComplete()
-	} else {
-		progress.showComplete(dedupedReddit.length, dedupedX.length)
-	}
+	const webNeeded = isWebMode(report.mode)
+	const fromDate = report.range_from
+	const toDate = report.range_to
 
 	// Output result
 	if (args.emit === 'compact') {
-		console.log(render.renderCompact(report, 15, missingKeys))
+		console.log(render.renderCompact(report, 15, missingKeys, args.explain))
 	} else if (args.emit === 'json') {
 		const dict = schema.reportToDict(report) as Record<string, unknown>
 		if (webNeeded) {
@@ -898,7 +862,17 @@ async function main() {
 		}
 		console.log(JSON.stringify(dict, null, 2))
 	} else if (args.emit === 'md') {
-		console.log(render.renderFullReport(report))
+		console.log(render.renderFullReport(report, args.explain))
+	} else if (args.emit === 'html') {
+		console.log(render.renderHtml(report))
+	} else if (args.emit === 'atom') {
+		console.log(render.renderAtom(report))
+	} else if (args.emit === 'rss') {
+		console.log(render.renderRss(report))
+	} else if (args.emit === 'csv') {
+		process.stdout.write(render.renderCsv(report))
+	} else if (args.emit === 'jsonl') {
+		process.stdout.write(render.renderJsonl(report))
 	} else if (args.emit === 'context') {
 		console.log(report.context_snippet_md)
 	} else if (args.emit === 'path') {
@@ -908,8 +882,10 @@ async function main() {
 	// Web mode handoff: print structured instructions for Claude's WebSearch tool.
 	// Unlike Reddit/X, web search runs in Claude's process, not ours.
 	// See src/lib/websearch.ts module comment for architecture rationale.
-	// Output WebSearch instructions if needed (skip for JSON - already embedded)
-	if (webNeeded && args.emit !== 'json') {
+	// Output WebSearch instructions if needed (skip for JSON - already embedded -
+	// and for the other machine-readable formats)
+	const machineEmits = ['json', 'atom', 'rss', 'csv', 'jsonl', 'html']
+	if (webNeeded && !machineEmits.includes(args.emit)) {
 		console.log(`\n${'='.repeat(60)}`)
 		console.log('### WEBSEARCH REQUIRED ###')
 		console.log('='.repeat(60))
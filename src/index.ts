@@ -6,22 +6,73 @@
  */
 
 // Cache
+export type {
+	CacheBackend,
+	CacheEntryInfo,
+	CacheEntryKind,
+	CacheEntryMeta,
+	CacheFilter,
+	CacheKindStats,
+	CacheLimit,
+	CacheLimitKind,
+	CacheRecordKind,
+	CacheStats,
+} from './lib/cache.js'
 export {
 	acquireCacheLock,
+	CACHE_BACKENDS,
+	CACHE_ENTRY_KINDS,
+	type CircuitRecord,
+	clearCache,
 	clearCachedModel,
+	DEFAULT_CACHE_LIMITS,
+	getCacheBackend,
+	getCacheDir,
 	getCacheKey,
+	getCacheLimits,
+	getCacheStats,
 	getEnrichmentCacheKey,
 	getEnrichmentTTL,
 	getSearchTTL,
 	getSourceCacheKey,
 	getStaleSearchTTL,
+	inspectCacheEntry,
+	invalidateCache,
+	listCacheEntries,
 	loadCache,
+	loadCacheIndex,
 	loadCacheWithAge,
+	loadCircuitState,
 	loadStaleCacheWithAge,
+	matchesCacheFilter,
+	migrateCacheToSqlite,
+	parseCacheLimits,
+	pruneCache,
+	queryCache,
+	rebuildCacheIndex,
 	releaseCacheLock,
 	SEARCH_CACHE_SCHEMA_VERSION,
 	saveCache,
+	saveCircuitState,
+	setCacheBackend,
+	setCacheDir,
+	setCacheLimits,
 } from './lib/cache.js'
+// Cassettes (HTTP record/replay)
+export type {
+	CassetteEntry,
+	CassetteManifest,
+	CassetteMode,
+	CassetteOptions,
+} from './lib/cassette.js'
+export {
+	CASSETTE_FORMAT_VERSION,
+	CassetteError,
+	getCassette,
+	getCassetteKey,
+	redactUrl,
+	useCassette,
+} from './lib/cassette.js'
 // Config
 export { getAvailableSources, getConfig, getMissingKeys } from './lib/config.js'
 // Date utilities
@@ -35,28 +86,69 @@ export {
 } from './lib/dates.js'
 // Deduplication
 export {
+	clusterStories,
+	dedupeHackerNews,
 	dedupeItems,
 	dedupeReddit,
 	dedupeWebsearch,
 	dedupeX,
+	extractUrls,
 	getNgrams,
 	jaccardSimilarity,
 	normalizeText,
 } from './lib/dedupe.js'
+// Hacker News
+export {
+	enrichHackerNewsItem,
+	getCreatedAtFilter,
+	getHackerNewsEnrichLimit,
+	parseHackerNewsResponse,
+	searchHackerNews,
+} from './lib/hackernews.js'
+// History
+export type {
+	ChangedItem,
+	HistoryEntry,
+	HistoryItem,
+	ReportDiff,
+} from './lib/history.js'
+export {
+	diffLatestRuns,
+	diffReports,
+	getReportItems,
+	getTopicSlug,
+	listRuns,
+	loadRun,
+	saveRun,
+} from './lib/history.js'
 // HTTP / retry
+export type { Transport } from './lib/http.js'
 export {
 	backoffDelay,
+	CircuitOpenError,
+	DEFAULT_RATE_LIMITS,
+	fetchTransport,
+	getCircuitCooldownMs,
+	getCircuitThreshold,
+	getOpenCircuit,
+	getRateLimits,
 	HTTPError,
 	isRetryableRateLimit,
+	observeRateLimitHeaders,
 	parseRateLimitResetMs,
+	parseRateLimits,
 	parseRetryAfterMs,
 	RateLimitError,
+	recordCircuitResult,
+	reserveRateLimit,
+	setRateLimits,
 } from './lib/http.js'
 // Models
 export { invalidateCachedModel } from './lib/models.js'
 // Normalization
 export {
 	filterByDateRange,
+	normalizeHackerNewsItems,
 	normalizeRedditItems,
 	normalizeXItems,
 } from './lib/normalize.js'
@@ -64,35 +156,150 @@ export {
 export {
 	isModelAccessError,
 	parseRedditResponse,
+	REDDIT_ITEM_SCHEMA,
+	supportsStructuredOutputs,
 	supportsWebSearchFilters,
 } from './lib/openai-reddit.js'
+// Reddit public search
+export {
+	getEnrichLimit,
+	getTimeFilter,
+	getTopSubreddits,
+	parseRedditSearchResponse,
+	searchRedditPublic,
+} from './lib/reddit-search.js'
 // Rendering
+export type { FlatColumn, FlatValue } from './lib/render.js'
 export {
+	FLAT_COLUMNS,
+	flattenReport,
+	formatBytes,
 	getContextPath,
+	getFeedEntryId,
+	renderAtom,
+	renderCacheEntry,
+	renderCacheList,
+	renderCacheStats,
 	renderCompact,
 	renderContextSnippet,
+	renderCsv,
+	renderDiff,
 	renderFullReport,
+	renderHtml,
+	renderJsonl,
+	renderRss,
 	writeOutputs,
 } from './lib/render.js'
+export { REPORT_JSON_SCHEMA } from './lib/report-schema.js'
+// Research pipeline
+export type { ResearchDepth, ResearchOptions } from './lib/research.js'
+export { isWebMode, ResearchError, research } from './lib/research.js'
 // Schema types
 export type {
+	BaseItem,
 	Comment,
 	Engagement,
+	HackerNewsItem,
+	ParseDiagnostics,
+	ParseIssue,
+	ParseIssueReason,
 	RedditItem,
 	Report,
+	ReportSection,
+	ReportSections,
+	ScoreAdjustment,
+	ScoreComponent,
+	ScoreExplain,
+	ScoringProfile,
+	ScoringWeights,
+	Story,
 	SubScores,
 	WebSearchItem,
 	XItem,
 } from './lib/schema.js'
-// Schema factories
-export { createReport } from './lib/schema.js'
+// Schema factories and versioning
+export {
+	createReport,
+	getAllItems,
+	getExtraSections,
+	getItemTitle,
+	getSectionItems,
+	migrateReportDict,
+	REPORT_SCHEMA_VERSION,
+	REPORT_SECTIONS,
+	ReportVersionError,
+	reportFromDict,
+	reportToDict,
+} from './lib/schema.js'
 // Scoring
 export {
+	computeRelevance,
+	parseScoringWeights,
+	resolveScoringProfile,
+	SCORING_PROFILES,
+	ScoringError,
+	scoreHackerNewsItems,
 	scoreRedditItems,
 	scoreWebsearchItems,
 	scoreXItems,
 	sortItems,
 } from './lib/score.js'
+// Source adapters
+export type {
+	SourceAdapter,
+	SourceCacheOptions,
+	SourceContext,
+	SourceSearchResult,
+	SourceSelection,
+} from './lib/sources.js'
+export {
+	assignSourceResult,
+	getSectionLabel,
+	getSource,
+	getSourceSection,
+	hackerNewsSource,
+	isValidSourceSelection,
+	listSources,
+	redditPublicSource,
+	redditSource,
+	registerSource,
+	resolveSources,
+	runSourceSearch,
+	unregisterSource,
+	xSource,
+} from './lib/sources.js'
+// Synthesis
+export type { SynthesisResult, SynthesisTarget } from './lib/synthesize.js'
+export {
+	buildSynthesisPrompt,
+	filterCited,
+	getReplaySynthesisTarget,
+	getSynthesisTarget,
+	parseSynthesisResponse,
+	synthesizeReport,
+} from './lib/synthesize.js'
+// URLs
+export { normalizeUrl } from './lib/url.js'
+// LLM output validation
+export {
+	checkItemDate,
+	checkItemUrl,
+	createParseDiagnostics,
+	extractItemsJson,
+	extractOutputText,
+	formatParseDiagnostics,
+	isResponseFormatError,
+	itemsResponseFormat,
+} from './lib/validate.js'
+// Watch mode
+export type { WatchAlert, WatchOptions } from './lib/watch.js'
+export {
+	findNewItems,
+	formatAlert,
+	parseInterval,
+	runWatchCycle,
+	watch,
+} from './lib/watch.js'
 // WebSearch
 export {
 	extractDateFromSnippet,
@@ -104,4 +311,4 @@ export {
 	parseWebsearchResults,
 } from './lib/websearch.js'
 // xAI X
-export { parseXResponse } from './lib/xai-x.js'
+export { parseXResponse, X_ITEM_SCHEMA } from './lib/xai-x.js'
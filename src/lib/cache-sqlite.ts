@@ -0,0 +1,296 @@
+/**
+ * SQLite storage for the search and enrichment cache.
+ *
+ * One database file replaces the per-entry JSON files and `.lock` files of
+ * the file cache. Writes and lock changes run in `BEGIN IMMEDIATE`
+ * transactions, so concurrent processes serialize on SQLite's own locking
+ * instead of on exclusive file creation. Selected with `CACHE_BACKEND=sqlite`;
+ * `cache.ts` decides when to call in here.
+ *
+ * `bun:sqlite` is loaded on first use so the rest of the library still
+ * imports under Node when the file backend is in use.
+ */
+
+import type { Database } from 'bun:sqlite'
+import { createRequire } from 'node:module'
+import type {
+	CacheEntryMeta,
+	CacheLockOwner,
+	CacheRecordKind,
+} from './cache.js'
+
+/**
+ * Bump when the table layout changes. v2 added `entries.used_at`; v3
+ * recreated `locks` with owner details.
+ */
+const SQLITE_SCHEMA_VERSION = 3
+
+/** How long a writer waits on another process's transaction. */
+const BUSY_TIMEOUT_MS = 5_000
+
+/** One stored entry, without its payload. */
+export interface SqliteCacheRow {
+	key: string
+	kind: CacheRecordKind
+	/** Null for entries migrated from before the v3 envelope. */
+	meta: CacheEntryMeta | null
+	/** Epoch ms of the last write; plays the role of a file's mtime. */
+	saved_at: number
+	bytes: number
+	item_count: number | null
+}
+
+interface RawRow {
+	key: string
+	kind: string
+	meta: string | null
+	saved_at: number
+	bytes: number
+	item_count: number | null
+}
+
+let openDb: { path: string; db: Database } | null = null
+
+/**
+ * Load `bun:sqlite`, shared with the history store.
+ * @throws Error when it is unavailable (e.g. running under Node).
+ */
+export function requireSqlite(): typeof import('bun:sqlite') {
+	try {
+		return createRequire(import.meta.url)('bun:sqlite')
+	} catch {
+		throw new Error('CACHE_BACKEND=sqlite requires the Bun runtime')
+	}
+}
+
+/**
+ * Open (or reuse) the cache database at `path`, creating its tables.
+ * @throws Error when `bun:sqlite` is unavailable (e.g. running under Node).
+ */
+export function openCacheDb(path: string): Database {
+	if (openDb?.path === path) return openDb.db
+	closeCacheDb()
+
+	const db = new (requireSqlite().Database)(path, { create: true })
+	db.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`)
+	db.exec('PRAGMA journal_mode = WAL')
+	const version =
+		db.query<{ user_version: number }, []>('PRAGMA user_version').get()
+			?.user_version ?? 0
+	// Locks are short-lived, so older lock tables are simply replaced
+	if (version < 3) db.exec('DROP TABLE IF EXISTS locks')
+	db.exec(`
+		CREATE TABLE IF NOT EXISTS entries (
+			key TEXT PRIMARY KEY,
+			kind TEXT NOT NULL,
+			meta TEXT,
+			data TEXT NOT NULL,
+			saved_at INTEGER NOT NULL,
+			used_at INTEGER NOT NULL,
+			item_count INTEGER
+		);
+		CREATE TABLE IF NOT EXISTS locks (
+			key TEXT PRIMARY KEY,
+			pid INTEGER NOT NULL,
+			host TEXT NOT NULL,
+			token TEXT NOT NULL,
+			acquired_at TEXT NOT NULL,
+			refreshed_at INTEGER NOT NULL
+		);
+	`)
+	const columns = db
+		.query<{ name: string }, []>('PRAGMA table_info(entries)')
+		.all()
+	if (!columns.some((c) => c.name === 'used_at')) {
+		db.exec('ALTER TABLE entries ADD COLUMN used_at INTEGER NOT NULL DEFAULT 0')
+		db.exec('UPDATE entries SET used_at = saved_at')
+	}
+	db.exec(`PRAGMA user_version = ${SQLITE_SCHEMA_VERSION}`)
+	openDb = { path, db }
+	return db
+}
+
+/** Close the open cache database, if any. */
+export function closeCacheDb(): void {
+	openDb?.db.close()
+	openDb = null
+}
+
+/** Payload and write time of one entry, or null if absent. */
+export function sqliteLoad(
+	db: Database,
+	key: string,
+): { data: Record<string, unknown>; saved_at: number } | null {
+	const row = db
+		.query<{ data: string; saved_at: number }, [string]>(
+			'SELECT data, saved_at FROM entries WHERE key = ?',
+		)
+		.get(key)
+	if (!row) return null
+	try {
+		return {
+			data: JSON.parse(row.data) as Record<string, unknown>,
+			saved_at: row.saved_at,
+		}
+	} catch {
+		return null
+	}
+}
+
+/** Insert or replace entries in one transaction. */
+export function sqliteSave(
+	db: Database,
+	rows: {
+		key: string
+		kind: CacheRecordKind
+		meta: CacheEntryMeta | null
+		data: Record<string, unknown>
+		saved_at: number
+	}[],
+): void {
+	const insert = db.query(
+		'INSERT OR REPLACE INTO entries (key, kind, meta, data, saved_at, used_at, item_count) VALUES (?, ?, ?, ?, ?, ?, ?)',
+	)
+	db.transaction(() => {
+		for (const row of rows) {
+			insert.run(
+				row.key,
+				row.kind,
+				row.meta ? JSON.stringify(row.meta) : null,
+				JSON.stringify(row.data),
+				row.saved_at,
+				row.saved_at,
+				Array.isArray(row.data.items) ? row.data.items.length : null,
+			)
+		}
+	}).immediate()
+}
+
+/** Mark an entry as just used, for LRU eviction. */
+export function sqliteTouch(db: Database, key: string, now: number): void {
+	db.run('UPDATE entries SET used_at = ? WHERE key = ?', [now, key])
+}
+
+/** Entry count and payload bytes for one kind. */
+export function sqliteKindUsage(
+	db: Database,
+	kind: CacheRecordKind,
+): { count: number; bytes: number } {
+	const row = db
+		.query<{ count: number; bytes: number | null }, [string]>(
+			'SELECT COUNT(*) AS count, SUM(length(data)) AS bytes FROM entries WHERE kind = ?',
+		)
+		.get(kind)
+	return { count: row?.count ?? 0, bytes: row?.bytes ?? 0 }
+}
+
+/** Entries of one kind, least recently used first. */
+export function sqliteLruEntries(
+	db: Database,
+	kind: CacheRecordKind,
+): { key: string; bytes: number; saved_at: number; used_at: number }[] {
+	return db
+		.query<
+			{ key: string; bytes: number; saved_at: number; used_at: number },
+			[string]
+		>(
+			'SELECT key, length(data) AS bytes, saved_at, used_at FROM entries WHERE kind = ? ORDER BY used_at ASC',
+		)
+		.all(kind)
+}
+
+/** Every entry, newest first, without payloads. */
+export function sqliteListEntries(db: Database): SqliteCacheRow[] {
+	return db
+		.query<RawRow, []>(
+			'SELECT key, kind, meta, saved_at, length(data) AS bytes, item_count FROM entries ORDER BY saved_at DESC',
+		)
+		.all()
+		.map((row) => ({
+			key: row.key,
+			kind: row.kind as CacheRecordKind,
+			meta: row.meta ? (JSON.parse(row.meta) as CacheEntryMeta) : null,
+			saved_at: row.saved_at,
+			bytes: row.bytes,
+			item_count: row.item_count,
+		}))
+}
+
+/**
+ * Delete entries by key, or every entry and lock when `keys` is omitted.
+ * @returns How many entries were deleted.
+ */
+export function sqliteDeleteEntries(db: Database, keys?: string[]): number {
+	return db
+		.transaction(() => {
+			if (!keys) {
+				db.run('DELETE FROM locks')
+				return db.run('DELETE FROM entries').changes
+			}
+			const remove = db.query('DELETE FROM entries WHERE key = ?')
+			let removed = 0
+			for (const key of keys) removed += remove.run(key).changes
+			return removed
+		})
+		.immediate()
+}
+
+/**
+ * Take the lock for `key` if it is free, or if `isAbandoned` says its
+ * holder can be replaced.
+ * @returns Whether this call took the lock.
+ */
+export function sqliteTryLock(
+	db: Database,
+	key: string,
+	owner: CacheLockOwner,
+	now: number,
+	isAbandoned: (holder: CacheLockOwner, refreshedAt: number) => boolean,
+): boolean {
+	return db
+		.transaction(() => {
+			const holder = db
+				.query<CacheLockOwner & { refreshed_at: number }, [string]>(
+					'SELECT pid, host, token, acquired_at, refreshed_at FROM locks WHERE key = ?',
+				)
+				.get(key)
+			if (holder) {
+				if (!isAbandoned(holder, holder.refreshed_at)) return false
+				db.run('DELETE FROM locks WHERE key = ?', [key])
+			}
+			db.run(
+				'INSERT INTO locks (key, pid, host, token, acquired_at, refreshed_at) VALUES (?, ?, ?, ?, ?, ?)',
+				[key, owner.pid, owner.host, owner.token, owner.acquired_at, now],
+			)
+			return true
+		})
+		.immediate()
+}
+
+/**
+ * Mark a held lock as still in use.
+ * @returns False when the lock no longer belongs to `token`.
+ */
+export function sqliteRefreshLock(
+	db: Database,
+	key: string,
+	token: string,
+	now: number,
+): boolean {
+	return (
+		db.run('UPDATE locks SET refreshed_at = ? WHERE key = ? AND token = ?', [
+			now,
+			key,
+			token,
+		]).changes === 1
+	)
+}
+
+/** Release the lock for `key` if it still belongs to `token`. */
+export function sqliteReleaseLock(
+	db: Database,
+	key: string,
+	token: string,
+): void {
+	db.run('DELETE FROM locks WHERE key = ? AND token = ?', [key, token])
+}
@@ -1,7 +1,9 @@
 /** Caching utilities for last-30-days skill. */
 
-import { createHash } from 'node:crypto'
+import type { Database } from 'bun:sqlite'
+import { createHash, randomUUID } from 'node:crypto'
 import {
+	appendFileSync,
 	closeSync,
 	existsSync,
 	mkdirSync,
@@ -12,13 +14,36 @@ import {
 	rmSync,
 	statSync,
 	unlinkSync,
+	utimesSync,
 	writeFileSync,
+	writeSync,
 } from 'node:fs'
-import { homedir } from 'node:os'
+import { homedir, hostname } from 'node:os'
 import { join } from 'node:path'
+import {
+	closeCacheDb,
+	openCacheDb,
+	sqliteDeleteEntries,
+	sqliteKindUsage,
+	sqliteListEntries,
+	sqliteLoad,
+	sqliteLruEntries,
+	sqliteRefreshLock,
+	sqliteReleaseLock,
+	sqliteSave,
+	sqliteTouch,
+	sqliteTryLock,
+} from './cache-sqlite.js'
+
+const DEFAULT_CACHE_DIR = join(homedir(), '.cache', 'last-30-days')
 
-const CACHE_DIR = join(homedir(), '.cache', 'last-30-days')
-const LOCK_DIR = join(CACHE_DIR, 'locks')
+let cacheDir = DEFAULT_CACHE_DIR
+let lockDir = join(cacheDir, 'locks')
+let indexFile = join(cacheDir, 'index.json')
+let indexLogFile = join(cacheDir, 'index.log')
+let sqliteFile = join(cacheDir, 'cache.sqlite')
+let modelCacheFile = join(cacheDir, 'model_selection.json')
+let circuitFile = join(cacheDir, 'circuit_breakers.json')
 
 const DEFAULT_TTL_HOURS = 24
 const MODEL_CACHE_TTL_DAYS = 7
@@ -29,19 +54,86 @@ const ENRICH_TTL_HOURS = 24
 const LOCK_WAIT_MS = 5_000
 const LOCK_POLL_MS = 100
 const LOCK_STALE_MS = 300_000
+/** Held locks are refreshed this often, well inside the stale window. */
+const LOCK_HEARTBEAT_MS = 30_000
+
+/**
+ * Bump when cache record format semantics change. v3 wraps every entry in a
+ * `{ meta, data }` envelope.
+ */
+export const SEARCH_CACHE_SCHEMA_VERSION = 'v3'
+
+/** Temp files from interrupted atomic writes older than this are junk. */
+const TEMP_STALE_HOURS = 1
+
+/** Bump when the index file layout changes; older indexes are rebuilt. */
+const CACHE_INDEX_VERSION = 1
+
+/** Past this size the index log is folded into `index.json`. */
+const INDEX_LOG_COMPACT_BYTES = 256 * 1024
+
+/** Kind of entry written by `saveCache`. */
+export type CacheRecordKind = 'search' | 'enrichment' | 'other'
+
+/** Self-description stored with every cache entry and in the index. */
+export interface CacheEntryMeta {
+	kind: CacheRecordKind
+	/** Normalized topic (search entries). */
+	topic: string | null
+	/** Source id, e.g. "reddit" or "hn". */
+	source: string | null
+	depth: string | null
+	model: string | null
+	prompt_version: string | null
+	schema_version: string
+	from_date: string | null
+	to_date: string | null
+	days: number | null
+	/** Item URL (enrichment entries). */
+	url: string | null
+	created_at: string
+	/** When the entry stops being served, even as a stale fallback. */
+	expires_at: string
+}
+
+/** Fields of the envelope fixed by how the key was built. */
+type KeyMeta = Partial<
+	Omit<CacheEntryMeta, 'schema_version' | 'created_at' | 'expires_at'>
+>
 
-/** Bump when cache record format semantics change. */
-export const SEARCH_CACHE_SCHEMA_VERSION = 'v2'
+/**
+ * Metadata behind keys built this process and not yet saved, written into
+ * the envelope. Keys that are only ever read (cache hits) would otherwise
+ * pile up, so the oldest are dropped past KEY_META_LIMIT.
+ */
+const keyMeta = new Map<string, KeyMeta>()
+const KEY_META_LIMIT = 1_000
+
+function rememberKeyMeta(key: string, meta: KeyMeta): void {
+	keyMeta.delete(key)
+	keyMeta.set(key, meta)
+	if (keyMeta.size > KEY_META_LIMIT) {
+		const oldest = keyMeta.keys().next().value
+		if (oldest !== undefined) keyMeta.delete(oldest)
+	}
+}
+
+/** Where search and enrichment entries and their locks are stored. */
+export type CacheBackend = 'file' | 'sqlite'
+
+export const CACHE_BACKENDS: readonly CacheBackend[] = ['file', 'sqlite']
+
+let backend: CacheBackend = 'file'
 
 /** Ensure cache directory exists. */
 function ensureCacheDir(): void {
-	mkdirSync(CACHE_DIR, { recursive: true })
+	mkdirSync(cacheDir, { recursive: true })
 }
 
 /** Ensure lock directory exists. */
 function ensureLockDir(): void {
 	ensureCacheDir()
-	mkdirSync(LOCK_DIR, { recursive: true })
+	mkdirSync(lockDir, { recursive: true })
 }
 
 function parseHoursEnv(name: string, fallback: number): number {
@@ -94,7 +186,7 @@ export function getSourceCacheKey(
 	fromDate: string,
 	toDate: string,
 	days: number,
-	source: 'reddit' | 'x',
+	source: string,
 	depth: string,
 	model: string | null,
 	promptVersion: string,
@@ -110,21 +202,67 @@ export function getSourceCacheKey(
 		`model=${model ?? 'unknown'}`,
 		`prompt=${promptVersion}`,
 	].join('|')
-	return hashText(keyData)
+	const key = hashText(keyData)
+	rememberKeyMeta(key, {
+		kind: 'search',
+		topic: normalizeTopic(topic),
+		source,
+		depth,
+		model,
+		prompt_version: promptVersion,
+		from_date: fromDate,
+		to_date: toDate,
+		days,
+	})
+	return key
+}
+
+/**
+ * Generate a stable enrichment cache key for a source URL.
+ * @param source Recorded in the entry's metadata; not part of the key.
+ */
+export function getEnrichmentCacheKey(url: string, source?: string): string {
+	const key = hashText(`enrich|url=${url.trim()}`)
+	rememberKeyMeta(key, {
+		kind: 'enrichment',
+		source: source ?? null,
+		url: url.trim(),
+	})
+	return key
 }
 
-/** Generate a stable enrichment cache key for a source URL. */
-export function getEnrichmentCacheKey(url: string): string {
-	return hashText(`enrich|url=${url.trim()}`)
+/**
+ * Select where search and enrichment entries and their locks live. Model
+ * selection and circuit breaker state stay in JSON files either way.
+ * @throws Error for an unknown backend, or when SQLite can't be opened.
+ */
+export function setCacheBackend(name: string): void {
+	if (!CACHE_BACKENDS.includes(name as CacheBackend)) {
+		throw new Error(
+			`Invalid CACHE_BACKEND "${name}". Valid: ${CACHE_BACKENDS.join(', ')}`,
+		)
+	}
+	if (name === 'sqlite') getCacheDb()
+	backend = name as CacheBackend
+}
+
+/** The active cache backend. */
+export function getCacheBackend(): CacheBackend {
+	return backend
+}
+
+function getCacheDb(): Database {
+	ensureCacheDir()
+	return openCacheDb(sqliteFile)
 }
 
 /** Get path to cache file. */
 function getCachePath(cacheKey: string): string {
-	return join(CACHE_DIR, `${cacheKey}.json`)
+	return join(cacheDir, `${cacheKey}.json`)
 }
 
 function getLockPath(cacheKey: string): string {
-	return join(LOCK_DIR, `${cacheKey}.lock`)
+	return join(lockDir, `${cacheKey}.lock`)
 }
 
 /** Check if cache file exists and is within TTL. */
@@ -150,15 +288,36 @@ function readCache(cachePath: string): Record<string, unknown> | null {
 	}
 }
 
+function isEnvelope(
+	raw: Record<string, unknown> | null,
+): raw is { meta: CacheEntryMeta; data: Record<string, unknown> } {
+	return (
+		!!raw &&
+		typeof raw.meta === 'object' &&
+		raw.meta !== null &&
+		typeof raw.data === 'object' &&
+		raw.data !== null
+	)
+}
+
+/** Entry payload, unwrapping the envelope (entries before v3 have none). */
+function readCacheData(cachePath: string): Record<string, unknown> | null {
+	const raw = readCache(cachePath)
+	return isEnvelope(raw) ? raw.data : raw
+}
+
 /** Load data from cache if valid. */
 export function loadCache(
 	cacheKey: string,
 	ttlHours: number = DEFAULT_TTL_HOURS,
 ): Record<string, unknown> | null {
+	if (backend === 'sqlite') return loadCacheWithAge(cacheKey, ttlHours)[0]
 	const cachePath = getCachePath(cacheKey)
 	if (!isCacheValid(cachePath, ttlHours)) return null
 
-	return readCache(cachePath)
+	const data = readCacheData(cachePath)
+	if (data) touchCacheFile(cachePath)
+	return data
 }
 
 /** Get age of cache file in hours. */
@@ -177,12 +336,40 @@ export function loadCacheWithAge(
 	cacheKey: string,
 	ttlHours: number = DEFAULT_TTL_HOURS,
 ): [Record<string, unknown> | null, number | null] {
+	if (backend === 'sqlite') {
+		try {
+			const row = sqliteLoad(getCacheDb(), cacheKey)
+			if (!row) return [null, null]
+			const now = Date.now()
+			const age = (now - row.saved_at) / (1000 * 60 * 60)
+			if (age >= ttlHours) return [null, null]
+			sqliteTouch(getCacheDb(), cacheKey, now)
+			return [row.data, age]
+		} catch {
+			return [null, null]
+		}
+	}
+
 	const cachePath = getCachePath(cacheKey)
 	if (!isCacheValid(cachePath, ttlHours)) return [null, null]
 
 	const age = getCacheAgeHours(cachePath)
-	const data = readCache(cachePath)
-	return data ? [data, age] : [null, null]
+	const data = readCacheData(cachePath)
+	if (!data) return [null, null]
+	touchCacheFile(cachePath)
+	return [data, age]
+}
+
+/**
+ * Record a cache hit in the file's atime for LRU eviction. mtime is left
+ * alone because it is the entry's age.
+ */
+function touchCacheFile(cachePath: string): void {
+	try {
+		utimesSync(cachePath, new Date(), statSync(cachePath).mtime)
+	} catch {
+		// ignore; the entry just looks less recently used
+	}
 }
 
 /**
@@ -195,71 +382,357 @@ export function loadStaleCacheWithAge(
 	return loadCacheWithAge(cacheKey, getStaleSearchTTL())
 }
 
-/** Save data to cache. */
+function classifyRecord(data: Record<string, unknown>): CacheRecordKind {
+	if (Array.isArray(data.items)) return 'search'
+	if (data.item && typeof data.item === 'object') return 'enrichment'
+	return 'other'
+}
+
+function buildEntryMeta(
+	cacheKey: string,
+	data: Record<string, unknown>,
+	now: number,
+): CacheEntryMeta {
+	const known = keyMeta.get(cacheKey) ?? {}
+	const kind = known.kind ?? classifyRecord(data)
+	const ttlHours = ttlHoursFor(kind) ?? DEFAULT_TTL_HOURS
+	return {
+		kind,
+		topic: known.topic ?? null,
+		source: known.source ?? null,
+		depth: known.depth ?? null,
+		model: known.model ?? null,
+		prompt_version: known.prompt_version ?? null,
+		schema_version: SEARCH_CACHE_SCHEMA_VERSION,
+		from_date: known.from_date ?? null,
+		to_date: known.to_date ?? null,
+		days: known.days ?? null,
+		url: known.url ?? null,
+		created_at: new Date(now).toISOString(),
+		expires_at: new Date(now + ttlHours * 60 * 60 * 1000).toISOString(),
+	}
+}
+
+/**
+ * Save data to cache, wrapped in a `{ meta, data }` envelope and recorded in
+ * the index. Metadata comes from the `getSourceCacheKey` or
+ * `getEnrichmentCacheKey` call that built the key in this process; other
+ * keys get a kind guessed from the data and null for the rest.
+ */
 export function saveCache(
 	cacheKey: string,
 	data: Record<string, unknown>,
 ): void {
+	const now = Date.now()
+	const meta = buildEntryMeta(cacheKey, data, now)
+	keyMeta.delete(cacheKey)
+	if (backend === 'sqlite') {
+		try {
+			sqliteSave(getCacheDb(), [
+				{ key: cacheKey, kind: meta.kind, meta, data, saved_at: now },
+			])
+			if (meta.kind !== 'other') enforceCacheLimit(meta.kind, cacheKey, now)
+		} catch {
+			// Silently fail on cache write errors
+		}
+		return
+	}
+
 	ensureCacheDir()
 	const cachePath = getCachePath(cacheKey)
-	const tmpPath = `${cachePath}.tmp.${process.pid}.${Date.now()}.${Math.random().toString(36).slice(2)}`
+	const contents = JSON.stringify({ meta, data })
+	const previousBytes = fileSize(cachePath)
+	if (writeAtomic(cachePath, contents)) {
+		appendIndexLog([{ key: cacheKey, meta }])
+		if (meta.kind !== 'other') {
+			const tally = fileUsage.get(meta.kind)
+			if (tally) {
+				tally.bytes += Buffer.byteLength(contents) - (previousBytes ?? 0)
+				if (previousBytes == null) tally.count++
+			}
+			try {
+				enforceCacheLimit(meta.kind, cacheKey, now)
+			} catch {
+				// eviction is retried on the next write
+			}
+		}
+	}
+}
+
+function fileSize(path: string): number | null {
+	try {
+		return statSync(path).size
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Write via a temp file and rename, so readers never see a partial file.
+ * Write errors are swallowed.
+ * @returns Whether the file was written.
+ */
+function writeAtomic(path: string, contents: string): boolean {
+	const tmpPath = `${path}.tmp.${process.pid}.${Date.now()}.${Math.random().toString(36).slice(2)}`
 	try {
-		writeFileSync(tmpPath, JSON.stringify(data))
-		renameSync(tmpPath, cachePath)
+		writeFileSync(tmpPath, contents)
+		renameSync(tmpPath, path)
+		return true
 	} catch {
-		// Silently fail on cache write errors
 		try {
 			rmSync(tmpPath, { force: true })
 		} catch {
 			// ignore temp cleanup errors
 		}
+		return false
+	}
+}
+
+// Cache locks
+
+/** Who holds a cache lock; the contents of a lock file or lock row. */
+export interface CacheLockOwner {
+	pid: number
+	host: string
+	/** Random per acquisition, so a holder never releases a successor's lock. */
+	token: string
+	acquired_at: string
+}
+
+/** Locks held by this process, with the timer that keeps each one fresh. */
+const heldLocks = new Map<
+	string,
+	{ token: string; heartbeat: ReturnType<typeof setInterval> }
+>()
+
+function errorCode(err: unknown): string {
+	return typeof err === 'object' &&
+		err &&
+		'code' in err &&
+		typeof (err as { code?: unknown }).code === 'string'
+		? (err as { code: string }).code
+		: ''
+}
+
+/** Whether a process with this pid exists on this machine. */
+function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0)
+		return true
+	} catch (err) {
+		// EPERM: it exists but belongs to another user
+		return errorCode(err) === 'EPERM'
 	}
 }
 
-/** Attempt to acquire a per-key cache lock with timeout. */
+/**
+ * Whether a held lock can be taken over: its holder is a dead process on
+ * this host, or it hasn't been refreshed within the stale window (a holder
+ * on another host, or a lock file from before owners were recorded).
+ */
+function isLockAbandoned(
+	owner: CacheLockOwner | null,
+	refreshedAt: number,
+	now: number,
+): boolean {
+	if (owner?.host === hostname() && !isProcessAlive(owner.pid)) return true
+	return now - refreshedAt > LOCK_STALE_MS
+}
+
+function readLockOwner(path: string): CacheLockOwner | null {
+	const raw = readCache(path)
+	return raw && typeof raw.token === 'string'
+		? (raw as unknown as CacheLockOwner)
+		: null
+}
+
+/**
+ * Move an abandoned lock file aside, and delete it only if it is provably
+ * the lock judged abandoned: its token matches `owner`'s, or, for a lock
+ * with no recorded owner, it still has no owner and is still stale by
+ * mtime. The owner is re-read right before the rename, so a lock re-created
+ * since it was judged is left in place. Anything moved by mistake (a fresh
+ * lock, possibly one whose owner is still being written) is put back.
+ * @returns False when the lock file can't be moved at all.
+ */
+function breakFileLock(
+	lockPath: string,
+	owner: CacheLockOwner | null,
+): boolean {
+	if (readLockOwner(lockPath)?.token !== owner?.token) return true
+	const aside = `${lockPath}.stale.${randomUUID()}`
+	try {
+		renameSync(lockPath, aside)
+	} catch (err) {
+		return errorCode(err) === 'ENOENT'
+	}
+	const moved = readLockOwner(aside)
+	let abandoned: boolean
+	if (owner) {
+		abandoned = moved?.token === owner.token
+	} else {
+		try {
+			abandoned =
+				!moved && isLockAbandoned(null, statSync(aside).mtimeMs, Date.now())
+		} catch {
+			abandoned = false
+		}
+	}
+	try {
+		if (!abandoned) restoreFileLock(lockPath, aside)
+	} finally {
+		rmSync(aside, { force: true })
+	}
+	return true
+}
+
+/**
+ * Put a lock moved aside by mistake back, with an exclusive create so a
+ * lock another process took in the meantime is never replaced.
+ */
+function restoreFileLock(lockPath: string, aside: string): void {
+	let fd: number
+	try {
+		fd = openSync(lockPath, 'wx')
+	} catch {
+		return // a third process already holds the key; theirs stands
+	}
+	try {
+		writeSync(fd, readFileSync(aside))
+	} finally {
+		closeSync(fd)
+	}
+	// Keep the holder's last refresh, so staleness is still judged by it
+	const { atime, mtime } = statSync(aside)
+	utimesSync(lockPath, atime, mtime)
+}
+
+/**
+ * Refresh a held lock so waiters don't judge it abandoned during a long
+ * search. Stops once the lock turns out to belong to someone else.
+ */
+function refreshCacheLock(cacheKey: string, token: string): void {
+	let stillOurs = false
+	try {
+		if (backend === 'sqlite') {
+			stillOurs = sqliteRefreshLock(getCacheDb(), cacheKey, token, Date.now())
+		} else {
+			const lockPath = getLockPath(cacheKey)
+			stillOurs = readLockOwner(lockPath)?.token === token
+			if (stillOurs) utimesSync(lockPath, new Date(), new Date())
+		}
+	} catch {
+		// busy or racing; try again on the next beat
+		return
+	}
+	if (!stillOurs) stopHeartbeat(cacheKey, token)
+}
+
+function stopHeartbeat(cacheKey: string, token: string): void {
+	const held = heldLocks.get(cacheKey)
+	if (held?.token !== token) return
+	clearInterval(held.heartbeat)
+	heldLocks.delete(cacheKey)
+}
+
+function holdCacheLock(cacheKey: string, token: string): void {
+	const heartbeat = setInterval(
+		() => refreshCacheLock(cacheKey, token),
+		LOCK_HEARTBEAT_MS,
+	)
+	// A held lock must not keep the process alive on its own
+	heartbeat.unref?.()
+	heldLocks.set(cacheKey, { token, heartbeat })
+}
+
+/** Try once to create the lock file, breaking it if abandoned. */
+function tryFileLock(lockPath: string, owner: CacheLockOwner): boolean {
+	for (;;) {
+		let fd: number
+		try {
+			fd = openSync(lockPath, 'wx')
+		} catch (err) {
+			if (errorCode(err) !== 'EEXIST') throw err
+			let refreshedAt: number
+			try {
+				refreshedAt = statSync(lockPath).mtimeMs
+			} catch {
+				continue // released between open and stat
+			}
+			const holder = readLockOwner(lockPath)
+			if (!isLockAbandoned(holder, refreshedAt, Date.now())) return false
+			if (!breakFileLock(lockPath, holder)) return false
+			continue
+		}
+		try {
+			writeSync(fd, JSON.stringify(owner))
+		} finally {
+			closeSync(fd)
+		}
+		return true
+	}
+}
+
+/**
+ * Attempt to acquire a per-key cache lock, waiting up to `waitMs`. The lock
+ * records this process's pid, host and a fresh token, and is refreshed in
+ * the background until released. A lock whose holder died on this host is
+ * taken over at once; any other lock only after `LOCK_STALE_MS` without a
+ * refresh.
+ */
 export async function acquireCacheLock(
 	cacheKey: string,
 	waitMs: number = LOCK_WAIT_MS,
 ): Promise<boolean> {
-	ensureLockDir()
-	const lockPath = getLockPath(cacheKey)
 	const deadline = Date.now() + Math.max(0, waitMs)
+	const owner: CacheLockOwner = {
+		pid: process.pid,
+		host: hostname(),
+		token: randomUUID(),
+		acquired_at: new Date().toISOString(),
+	}
+	if (backend === 'file') ensureLockDir()
 
 	for (;;) {
+		let acquired: boolean
 		try {
-			const fd = openSync(lockPath, 'wx')
-			closeSync(fd)
+			acquired =
+				backend === 'sqlite'
+					? sqliteTryLock(getCacheDb(), cacheKey, owner, Date.now(), (h, at) =>
+							isLockAbandoned(h, at, Date.now()),
+						)
+					: tryFileLock(getLockPath(cacheKey), owner)
+		} catch {
+			if (backend === 'file') return false
+			acquired = false // database busy past its timeout; retry
+		}
+		if (acquired) {
+			holdCacheLock(cacheKey, owner.token)
 			return true
-		} catch (err) {
-			const code =
-				typeof err === 'object' &&
-				err &&
-				'code' in err &&
-				typeof (err as { code?: unknown }).code === 'string'
-					? ((err as { code: string }).code as string)
-					: ''
-
-			if (code !== 'EEXIST') return false
-
-			try {
-				const ageMs = Date.now() - statSync(lockPath).mtimeMs
-				if (ageMs > LOCK_STALE_MS) {
-					unlinkSync(lockPath)
-					continue
-				}
-			} catch {
-				// if stat/unlink races, continue and retry
-			}
-
-			if (Date.now() >= deadline) return false
-			await sleep(LOCK_POLL_MS)
 		}
+		if (Date.now() >= deadline) return false
+		await sleep(LOCK_POLL_MS)
 	}
 }
 
-/** Release a cache lock. No ownership verification is performed. */
+/**
+ * Release a cache lock held by this process. A lock that has since been
+ * taken over by someone else is left alone.
+ */
 export function releaseCacheLock(cacheKey: string): void {
+	const held = heldLocks.get(cacheKey)
+	if (!held) return
+	stopHeartbeat(cacheKey, held.token)
+	if (backend === 'sqlite') {
+		try {
+			sqliteReleaseLock(getCacheDb(), cacheKey, held.token)
+		} catch {
+			// ignore release races
+		}
+		return
+	}
 	const lockPath = getLockPath(cacheKey)
+	if (readLockOwner(lockPath)?.token !== held.token) return
 	try {
 		unlinkSync(lockPath)
 	} catch {
@@ -267,32 +740,714 @@ export function releaseCacheLock(cacheKey: string): void {
 	}
 }
 
-/** Clear all cache files. */
-export function clearCache(): void {
-	if (!existsSync(CACHE_DIR)) return
+/**
+ * Clear all cache files, lock files and leftover temp files.
+ * @returns How many files were removed.
+ */
+export function clearCache(): number {
+	return removeEntries(listCacheEntries()).length
+}
+
+/**
+ * Delete entries from wherever they are stored, dropping them from the index.
+ * @returns The entries actually removed.
+ */
+function removeEntries(entries: CacheEntryInfo[]): CacheEntryInfo[] {
+	fileUsage.clear()
+	const removed: CacheEntryInfo[] = []
+	const rows = entries.filter((e) => e.backend === 'sqlite')
+	if (rows.length > 0) {
+		try {
+			sqliteDeleteEntries(
+				getCacheDb(),
+				rows.map((e) => e.key),
+			)
+			removed.push(...rows)
+		} catch {
+			// ignore busy database; the rows stay for next time
+		}
+	}
+	for (const entry of entries) {
+		if (entry.backend === 'sqlite') continue
+		try {
+			unlinkSync(entry.path)
+			removed.push(entry)
+		} catch {
+			// ignore races with other processes
+		}
+	}
+	if (existsSync(indexFile)) {
+		appendIndexLog(
+			removed
+				.filter((e) => e.backend === 'file' && e.meta)
+				.map((e) => ({ key: e.key, meta: null })),
+		)
+	}
+	return removed
+}
+
+// Size limits
+
+/** Entry kinds with their own size budget. */
+export type CacheLimitKind = Exclude<CacheRecordKind, 'other'>
+
+/** Caps for one kind of entry. 0 means no cap. */
+export interface CacheLimit {
+	max_bytes: number
+	max_entries: number
+}
+
+/**
+ * Search and enrichment entries are budgeted separately, so a burst of
+ * enrichment writes can't evict recent searches.
+ */
+export const DEFAULT_CACHE_LIMITS: Readonly<
+	Record<CacheLimitKind, Readonly<CacheLimit>>
+> = {
+	search: { max_bytes: 200 * 1024 * 1024, max_entries: 5_000 },
+	enrichment: { max_bytes: 100 * 1024 * 1024, max_entries: 20_000 },
+}
+
+const SIZE_UNITS: Record<string, number> = {
+	b: 1,
+	kb: 1024,
+	mb: 1024 * 1024,
+	gb: 1024 * 1024 * 1024,
+}
+
+let cacheLimits: Record<CacheLimitKind, CacheLimit> = {
+	search: { ...DEFAULT_CACHE_LIMITS.search },
+	enrichment: { ...DEFAULT_CACHE_LIMITS.enrichment },
+}
+
+/**
+ * Per-kind totals for the file backend, counted once per process on the
+ * first write and then kept up to date by this process's own writes.
+ * Other processes' writes are picked up at the next eviction scan.
+ */
+const fileUsage = new Map<CacheLimitKind, CacheKindStats>()
+
+/**
+ * Parse a cache limit spec like "search_bytes=50MB,enrichment_entries=5000".
+ * Sizes take an optional B/KB/MB/GB suffix. 0 removes that cap.
+ */
+export function parseCacheLimits(
+	spec: string,
+): Partial<Record<CacheLimitKind, Partial<CacheLimit>>> {
+	const limits: Partial<Record<CacheLimitKind, Partial<CacheLimit>>> = {}
+	for (const part of spec.split(',')) {
+		if (!part.trim()) continue
+		const [rawName = '', rawValue = ''] = part.split('=', 2)
+		const name = /^(search|enrichment)_(bytes|entries)$/.exec(
+			rawName.trim().toLowerCase(),
+		)
+		const value = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/.exec(
+			rawValue.trim().toLowerCase(),
+		)
+		if (!name || !value || (name[2] === 'entries' && value[2])) {
+			throw new Error(
+				`Invalid cache limit: "${part.trim()}" (expected e.g. search_bytes=50MB or enrichment_entries=5000)`,
+			)
+		}
+		const kind = name[1] as CacheLimitKind
+		const n = Number(value[1]) * SIZE_UNITS[value[2] ?? 'b']!
+		limits[kind] = {
+			...limits[kind],
+			[name[2] === 'bytes' ? 'max_bytes' : 'max_entries']: Math.floor(n),
+		}
+	}
+	return limits
+}
+
+/**
+ * Replace the size caps (merged over the defaults). Pass `{}` to restore
+ * the defaults.
+ */
+export function setCacheLimits(
+	limits: Partial<Record<CacheLimitKind, Partial<CacheLimit>>>,
+): void {
+	cacheLimits = {
+		search: { ...DEFAULT_CACHE_LIMITS.search, ...limits.search },
+		enrichment: { ...DEFAULT_CACHE_LIMITS.enrichment, ...limits.enrichment },
+	}
+}
+
+/** Current size caps per kind. */
+export function getCacheLimits(): Record<CacheLimitKind, CacheLimit> {
+	return {
+		search: { ...cacheLimits.search },
+		enrichment: { ...cacheLimits.enrichment },
+	}
+}
+
+function withinLimit(usage: CacheKindStats, limit: CacheLimit): boolean {
+	return (
+		(!limit.max_bytes || usage.bytes <= limit.max_bytes) &&
+		(!limit.max_entries || usage.count <= limit.max_entries)
+	)
+}
+
+/** Entries of one kind with their size and last use, for eviction. */
+function lruCandidates(
+	kind: CacheLimitKind,
+	now: number,
+): { key: string; bytes: number; used_at: number; expired: boolean }[] {
+	const ttlMs = (ttlHoursFor(kind) ?? DEFAULT_TTL_HOURS) * 60 * 60 * 1000
+	if (backend === 'sqlite') {
+		return sqliteLruEntries(getCacheDb(), kind).map((row) => ({
+			key: row.key,
+			bytes: row.bytes,
+			used_at: row.used_at,
+			expired: now - row.saved_at >= ttlMs,
+		}))
+	}
+	const candidates = []
+	for (const [key, meta] of Object.entries(loadCacheIndex())) {
+		if (meta.kind !== kind) continue
+		try {
+			const stat = statSync(getCachePath(key))
+			candidates.push({
+				key,
+				bytes: stat.size,
+				used_at: stat.atimeMs,
+				expired: now - stat.mtimeMs >= ttlMs,
+			})
+		} catch {
+			// removed by another process
+		}
+	}
+	return candidates
+}
+
+/**
+ * Evict entries of `kind` until it fits its caps: expired entries first,
+ * then least recently used. The entry just written (`keep`) is never evicted.
+ */
+function enforceCacheLimit(
+	kind: CacheLimitKind,
+	keep: string,
+	now: number,
+): void {
+	const limit = cacheLimits[kind]
+	if (!limit.max_bytes && !limit.max_entries) return
+	const known =
+		backend === 'sqlite'
+			? sqliteKindUsage(getCacheDb(), kind)
+			: fileUsage.get(kind)
+	if (known && withinLimit(known, limit)) return
+
+	const candidates = lruCandidates(kind, now).sort(
+		(a, b) => Number(b.expired) - Number(a.expired) || a.used_at - b.used_at,
+	)
+	const usage = {
+		count: candidates.length,
+		bytes: candidates.reduce((n, c) => n + c.bytes, 0),
+	}
+	const evicted: string[] = []
+	for (const candidate of candidates) {
+		if (withinLimit(usage, limit)) break
+		if (candidate.key === keep) continue
+		evicted.push(candidate.key)
+		usage.count--
+		usage.bytes -= candidate.bytes
+	}
+
+	if (backend === 'sqlite') {
+		if (evicted.length > 0) sqliteDeleteEntries(getCacheDb(), evicted)
+		return
+	}
+	for (const key of evicted) rmSync(getCachePath(key), { force: true })
+	appendIndexLog(evicted.map((key) => ({ key, meta: null })))
+	fileUsage.set(kind, usage)
+}
+
+// Cache index
+
+/** Index of entry metadata by key, kept beside the entries. */
+interface CacheIndexFile {
+	version: number
+	entries: Record<string, CacheEntryMeta>
+}
+
+/** Which entries a query or invalidation applies to. Unset fields match all. */
+export interface CacheFilter {
+	kind?: CacheRecordKind
+	/** Matched after the same normalization as cache keys. */
+	topic?: string
+	source?: string
+	depth?: string
+	model?: string
+	prompt_version?: string
+}
+
+function readIndexFile(): CacheIndexFile | null {
+	const raw = readCache(indexFile) as CacheIndexFile | null
+	if (raw?.version !== CACHE_INDEX_VERSION || typeof raw.entries !== 'object')
+		return null
+	return raw
+}
+
+function writeIndexFile(entries: Record<string, CacheEntryMeta>): void {
+	const index: CacheIndexFile = { version: CACHE_INDEX_VERSION, entries }
+	writeAtomic(indexFile, JSON.stringify(index))
+}
+
+/** One line of `index.log`: an entry's new metadata, or null once deleted. */
+interface IndexLogRecord {
+	key: string
+	meta: CacheEntryMeta | null
+}
+
+/**
+ * Record index changes by appending to `index.log`, so a write costs one
+ * line rather than a rewrite of the whole index. Best effort: a lost or
+ * torn line only makes the index stale, which `rebuildCacheIndex` repairs.
+ */
+function appendIndexLog(records: IndexLogRecord[]): void {
+	if (records.length === 0) return
 	try {
-		for (const f of readdirSync(CACHE_DIR)) {
-			if (f.endsWith('.json')) {
-				try {
-					unlinkSync(join(CACHE_DIR, f))
-				} catch {
-					// ignore
-				}
-			}
+		ensureCacheDir()
+		appendFileSync(
+			indexLogFile,
+			records.map((r) => `${JSON.stringify(r)}\n`).join(''),
+		)
+		if ((fileSize(indexLogFile) ?? 0) > INDEX_LOG_COMPACT_BYTES) {
+			compactCacheIndex()
+		}
+	} catch {
+		// the index is rebuilt from the entries when it falls behind
+	}
+}
+
+function replayIndexLog(
+	entries: Record<string, CacheEntryMeta>,
+	path: string,
+): void {
+	let text: string
+	try {
+		text = readFileSync(path, 'utf-8')
+	} catch {
+		return
+	}
+	for (const line of text.split('\n')) {
+		if (!line) continue
+		try {
+			const record = JSON.parse(line) as IndexLogRecord
+			if (record.meta) entries[record.key] = record.meta
+			else delete entries[record.key]
+		} catch {
+			// torn line from an interrupted append
+		}
+	}
+}
+
+/**
+ * Fold `index.log` into `index.json`. The log is renamed away first, so
+ * appends racing the fold start a fresh log instead of being lost.
+ */
+function compactCacheIndex(): void {
+	const pending = `${indexLogFile}.tmp.${process.pid}.${randomUUID()}`
+	try {
+		renameSync(indexLogFile, pending)
+	} catch {
+		return
+	}
+	const snapshot = readIndexFile()
+	// Without a snapshot the entries on disk are the only truth
+	const entries = snapshot?.entries ?? scanEntryMeta()
+	if (snapshot) replayIndexLog(entries, pending)
+	writeIndexFile(entries)
+	rmSync(pending, { force: true })
+}
+
+/** Metadata of every enveloped entry on disk, by key. */
+function scanEntryMeta(): Record<string, CacheEntryMeta> {
+	const entries: Record<string, CacheEntryMeta> = {}
+	if (!existsSync(cacheDir)) return entries
+	for (const file of readdirSync(cacheDir)) {
+		if (!file.endsWith('.json') || file.includes('.tmp.')) continue
+		const raw = readCache(join(cacheDir, file))
+		if (isEnvelope(raw)) entries[file.slice(0, -'.json'.length)] = raw.meta
+	}
+	return entries
+}
+
+/**
+ * Rewrite the index from the entries on disk. The SQLite backend's table is
+ * its own index, so there this only counts entries.
+ * @returns How many entries were indexed.
+ */
+export function rebuildCacheIndex(): number {
+	if (backend === 'sqlite') return Object.keys(loadCacheIndex()).length
+	ensureCacheDir()
+	const entries = scanEntryMeta()
+	writeIndexFile(entries)
+	rmSync(indexLogFile, { force: true })
+	return Object.keys(entries).length
+}
+
+/** Entry metadata by key, rebuilding the index if it is missing. */
+export function loadCacheIndex(): Record<string, CacheEntryMeta> {
+	if (backend === 'sqlite') {
+		const entries: Record<string, CacheEntryMeta> = {}
+		for (const row of sqliteListEntries(getCacheDb())) {
+			if (row.meta) entries[row.key] = row.meta
+		}
+		return entries
+	}
+	const index = readIndexFile()
+	if (index) {
+		replayIndexLog(index.entries, indexLogFile)
+		return index.entries
+	}
+	rebuildCacheIndex()
+	return readIndexFile()?.entries ?? {}
+}
+
+/** Whether an entry's metadata matches every field set in the filter. */
+export function matchesCacheFilter(
+	meta: CacheEntryMeta,
+	filter: CacheFilter,
+): boolean {
+	if (filter.kind && meta.kind !== filter.kind) return false
+	if (filter.topic && meta.topic !== normalizeTopic(filter.topic)) return false
+	if (filter.source && meta.source !== filter.source) return false
+	if (filter.depth && meta.depth !== filter.depth) return false
+	if (filter.model && meta.model !== filter.model) return false
+	if (filter.prompt_version && meta.prompt_version !== filter.prompt_version)
+		return false
+	return true
+}
+
+/** Indexed entries matching the filter, newest first. */
+export function queryCache(
+	filter: CacheFilter = {},
+): { key: string; meta: CacheEntryMeta }[] {
+	return Object.entries(loadCacheIndex())
+		.filter(([, meta]) => matchesCacheFilter(meta, filter))
+		.map(([key, meta]) => ({ key, meta }))
+		.sort((a, b) => b.meta.created_at.localeCompare(a.meta.created_at))
+}
+
+/**
+ * Delete indexed entries matching the filter, e.g. everything for a topic or
+ * everything written under an old prompt version.
+ * @returns The removed entries.
+ */
+export function invalidateCache(
+	filter: CacheFilter,
+): { key: string; meta: CacheEntryMeta }[] {
+	const matches = queryCache(filter)
+	fileUsage.clear()
+	if (backend === 'sqlite') {
+		sqliteDeleteEntries(
+			getCacheDb(),
+			matches.map((m) => m.key),
+		)
+		return matches
+	}
+	for (const { key } of matches) {
+		try {
+			rmSync(getCachePath(key), { force: true })
+		} catch {
+			// ignore races with other processes
 		}
+	}
+	appendIndexLog(matches.map(({ key }) => ({ key, meta: null })))
+	return matches
+}
+
+// Cache inventory and maintenance
+
+/** What a cache entry (file or SQLite row) holds. */
+export type CacheEntryKind =
+	| 'search'
+	| 'enrichment'
+	| 'model'
+	| 'circuit'
+	| 'index'
+	| 'lock'
+	| 'temp'
+	| 'other'
+
+/** Kinds in display order. */
+export const CACHE_ENTRY_KINDS: readonly CacheEntryKind[] = [
+	'search',
+	'enrichment',
+	'model',
+	'circuit',
+	'index',
+	'lock',
+	'temp',
+	'other',
+]
+
+/** One file under the cache directory, or one row of the SQLite cache. */
+export interface CacheEntryInfo {
+	/** File name without `.json`/`.lock`; the cache key for search/enrichment. */
+	key: string
+	kind: CacheEntryKind
+	/** Where the entry is stored. */
+	backend: CacheBackend
+	/** The entry's file, or the database file for SQLite rows. */
+	path: string
+	bytes: number
+	age_hours: number
+	/** Past the TTL for its kind (search entries use the stale TTL). */
+	expired: boolean
+	/** The entry's envelope metadata; null for other kinds and pre-v3 entries. */
+	meta: CacheEntryMeta | null
+	/** Items held by a search entry. */
+	item_count: number | null
+}
+
+/** Entry count and bytes for one kind. */
+export interface CacheKindStats {
+	count: number
+	bytes: number
+}
+
+/** Cache directory totals, per kind. */
+export interface CacheStats {
+	dir: string
+	backend: CacheBackend
+	kinds: Record<CacheEntryKind, CacheKindStats>
+	total: CacheKindStats
+	/** Caps enforced on write for search and enrichment entries. */
+	limits: Record<CacheLimitKind, CacheLimit>
+}
+
+/** Root of the file cache. */
+export function getCacheDir(): string {
+	return cacheDir
+}
+
+/**
+ * Point the cache at another directory, or back at the default with null.
+ * Lets tests and embedding tools keep the user's own cache untouched.
+ */
+export function setCacheDir(dir: string | null): void {
+	cacheDir = dir ?? DEFAULT_CACHE_DIR
+	lockDir = join(cacheDir, 'locks')
+	indexFile = join(cacheDir, 'index.json')
+	indexLogFile = join(cacheDir, 'index.log')
+	sqliteFile = join(cacheDir, 'cache.sqlite')
+	modelCacheFile = join(cacheDir, 'model_selection.json')
+	circuitFile = join(cacheDir, 'circuit_breakers.json')
+	fileUsage.clear()
+	closeCacheDb()
+}
+
+function classifyData(
+	raw: Record<string, unknown> | null,
+): Pick<CacheEntryInfo, 'kind' | 'meta' | 'item_count'> {
+	const meta = isEnvelope(raw) ? raw.meta : null
+	const data = isEnvelope(raw) ? raw.data : raw
+	const kind = meta?.kind ?? (data ? classifyRecord(data) : 'other')
+	const itemCount =
+		kind === 'search' && Array.isArray(data?.items) ? data.items.length : null
+	return { kind, meta, item_count: itemCount }
+}
+
+function ttlHoursFor(kind: CacheEntryKind): number | null {
+	switch (kind) {
+		case 'search':
+			return Math.max(getSearchTTL(), getStaleSearchTTL())
+		case 'enrichment':
+			return getEnrichmentTTL()
+		case 'model':
+			return MODEL_CACHE_TTL_DAYS * 24
+		case 'lock':
+			return LOCK_STALE_MS / (1000 * 60 * 60)
+		case 'temp':
+			return TEMP_STALE_HOURS
+		default:
+			return null
+	}
+}
+
+function describeFile(
+	dir: string,
+	file: string,
+	now: number,
+): CacheEntryInfo | null {
+	const path = join(dir, file)
+	let stat: ReturnType<typeof statSync>
+	try {
+		stat = statSync(path)
 	} catch {
-		// ignore
+		return null
+	}
+	if (!stat.isFile()) return null
+
+	let key = file.replace(/\.(json|lock)$/, '')
+	let info: Pick<CacheEntryInfo, 'kind' | 'meta' | 'item_count'> = {
+		kind: 'other',
+		meta: null,
+		item_count: null,
+	}
+	if (dir === lockDir) {
+		info.kind = 'lock'
+	} else if (file.includes('.tmp.')) {
+		info.kind = 'temp'
+		key = file
+	} else if (file === 'model_selection.json' || /^model_.+\.json$/.test(file)) {
+		info.kind = 'model'
+	} else if (file === 'circuit_breakers.json') {
+		info.kind = 'circuit'
+	} else if (file === 'index.json' || file === 'index.log') {
+		info.kind = 'index'
+	} else if (file.endsWith('.json')) {
+		info = classifyData(readCache(path))
+	}
+
+	const ageHours = (now - stat.mtimeMs) / (1000 * 60 * 60)
+	const ttl = ttlHoursFor(info.kind)
+	return {
+		key,
+		...info,
+		backend: 'file',
+		path,
+		bytes: stat.size,
+		age_hours: ageHours,
+		expired: ttl != null && ageHours >= ttl,
+	}
+}
+
+function listFileEntries(now: number): CacheEntryInfo[] {
+	const entries: CacheEntryInfo[] = []
+	for (const dir of [cacheDir, lockDir]) {
+		if (!existsSync(dir)) continue
+		for (const file of readdirSync(dir)) {
+			// The database is listed row by row while it is the backend
+			if (backend === 'sqlite' && file.startsWith('cache.sqlite')) continue
+			const entry = describeFile(dir, file, now)
+			if (entry) entries.push(entry)
+		}
 	}
+	return entries
+}
+
+function listSqliteEntries(now: number): CacheEntryInfo[] {
+	return sqliteListEntries(getCacheDb()).map((row) => {
+		const ageHours = (now - row.saved_at) / (1000 * 60 * 60)
+		const ttl = ttlHoursFor(row.kind)
+		return {
+			key: row.key,
+			kind: row.kind,
+			backend: 'sqlite',
+			path: sqliteFile,
+			bytes: row.bytes,
+			age_hours: ageHours,
+			expired: ttl != null && ageHours >= ttl,
+			meta: row.meta,
+			item_count: row.item_count,
+		}
+	})
+}
+
+/**
+ * Every file under the cache directory, plus every SQLite row when that
+ * backend is active, newest first.
+ */
+export function listCacheEntries(now: number = Date.now()): CacheEntryInfo[] {
+	const entries = listFileEntries(now)
+	if (backend === 'sqlite') entries.push(...listSqliteEntries(now))
+	return entries.sort((a, b) => a.age_hours - b.age_hours)
+}
+
+/** Entry counts and bytes per kind. */
+export function getCacheStats(now: number = Date.now()): CacheStats {
+	const kinds = Object.fromEntries(
+		CACHE_ENTRY_KINDS.map((k) => [k, { count: 0, bytes: 0 }]),
+	) as Record<CacheEntryKind, CacheKindStats>
+	const total = { count: 0, bytes: 0 }
+	for (const entry of listCacheEntries(now)) {
+		kinds[entry.kind].count++
+		kinds[entry.kind].bytes += entry.bytes
+		total.count++
+		total.bytes += entry.bytes
+	}
+	return { dir: cacheDir, backend, kinds, total, limits: getCacheLimits() }
+}
+
+/**
+ * Look up one entry by key (or unique key prefix).
+ * @returns The entry and its parsed contents, or null if not found.
+ */
+export function inspectCacheEntry(
+	key: string,
+	now: number = Date.now(),
+): { entry: CacheEntryInfo; data: Record<string, unknown> | null } | null {
+	const matches = listCacheEntries(now).filter((e) => e.key.startsWith(key))
+	const entry = matches.find((e) => e.key === key) ?? matches[0]
+	if (!entry || (matches.length > 1 && entry.key !== key)) return null
+	if (entry.backend === 'sqlite') {
+		return { entry, data: sqliteLoad(getCacheDb(), entry.key)?.data ?? null }
+	}
+	return {
+		entry,
+		data: entry.path.endsWith('.json') ? readCacheData(entry.path) : null,
+	}
+}
+
+/**
+ * Move search and enrichment entries from JSON files into the SQLite
+ * database, keeping their metadata and age, then delete the files and the
+ * file index. Works whichever backend is active.
+ * @returns How many entries moved, and how many other JSON files were left
+ *   in place because they aren't recognizable entries.
+ */
+export function migrateCacheToSqlite(now: number = Date.now()): {
+	migrated: number
+	skipped: number
+} {
+	const rows: Parameters<typeof sqliteSave>[1] = []
+	const files: string[] = []
+	let skipped = 0
+	for (const entry of listFileEntries(now)) {
+		if (entry.kind !== 'search' && entry.kind !== 'enrichment') {
+			if (entry.kind === 'other' && entry.path.endsWith('.json')) skipped++
+			continue
+		}
+		const raw = readCache(entry.path)
+		const data = isEnvelope(raw) ? raw.data : raw
+		if (!data) {
+			skipped++
+			continue
+		}
+		rows.push({
+			key: entry.key,
+			kind: entry.kind,
+			meta: entry.meta,
+			data,
+			saved_at: now - entry.age_hours * 60 * 60 * 1000,
+		})
+		files.push(entry.path)
+	}
+	if (rows.length > 0) sqliteSave(getCacheDb(), rows)
+	for (const path of [...files, indexFile, indexLogFile]) {
+		rmSync(path, { force: true })
+	}
+	return { migrated: rows.length, skipped }
+}
+
+/**
+ * Delete entries past the TTL for their kind, stale lock files and leftover
+ * temp files.
+ * @returns The removed entries.
+ */
+export function pruneCache(now: number = Date.now()): CacheEntryInfo[] {
+	return removeEntries(listCacheEntries(now).filter((e) => e.expired))
 }
 
 // Model selection cache (longer TTL)
-const MODEL_CACHE_FILE = join(CACHE_DIR, 'model_selection.json')
 
 /** Load model selection cache. */
 export function loadModelCache(): Record<string, string> {
-	if (!isCacheValid(MODEL_CACHE_FILE, MODEL_CACHE_TTL_DAYS * 24)) return {}
+	if (!isCacheValid(modelCacheFile, MODEL_CACHE_TTL_DAYS * 24)) return {}
 	try {
-		return JSON.parse(readFileSync(MODEL_CACHE_FILE, 'utf-8')) as Record<
+		return JSON.parse(readFileSync(modelCacheFile, 'utf-8')) as Record<
 			string,
 			string
 		>
@@ -305,7 +1460,7 @@ export function loadModelCache(): Record<string, string> {
 function saveModelCache(data: Record<string, string>): void {
 	ensureCacheDir()
 	try {
-		writeFileSync(MODEL_CACHE_FILE, JSON.stringify(data))
+		writeFileSync(modelCacheFile, JSON.stringify(data))
 	} catch {
 		// Silently fail
 	}
@@ -327,7 +1482,7 @@ export function setCachedModel(provider: string, model: string): void {
 
 /** Clear cached model for a provider (used when model becomes unavailable). */
 export function clearCachedModel(provider: string): void {
-	const cacheFile = join(CACHE_DIR, `model_${provider}.json`)
+	const cacheFile = join(cacheDir, `model_${provider}.json`)
 	try {
 		unlinkSync(cacheFile)
 	} catch {
@@ -335,6 +1490,88 @@ export function clearCachedModel(provider: string): void {
 	}
 }
 
+// Circuit breaker state (shared across runs)
+
+/** Persisted failure streak for one host. */
+export interface CircuitRecord {
+	/** Consecutive failed requests. */
+	failures: number
+	/** When the circuit last opened (epoch ms), or null while closed. */
+	opened_at: number | null
+	/** When the half-open trial request started (epoch ms), if one is running. */
+	trial_at?: number | null
+	last_error: string
+}
+
+/**
+ * Last state read from or written to `circuitFile`, with the file identity
+ * it came from. Every request checks its host's circuit, so the file is
+ * only reread when another process (or a test) has replaced it.
+ */
+let circuitMemo: {
+	path: string
+	ino: number
+	mtimeMs: number
+	size: number
+	state: Record<string, CircuitRecord>
+} | null = null
+
+/** Load circuit breaker state keyed by host. Callers may mutate the result. */
+export function loadCircuitState(): Record<string, CircuitRecord> {
+	let stat: ReturnType<typeof statSync>
+	try {
+		stat = statSync(circuitFile)
+	} catch {
+		circuitMemo = null
+		return {}
+	}
+	const { ino, mtimeMs, size } = stat
+	const memo = circuitMemo
+	if (
+		memo?.path === circuitFile &&
+		memo.ino === ino &&
+		memo.mtimeMs === mtimeMs &&
+		memo.size === size
+	) {
+		return structuredClone(memo.state)
+	}
+	try {
+		const state = JSON.parse(readFileSync(circuitFile, 'utf-8')) as Record<
+			string,
+			CircuitRecord
+		>
+		circuitMemo = { path: circuitFile, ino, mtimeMs, size, state }
+		return structuredClone(state)
+	} catch {
+		return {}
+	}
+}
+
+/** Save circuit breaker state (atomic replace). */
+export function saveCircuitState(state: Record<string, CircuitRecord>): void {
+	ensureCacheDir()
+	const tmpPath = `${circuitFile}.tmp.${process.pid}.${Date.now()}`
+	try {
+		writeFileSync(tmpPath, JSON.stringify(state))
+		// Rename keeps the inode and mtime, so stat the temp file first
+		const { ino, mtimeMs, size } = statSync(tmpPath)
+		renameSync(tmpPath, circuitFile)
+		circuitMemo = {
+			path: circuitFile,
+			ino,
+			mtimeMs,
+			size,
+			state: structuredClone(state),
+		}
+	} catch {
+		try {
+			rmSync(tmpPath, { force: true })
+		} catch {
+			// ignore temp cleanup errors
+		}
+	}
+}
+
 function sleep(ms: number): Promise<void> {
 	return new Promise((resolve) => setTimeout(resolve, ms))
 }
@@ -0,0 +1,274 @@
+/**
+ * Record/replay of HTTP interactions ("cassettes").
+ *
+ * In record mode every request made through `http.request` is saved to a
+ * cassette directory as one JSON file per interaction, with credentials
+ * stripped. In replay mode the same requests are answered from those files
+ * without touching the network, so a real run can be captured once and
+ * replayed in CI or attached to a bug report.
+ *
+ * Requests are matched on method, URL and body with dates and unix
+ * timestamps masked, so a cassette keeps replaying after the lookback
+ * window has moved on. Identical requests replay in recorded order.
+ */
+
+import { createHash } from 'node:crypto'
+import {
+	existsSync,
+	mkdirSync,
+	readdirSync,
+	readFileSync,
+	writeFileSync,
+} from 'node:fs'
+import { join } from 'node:path'
+
+/** Bump when the cassette file format changes. */
+export const CASSETTE_FORMAT_VERSION = 1
+
+const MANIFEST_FILE = 'manifest.json'
+
+/** Query parameters whose values are replaced before writing. */
+const SECRET_PARAM_RE = /key|token|secret|signature|password|auth/i
+
+/** Response headers worth keeping; everything else is dropped. */
+const KEPT_RESPONSE_HEADERS = [
+	'content-type',
+	'retry-after',
+	'x-request-id',
+	'x-ratelimit-reset-requests',
+	'x-ratelimit-reset-tokens',
+]
+
+export type CassetteMode = 'record' | 'replay'
+
+/** Where and how to use a cassette. */
+export interface CassetteOptions {
+	mode: CassetteMode
+	/** Directory holding the interaction files and manifest. */
+	dir: string
+}
+
+/** One recorded request/response pair, as stored on disk. */
+export interface CassetteEntry {
+	version: number
+	match_key: string
+	seq: number
+	method: string
+	url: string
+	request_body: unknown
+	status: number
+	status_text: string
+	headers: Record<string, string>
+	body: string
+}
+
+/** Run-level facts needed to replay deterministically. */
+export interface CassetteManifest {
+	version: number
+	recorded_at: string
+	/** Models selected during recording; replay reuses them. */
+	models: Record<string, string | null>
+	/**
+	 * Sources resolved during recording; replay runs the same adapters, so
+	 * it needs none of their API keys. Absent in older cassettes.
+	 */
+	sources?: { adapters: string[]; mode: string; web: boolean }
+	/** Provider that synthesized the recorded run, or null if none did. */
+	synthesis?: 'openai' | 'xai' | null
+}
+
+/** Missing or unusable cassette, or a request with no recorded response. */
+export class CassetteError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'CassetteError'
+	}
+}
+
+interface ActiveCassette extends CassetteOptions {
+	/** Next sequence number per match key (record) or next entry index (replay). */
+	counters: Map<string, number>
+	entries: Map<string, CassetteEntry[]>
+}
+
+let active: ActiveCassette | null = null
+
+/** Replace credential-looking query parameter values with "REDACTED". */
+export function redactUrl(url: string): string {
+	let parsed: URL
+	try {
+		parsed = new URL(url)
+	} catch {
+		return url
+	}
+	for (const name of [...parsed.searchParams.keys()]) {
+		if (SECRET_PARAM_RE.test(name)) parsed.searchParams.set(name, 'REDACTED')
+	}
+	return parsed.toString()
+}
+
+function maskVolatile(text: string): string {
+	return text
+		.replace(/\d{4}-\d{2}-\d{2}/g, '<date>')
+		.replace(/\b\d{10}\b/g, '<timestamp>')
+}
+
+/** Key used to match a request against recorded interactions. */
+export function getCassetteKey(
+	method: string,
+	url: string,
+	body?: string,
+): string {
+	const keyData = maskVolatile(
+		`${method.toUpperCase()} ${redactUrl(url)}\n${body ?? ''}`,
+	)
+	return createHash('sha256').update(keyData).digest('hex').slice(0, 16)
+}
+
+function loadEntries(dir: string): Map<string, CassetteEntry[]> {
+	const entries = new Map<string, CassetteEntry[]>()
+	for (const file of readdirSync(dir)) {
+		if (!file.endsWith('.json') || file === MANIFEST_FILE) continue
+		const entry = JSON.parse(
+			readFileSync(join(dir, file), 'utf-8'),
+		) as CassetteEntry
+		if (entry.version !== CASSETTE_FORMAT_VERSION) {
+			throw new CassetteError(
+				`${file}: unsupported cassette version ${entry.version}`,
+			)
+		}
+		const list = entries.get(entry.match_key) ?? []
+		list.push(entry)
+		entries.set(entry.match_key, list)
+	}
+	for (const list of entries.values()) list.sort((a, b) => a.seq - b.seq)
+	return entries
+}
+
+/**
+ * Activate a cassette for all subsequent `http.request` calls, or pass null
+ * to go back to the network.
+ * @throws CassetteError when replaying from a directory that doesn't exist.
+ */
+export function useCassette(options: CassetteOptions | null): void {
+	if (!options) {
+		active = null
+		return
+	}
+	let entries = new Map<string, CassetteEntry[]>()
+	if (options.mode === 'replay') {
+		if (!existsSync(options.dir)) {
+			throw new CassetteError(`Cassette not found: ${options.dir}`)
+		}
+		entries = loadEntries(options.dir)
+	} else {
+		mkdirSync(options.dir, { recursive: true })
+	}
+	active = { ...options, counters: new Map(), entries }
+}
+
+/** The active cassette's options, or null when using the network. */
+export function getCassette(): CassetteOptions | null {
+	return active ? { mode: active.mode, dir: active.dir } : null
+}
+
+/** Save one interaction to the active recording cassette. */
+export function recordInteraction(
+	method: string,
+	url: string,
+	body: string | undefined,
+	response: Response,
+	responseBody: string,
+): void {
+	if (active?.mode !== 'record') return
+	const matchKey = getCassetteKey(method, url, body)
+	const seq = active.counters.get(matchKey) ?? 0
+	active.counters.set(matchKey, seq + 1)
+
+	const headers: Record<string, string> = {}
+	for (const name of KEPT_RESPONSE_HEADERS) {
+		const value = response.headers.get(name)
+		if (value != null) headers[name] = value
+	}
+
+	let requestBody: unknown = null
+	if (body) {
+		try {
+			requestBody = JSON.parse(body)
+		} catch {
+			requestBody = body
+		}
+	}
+
+	const entry: CassetteEntry = {
+		version: CASSETTE_FORMAT_VERSION,
+		match_key: matchKey,
+		seq,
+		method: method.toUpperCase(),
+		url: redactUrl(url),
+		request_body: requestBody,
+		status: response.status,
+		status_text: response.statusText,
+		headers,
+		body: responseBody,
+	}
+	writeFileSync(
+		join(active.dir, `${matchKey}-${String(seq).padStart(3, '0')}.json`),
+		`${JSON.stringify(entry, null, 2)}\n`,
+	)
+}
+
+/**
+ * Answer a request from the active replay cassette. Repeated identical
+ * requests get the recorded responses in order, then the last one again.
+ * @throws CassetteError when nothing was recorded for the request.
+ */
+export function replayInteraction(
+	method: string,
+	url: string,
+	body?: string,
+): Response {
+	if (active?.mode !== 'replay') {
+		throw new CassetteError('No replay cassette is active')
+	}
+	const matchKey = getCassetteKey(method, url, body)
+	const list = active.entries.get(matchKey)
+	if (!list || list.length === 0) {
+		throw new CassetteError(
+			`No recorded response for ${method.toUpperCase()} ${redactUrl(url)} in ${active.dir}`,
+		)
+	}
+	const index = active.counters.get(matchKey) ?? 0
+	active.counters.set(matchKey, index + 1)
+	const entry = list[Math.min(index, list.length - 1)]!
+	const nullBody = [204, 205, 304].includes(entry.status)
+	return new Response(nullBody ? null : entry.body, {
+		status: entry.status,
+		statusText: entry.status_text,
+		headers: entry.headers,
+	})
+}
+
+/** Write the run manifest into the active recording cassette. */
+export function writeCassetteManifest(
+	run: Omit<CassetteManifest, 'version' | 'recorded_at'>,
+): void {
+	if (active?.mode !== 'record') return
+	const manifest: CassetteManifest = {
+		version: CASSETTE_FORMAT_VERSION,
+		recorded_at: new Date().toISOString(),
+		...run,
+	}
+	writeFileSync(
+		join(active.dir, MANIFEST_FILE),
+		`${JSON.stringify(manifest, null, 2)}\n`,
+	)
+}
+
+/** Read the active replay cassette's manifest, or null if it has none. */
+export function readCassetteManifest(): CassetteManifest | null {
+	if (active?.mode !== 'replay') return null
+	const path = join(active.dir, MANIFEST_FILE)
+	if (!existsSync(path)) return null
+	return JSON.parse(readFileSync(path, 'utf-8')) as CassetteManifest
+}
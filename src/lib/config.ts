@@ -51,6 +51,15 @@ export function getConfig(): Record<string, string | null> {
 		XAI_MODEL_POLICY:
 			process.env.XAI_MODEL_POLICY ?? fileEnv.XAI_MODEL_POLICY ?? 'latest',
 		XAI_MODEL_PIN: process.env.XAI_MODEL_PIN ?? fileEnv.XAI_MODEL_PIN ?? null,
+		HN_API_BASE_URL:
+			process.env.HN_API_BASE_URL ?? fileEnv.HN_API_BASE_URL ?? null,
+		SCORING_PROFILE:
+			process.env.SCORING_PROFILE ?? fileEnv.SCORING_PROFILE ?? null,
+		SCORING_WEIGHTS:
+			process.env.SCORING_WEIGHTS ?? fileEnv.SCORING_WEIGHTS ?? null,
+		RATE_LIMITS: process.env.RATE_LIMITS ?? fileEnv.RATE_LIMITS ?? null,
+		CACHE_BACKEND: process.env.CACHE_BACKEND ?? fileEnv.CACHE_BACKEND ?? null,
+		CACHE_LIMITS: process.env.CACHE_LIMITS ?? fileEnv.CACHE_LIMITS ?? null,
 	}
 }
 
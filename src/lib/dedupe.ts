@@ -1,6 +1,21 @@
 /** Near-duplicate detection for last-30-days skill. */
 
-import type { RedditItem, WebSearchItem, XItem } from './schema.js'
+import type {
+	BaseItem,
+	HackerNewsItem,
+	RedditItem,
+	Report,
+	Story,
+	WebSearchItem,
+	XItem,
+} from './schema.js'
+import { getItemTitle } from './schema.js'
+import { normalizeUrl } from './url.js'
+
+/** Extra story score per corroborating source beyond the first. */
+const STORY_SOURCE_BONUS = 5
+
+const URL_PATTERN = /https?:\/\/[^\s<>()"']+/g
 
 /**
  * Normalize text for comparison.
@@ -40,7 +55,7 @@ export function jaccardSimilarity(
 }
 
 /** Get comparable text from an item. */
-function getItemText(item: RedditItem | XItem): string {
+function getItemText(item: RedditItem | XItem | HackerNewsItem): string {
 	return 'title' in item && typeof item.title === 'string'
 		? item.title
 		: (item as XItem).text
@@ -48,7 +63,7 @@ function getItemText(item: RedditItem | XItem): string {
 
 /** Find near-duplicate pairs in items. */
 function findDuplicates(
-	items: (RedditItem | XItem)[],
+	items: (RedditItem | XItem | HackerNewsItem)[],
 	threshold: number,
 ): [number, number][] {
 	const duplicates: [number, number][] = []
@@ -70,7 +85,7 @@ function findDuplicates(
  * Remove near-duplicates, keeping highest-scored item.
  * Items should be pre-sorted by score descending.
  */
-export function dedupeItems<T extends RedditItem | XItem>(
+export function dedupeItems<T extends RedditItem | XItem | HackerNewsItem>(
 	items: T[],
 	threshold = 0.7,
 ): T[] {
@@ -103,6 +118,14 @@ export function dedupeX(items: XItem[], threshold = 0.7): XItem[] {
 	return dedupeItems(items, threshold)
 }
 
+/** Dedupe Hacker News items. */
+export function dedupeHackerNews(
+	items: HackerNewsItem[],
+	threshold = 0.7,
+): HackerNewsItem[] {
+	return dedupeItems(items, threshold)
+}
+
 /** Remove duplicate WebSearch items by URL. */
 export function dedupeWebsearch(items: WebSearchItem[]): WebSearchItem[] {
 	const seenUrls = new Set<string>()
@@ -118,3 +141,117 @@ export function dedupeWebsearch(items: WebSearchItem[]): WebSearchItem[] {
 
 	return result
 }
+
+/** An item as seen by the cross-source clustering pass. */
+interface StoryMember {
+	source: string
+	item: BaseItem
+	text: string
+	urls: string[]
+}
+
+/** URLs in free text, with trailing punctuation trimmed. */
+export function extractUrls(text: string): string[] {
+	return (text.match(URL_PATTERN) ?? []).map((u) => u.replace(/[.,;:!?]+$/, ''))
+}
+
+/**
+ * Flatten a report into clustering members with their URL keys: the item
+ * URL, an HN story link, and URLs quoted in post text.
+ */
+function getStoryMembers(report: Report): StoryMember[] {
+	return Object.entries(report.items).flatMap(([source, items]) =>
+		items.map((item) => {
+			const urls = [item.url]
+			if ('story_url' in item && typeof item.story_url === 'string') {
+				urls.push(item.story_url)
+			}
+			if ('text' in item && typeof item.text === 'string') {
+				urls.push(...extractUrls(item.text))
+			}
+			return { source, item, text: getItemTitle(item), urls }
+		}),
+	)
+}
+
+/**
+ * Group items about the same thing across sources into stories.
+ * Items are linked when they share a canonical URL (including story links
+ * on HN and URLs quoted in X posts) or when their title/text n-gram
+ * similarity reaches `threshold`. Members stay in their source lists; each
+ * gets a `cluster_id` and the report gets one `Story` per multi-item group.
+ * Single-source groups are left alone: within-source dedupe handles those.
+ */
+export function clusterStories(report: Report, threshold = 0.6): Story[] {
+	const members = getStoryMembers(report)
+	const parent = members.map((_, i) => i)
+	const find = (i: number): number => {
+		while (parent[i] !== i) {
+			parent[i] = parent[parent[i]!]!
+			i = parent[i]!
+		}
+		return i
+	}
+	const union = (a: number, b: number) => {
+		parent[find(a)] = find(b)
+	}
+
+	const byUrl = new Map<string, number>()
+	members.forEach((member, i) => {
+		for (const url of member.urls) {
+			const key = normalizeUrl(url)
+			const first = byUrl.get(key)
+			if (first === undefined) {
+				byUrl.set(key, i)
+			} else {
+				union(first, i)
+			}
+		}
+	})
+
+	const ngrams = members.map((m) => getNgrams(m.text))
+	for (let i = 0; i < members.length; i++) {
+		for (let j = i + 1; j < members.length; j++) {
+			if (members[i]!.source === members[j]!.source) continue
+			if (jaccardSimilarity(ngrams[i]!, ngrams[j]!) >= threshold) {
+				union(i, j)
+			}
+		}
+	}
+
+	const groups = new Map<number, StoryMember[]>()
+	members.forEach((member, i) => {
+		member.item.cluster_id = null
+		const root = find(i)
+		groups.set(root, [...(groups.get(root) ?? []), member])
+	})
+
+	const stories: Story[] = []
+	for (const group of groups.values()) {
+		group.sort((a, b) => b.item.score - a.item.score)
+		const sources = [...new Set(group.map((m) => m.source))]
+		if (sources.length < 2) continue
+		const lead = group[0]!
+		stories.push({
+			id: '',
+			title: lead.text.slice(0, 200),
+			score: Math.min(
+				100,
+				lead.item.score + STORY_SOURCE_BONUS * (sources.length - 1),
+			),
+			sources,
+			item_ids: group.map((m) => m.item.id),
+			urls: [...new Set(group.flatMap((m) => m.urls))],
+		})
+	}
+
+	stories.sort((a, b) => b.score - a.score)
+	const byId = new Map(members.map((m) => [m.item.id, m.item]))
+	stories.forEach((story, i) => {
+		story.id = `S${i + 1}`
+		for (const id of story.item_ids) byId.get(id)!.cluster_id = story.id
+	})
+
+	report.stories = stories
+	return stories
+}
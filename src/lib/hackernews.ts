@@ -0,0 +1,209 @@
+/** Hacker News discovery via the Algolia HN Search API. */
+
+import { timestampToDate } from './dates.js'
+import * as http from './http.js'
+import { extractCommentInsights } from './reddit-enrich.js'
+import { computeRelevance } from './score.js'
+
+/** Public Algolia HN Search API. Override with `HN_API_BASE_URL`. */
+export const HN_API_BASE_URL = 'https://hn.algolia.com/api/v1'
+
+/** Cache-busting version for HN query behavior. */
+export const HN_QUERY_VERSION = '2026-10-19-v1'
+
+/**
+ * Depth configurations: stories to request, and stories to fetch comments
+ * for (one item request each).
+ */
+const DEPTH_CONFIG: Record<string, { stories: number; enrich: number }> = {
+	quick: { stories: 15, enrich: 10 },
+	default: { stories: 30, enrich: 20 },
+	deep: { stories: 60, enrich: 40 },
+}
+
+const HN_ITEM_URL = 'https://news.ycombinator.com/item?id='
+
+/** How many stories to fetch comments for at this depth. */
+export function getHackerNewsEnrichLimit(depth: string): number {
+	return (DEPTH_CONFIG[depth] ?? DEPTH_CONFIG.default!).enrich
+}
+
+function safeNumber(value: unknown): number | null {
+	if (value == null) return null
+	const n = Number(value)
+	return Number.isFinite(n) ? n : null
+}
+
+/** Convert a YYYY-MM-DD range to Algolia `created_at_i` bounds (inclusive). */
+export function getCreatedAtFilter(fromDate: string, toDate: string): string {
+	const fromTs = Math.floor(Date.parse(`${fromDate}T00:00:00Z`) / 1000)
+	const toTs = Math.floor(Date.parse(`${toDate}T23:59:59Z`) / 1000)
+	return `created_at_i>=${fromTs},created_at_i<=${toTs}`
+}
+
+/** Search HN stories in the date range, newest first. */
+export async function searchHackerNews(
+	topic: string,
+	fromDate: string,
+	toDate: string,
+	depth = 'default',
+	baseUrl: string | null = null,
+	mockResponse: Record<string, unknown> | null = null,
+	transport?: http.Transport,
+): Promise<Record<string, unknown>> {
+	if (mockResponse !== null) return mockResponse
+
+	const params = new URLSearchParams({
+		query: topic,
+		tags: 'story',
+		numericFilters: getCreatedAtFilter(fromDate, toDate),
+		hitsPerPage: String((DEPTH_CONFIG[depth] ?? DEPTH_CONFIG.default!).stories),
+	})
+	const base = (baseUrl || HN_API_BASE_URL).replace(/\/+$/, '')
+	return http.get(
+		`${base}/search_by_date?${params}`,
+		{ Accept: 'application/json' },
+		{ transport },
+	)
+}
+
+/** Parse an Algolia search response into raw HN items. */
+export function parseHackerNewsResponse(
+	response: Record<string, unknown>,
+): Record<string, unknown>[] {
+	if (response.error) return []
+	const hits = response.hits
+	if (!Array.isArray(hits)) return []
+	const query = String(response.query ?? '')
+
+	const items: Record<string, unknown>[] = []
+	for (const hit of hits) {
+		if (!hit || typeof hit !== 'object') continue
+		const h = hit as Record<string, unknown>
+		const objectId = String(h.objectID ?? '').trim()
+		const title = String(h.title ?? h.story_title ?? '').trim()
+		if (!objectId || !title) continue
+
+		const createdAt = safeNumber(h.created_at_i)
+		items.push({
+			id: `HN${items.length + 1}`,
+			object_id: objectId,
+			title,
+			url: `${HN_ITEM_URL}${objectId}`,
+			story_url: h.url ? String(h.url) : null,
+			author: String(h.author ?? ''),
+			date: createdAt != null ? timestampToDate(createdAt) : null,
+			engagement: {
+				points: safeNumber(h.points),
+				num_comments: safeNumber(h.num_comments),
+			},
+			why_relevant: query ? `HN story matching "${query}"` : '',
+			relevance: computeRelevance(query, title),
+		})
+	}
+	return items
+}
+
+/** Strip HN comment HTML down to plain text. */
+export function stripHtml(html: string): string {
+	return html
+		.replace(/<p>/gi, '\n')
+		.replace(/<[^>]+>/g, '')
+		.replace(/&#x27;/g, "'")
+		.replace(/&#x2F;/g, '/')
+		.replace(/&quot;/g, '"')
+		.replace(/&gt;/g, '>')
+		.replace(/&lt;/g, '<')
+		.replace(/&amp;/g, '&')
+		.trim()
+}
+
+/** Count all replies beneath a comment. */
+function countDescendants(node: Record<string, unknown>): number {
+	const children = Array.isArray(node.children)
+		? (node.children as Record<string, unknown>[])
+		: []
+	return children.reduce((n, c) => n + 1 + countDescendants(c), 0)
+}
+
+/** Fetch an HN item (story with nested comments) from Algolia. */
+export async function fetchItemData(
+	objectId: string,
+	baseUrl: string | null = null,
+	mockData: Record<string, unknown> | null = null,
+	transport?: http.Transport,
+): Promise<Record<string, unknown> | null> {
+	if (mockData !== null) return mockData
+	if (!objectId) return null
+
+	const base = (baseUrl || HN_API_BASE_URL).replace(/\/+$/, '')
+	try {
+		return await http.get(
+			`${base}/items/${encodeURIComponent(objectId)}`,
+			{ Accept: 'application/json' },
+			{ transport },
+		)
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Top-level comments ranked by reply count.
+ * HN does not expose comment points, so discussion size stands in for score.
+ */
+export function getTopComments(
+	item: Record<string, unknown>,
+	limit = 10,
+): Record<string, unknown>[] {
+	const children = Array.isArray(item.children)
+		? (item.children as Record<string, unknown>[])
+		: []
+	return children
+		.filter((c) => c && c.type === 'comment' && c.text && c.author)
+		.map((c) => ({
+			score: countDescendants(c),
+			created_utc: safeNumber(c.created_at_i),
+			author: String(c.author),
+			body: stripHtml(String(c.text)).slice(0, 300),
+			id: c.id,
+		}))
+		.sort((a, b) => b.score - a.score)
+		.slice(0, limit)
+}
+
+/** Enrich an HN item with current points and top comments. */
+export async function enrichHackerNewsItem(
+	item: Record<string, unknown>,
+	baseUrl: string | null = null,
+	mockItemData: Record<string, unknown> | null = null,
+	transport?: http.Transport,
+): Promise<Record<string, unknown>> {
+	const data = await fetchItemData(
+		String(item.object_id ?? ''),
+		baseUrl,
+		mockItemData,
+		transport,
+	)
+	if (!data) return item
+
+	const points = safeNumber(data.points)
+	if (points != null) {
+		item.engagement = {
+			...((item.engagement as Record<string, unknown>) ?? {}),
+			points,
+		}
+	}
+
+	const topComments = getTopComments(data)
+	item.top_comments = topComments.map((c) => ({
+		score: c.score as number,
+		date: timestampToDate(c.created_utc as number | undefined),
+		author: c.author as string,
+		excerpt: String(c.body ?? '').slice(0, 200),
+		url: c.id ? `${HN_ITEM_URL}${c.id}` : '',
+	}))
+	item.comment_insights = extractCommentInsights(topComments)
+
+	return item
+}
@@ -0,0 +1,86 @@
+/**
+ * SQLite storage for run history.
+ *
+ * Used instead of one JSON file per run when `CACHE_BACKEND=sqlite`, so a
+ * shared build agent keeps its history in one `history.sqlite` beside the
+ * JSON runs. `history.ts` decides when to call in here.
+ */
+
+import type { Database } from 'bun:sqlite'
+import { requireSqlite } from './cache-sqlite.js'
+
+/** How long a writer waits on another process's transaction. */
+const BUSY_TIMEOUT_MS = 5_000
+
+let openDb: { path: string; db: Database } | null = null
+
+/**
+ * Open (or reuse) the history database at `path`, creating its table.
+ * @throws Error when `bun:sqlite` is unavailable (e.g. running under Node).
+ */
+export function openHistoryDb(path: string): Database {
+	if (openDb?.path === path) return openDb.db
+	closeHistoryDb()
+
+	const db = new (requireSqlite().Database)(path, { create: true })
+	db.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`)
+	db.exec('PRAGMA journal_mode = WAL')
+	db.exec(`
+		CREATE TABLE IF NOT EXISTS runs (
+			id INTEGER PRIMARY KEY,
+			topic_slug TEXT NOT NULL,
+			generated_at TEXT NOT NULL,
+			report TEXT NOT NULL
+		);
+		CREATE INDEX IF NOT EXISTS runs_by_topic ON runs (topic_slug, generated_at);
+	`)
+	openDb = { path, db }
+	return db
+}
+
+/** Close the open history database, if any. */
+export function closeHistoryDb(): void {
+	openDb?.db.close()
+	openDb = null
+}
+
+/**
+ * Store one run.
+ * @returns The new row's id.
+ */
+export function sqliteSaveRun(
+	db: Database,
+	topicSlug: string,
+	generatedAt: string,
+	report: Record<string, unknown>,
+): number {
+	return Number(
+		db.run(
+			'INSERT INTO runs (topic_slug, generated_at, report) VALUES (?, ?, ?)',
+			[topicSlug, generatedAt, JSON.stringify(report)],
+		).lastInsertRowid,
+	)
+}
+
+/** Runs of one topic, oldest first, without their reports. */
+export function sqliteListRuns(
+	db: Database,
+	topicSlug: string,
+): { id: number; generated_at: string }[] {
+	return db
+		.query<{ id: number; generated_at: string }, [string]>(
+			'SELECT id, generated_at FROM runs WHERE topic_slug = ? ORDER BY generated_at ASC',
+		)
+		.all(topicSlug)
+}
+
+/** The stored report of one run, or null if absent. */
+export function sqliteLoadRun(
+	db: Database,
+	id: number,
+): Record<string, unknown> | null {
+	const row = db
+		.query<{ report: string }, [number]>('SELECT report FROM runs WHERE id = ?')
+		.get(id)
+	return row ? (JSON.parse(row.report) as Record<string, unknown>) : null
+}
@@ -0,0 +1,305 @@
+/** Run history and run-to-run diffs for last-30-days skill. */
+
+import { createHash } from 'node:crypto'
+import {
+	existsSync,
+	mkdirSync,
+	readdirSync,
+	readFileSync,
+	writeFileSync,
+} from 'node:fs'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+
+import { getCacheBackend } from './cache.js'
+import {
+	openHistoryDb,
+	sqliteListRuns,
+	sqliteLoadRun,
+	sqliteSaveRun,
+} from './history-sqlite.js'
+import type { Engagement, Report } from './schema.js'
+import {
+	getExtraSections,
+	getItemTitle,
+	getSectionItems,
+	reportFromDict,
+	reportToDict,
+} from './schema.js'
+import { normalizeUrl } from './url.js'
+
+const HISTORY_DIR = join(
+	homedir(),
+	'.local',
+	'share',
+	'last-30-days',
+	'history',
+)
+
+/** Database holding runs saved under `CACHE_BACKEND=sqlite`. */
+const HISTORY_DB_FILE = 'history.sqlite'
+
+/** `<database>#<row id>` paths name runs stored in SQLite. */
+const SQLITE_RUN_PATH = /^(.+\.sqlite)#(\d+)$/
+
+/** A persisted run of a topic. */
+export interface HistoryEntry {
+	/** JSON file of the run, or `<database>#<row id>` under the SQLite backend. */
+	path: string
+	generated_at: string
+}
+
+/** One item as compared across runs. */
+export interface HistoryItem {
+	source: string
+	id: string
+	title: string
+	url: string
+	score: number
+	engagement: Engagement | null
+}
+
+/** An item present in both runs whose score or engagement moved. */
+export interface ChangedItem extends HistoryItem {
+	previous_score: number
+	score_delta: number
+	engagement_delta: Record<string, number>
+}
+
+/** Difference between two runs of the same topic. */
+export interface ReportDiff {
+	topic: string
+	previous_generated_at: string
+	current_generated_at: string
+	added: HistoryItem[]
+	dropped: HistoryItem[]
+	changed: ChangedItem[]
+	unchanged: number
+}
+
+function normalizeTopic(topic: string): string {
+	return topic.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+/**
+ * Directory name for a topic: readable slug plus a short hash so topics
+ * that slug identically (e.g. "C++" vs "C#") never share history.
+ */
+export function getTopicSlug(topic: string): string {
+	const normalized = normalizeTopic(topic)
+	const slug =
+		normalized
+			.replace(/[^a-z0-9]+/g, '-')
+			.replace(/^-+|-+$/g, '')
+			.slice(0, 60) || 'topic'
+	const hash = createHash('sha256').update(normalized).digest('hex')
+	return `${slug}-${hash.slice(0, 8)}`
+}
+
+/**
+ * Persist a report under `<dir>/<topic-slug>/<timestamp>.json`, or as a row
+ * of `<dir>/history.sqlite` when the SQLite cache backend is active.
+ */
+export function saveRun(report: Report, dir = HISTORY_DIR): string {
+	if (getCacheBackend() === 'sqlite') {
+		mkdirSync(dir, { recursive: true })
+		const dbPath = join(dir, HISTORY_DB_FILE)
+		const id = sqliteSaveRun(
+			openHistoryDb(dbPath),
+			getTopicSlug(report.topic),
+			report.generated_at,
+			reportToDict(report),
+		)
+		return `${dbPath}#${id}`
+	}
+	const topicDir = join(dir, getTopicSlug(report.topic))
+	mkdirSync(topicDir, { recursive: true })
+	const stamp = report.generated_at.replace(/[:.]/g, '-')
+	const path = join(topicDir, `${stamp}.json`)
+	writeFileSync(path, JSON.stringify(reportToDict(report), null, 2))
+	return path
+}
+
+/**
+ * Persisted runs of a topic, oldest first. Under the SQLite backend, runs
+ * saved as JSON before the switch are listed too.
+ */
+export function listRuns(topic: string, dir = HISTORY_DIR): HistoryEntry[] {
+	const entries: HistoryEntry[] = []
+	const dbPath = join(dir, HISTORY_DB_FILE)
+	if (getCacheBackend() === 'sqlite' && existsSync(dbPath)) {
+		for (const row of sqliteListRuns(
+			openHistoryDb(dbPath),
+			getTopicSlug(topic),
+		)) {
+			entries.push({
+				path: `${dbPath}#${row.id}`,
+				generated_at: row.generated_at,
+			})
+		}
+	}
+	const topicDir = join(dir, getTopicSlug(topic))
+	if (!existsSync(topicDir)) return entries
+	for (const file of readdirSync(topicDir).sort()) {
+		if (!file.endsWith('.json')) continue
+		const path = join(topicDir, file)
+		try {
+			const data = JSON.parse(readFileSync(path, 'utf-8')) as Record<
+				string,
+				unknown
+			>
+			entries.push({ path, generated_at: String(data.generated_at ?? '') })
+		} catch {
+			// skip unreadable runs
+		}
+	}
+	return entries.sort((a, b) => a.generated_at.localeCompare(b.generated_at))
+}
+
+/**
+ * Load a persisted run.
+ * @throws Error when a SQLite run no longer exists.
+ */
+export function loadRun(path: string): Report {
+	const row = SQLITE_RUN_PATH.exec(path)
+	if (row) {
+		const data = sqliteLoadRun(openHistoryDb(row[1]!), Number(row[2]))
+		if (!data) throw new Error(`No saved run at ${path}`)
+		return reportFromDict(data)
+	}
+	return reportFromDict(
+		JSON.parse(readFileSync(path, 'utf-8')) as Record<string, unknown>,
+	)
+}
+
+/** Flatten a report's items across sources. */
+export function getReportItems(report: Report): HistoryItem[] {
+	return [
+		...getSectionItems(report, 'reddit').map((r) => ({
+			source: 'reddit',
+			id: r.id,
+			title: r.title,
+			url: r.url,
+			score: r.score,
+			engagement: r.engagement,
+		})),
+		...getSectionItems(report, 'x').map((x) => ({
+			source: 'x',
+			id: x.id,
+			title: x.text.slice(0, 100),
+			url: x.url,
+			score: x.score,
+			engagement: x.engagement,
+		})),
+		...getSectionItems(report, 'hn').map((h) => ({
+			source: 'hn',
+			id: h.id,
+			title: h.title,
+			url: h.url,
+			score: h.score,
+			engagement: h.engagement,
+		})),
+		...getSectionItems(report, 'web').map((w) => ({
+			source: 'web',
+			id: w.id,
+			title: w.title,
+			url: w.url,
+			score: w.score,
+			engagement: null,
+		})),
+		...getExtraSections(report).flatMap((section) =>
+			getSectionItems(report, section).map((item) => ({
+				source: section,
+				id: item.id,
+				title: getItemTitle(item).slice(0, 100),
+				url: item.url,
+				score: item.score,
+				engagement: item.engagement ?? null,
+			})),
+		),
+	]
+}
+
+function engagementDelta(
+	prev: Engagement | null,
+	curr: Engagement | null,
+): Record<string, number> {
+	const delta: Record<string, number> = {}
+	if (!prev || !curr) return delta
+	for (const [key, value] of Object.entries(curr)) {
+		const before = prev[key as keyof Engagement]
+		if (typeof value !== 'number' || typeof before !== 'number') continue
+		const d = Math.round((value - before) * 100) / 100
+		if (d !== 0) delta[key] = d
+	}
+	return delta
+}
+
+/** Compare two runs item-by-item, keyed by normalized URL. */
+export function diffReports(previous: Report, current: Report): ReportDiff {
+	const prevByUrl = new Map<string, HistoryItem>()
+	for (const item of getReportItems(previous)) {
+		const key = normalizeUrl(item.url)
+		if (!prevByUrl.has(key)) prevByUrl.set(key, item)
+	}
+
+	const added: HistoryItem[] = []
+	const changed: ChangedItem[] = []
+	let unchanged = 0
+	const seen = new Set<string>()
+
+	for (const item of getReportItems(current)) {
+		const key = normalizeUrl(item.url)
+		if (seen.has(key)) continue
+		seen.add(key)
+
+		const before = prevByUrl.get(key)
+		if (!before) {
+			added.push(item)
+			continue
+		}
+		const scoreDelta = item.score - before.score
+		const engDelta = engagementDelta(before.engagement, item.engagement)
+		if (scoreDelta === 0 && Object.keys(engDelta).length === 0) {
+			unchanged++
+			continue
+		}
+		changed.push({
+			...item,
+			previous_score: before.score,
+			score_delta: scoreDelta,
+			engagement_delta: engDelta,
+		})
+	}
+
+	const dropped = [...prevByUrl.entries()]
+		.filter(([key]) => !seen.has(key))
+		.map(([, item]) => item)
+
+	return {
+		topic: current.topic,
+		previous_generated_at: previous.generated_at,
+		current_generated_at: current.generated_at,
+		added: added.sort((a, b) => b.score - a.score),
+		dropped: dropped.sort((a, b) => b.score - a.score),
+		changed: changed.sort(
+			(a, b) => Math.abs(b.score_delta) - Math.abs(a.score_delta),
+		),
+		unchanged,
+	}
+}
+
+/**
+ * Diff the two most recent runs of a topic.
+ * @returns null when fewer than two runs are recorded.
+ */
+export function diffLatestRuns(
+	topic: string,
+	dir = HISTORY_DIR,
+): ReportDiff | null {
+	const runs = listRuns(topic, dir)
+	if (runs.length < 2) return null
+	const previous = loadRun(runs[runs.length - 2]!.path)
+	const current = loadRun(runs[runs.length - 1]!.path)
+	return diffReports(previous, current)
+}
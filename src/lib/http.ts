@@ -1,5 +1,8 @@
 /** HTTP utilities for last-30-days skill. */
 
+import * as cache from './cache.js'
+import * as cassette from './cassette.js'
+
 const DEFAULT_TIMEOUT = 30_000
 const MAX_RETRIES = 5
 const RETRY_DELAY = 1000
@@ -17,6 +20,16 @@ function log(msg: string): void {
 	}
 }
 
+/**
+ * Sends one HTTP request and returns the raw response, with the same
+ * contract as `fetch`. Wrap `fetchTransport` to route through a proxy or
+ * add headers and logging, or swap in an in-memory fake for tests.
+ */
+export type Transport = (url: string, init: RequestInit) => Promise<Response>
+
+/** Default transport: the global `fetch`, looked up per call. */
+export const fetchTransport: Transport = (url, init) => fetch(url, init)
+
 /** HTTP request error with status code. */
 export class HTTPError extends Error {
 	status_code: number | null
@@ -51,6 +64,28 @@ export class HTTPError extends Error {
 	}
 }
 
+/** Request skipped because the host's circuit breaker is open. */
+export class CircuitOpenError extends HTTPError {
+	host: string
+	failures: number
+	/** When the cooldown ends (ISO 8601). */
+	retry_at: string
+
+	constructor(host: string, failures: number, retryAt: number, url: string) {
+		const retryIso = new Date(retryAt).toISOString()
+		super(
+			`Circuit open for ${host} after ${failures} consecutive failures (retry after ${retryIso})`,
+			null,
+			null,
+			{ url },
+		)
+		this.name = 'CircuitOpenError'
+		this.host = host
+		this.failures = failures
+		this.retry_at = retryIso
+	}
+}
+
 /** HTTP 429 error with retry metadata. */
 export class RateLimitError extends HTTPError {
 	retries_attempted: number
@@ -214,22 +249,346 @@ function getRateLimitDelayMs(attempt: number, headers: Headers): number {
 	return Math.min(MAX_RETRY_DELAY, Math.max(backoffDelay(attempt), hintedMs))
 }
 
-/** Make an HTTP request and return JSON response. */
+/**
+ * Default client-side limits in requests per minute, keyed by host
+ * (subdomains match, so "reddit.com" covers www.reddit.com).
+ */
+export const DEFAULT_RATE_LIMITS: Readonly<Record<string, number>> = {
+	'api.openai.com': 60,
+	'api.x.ai': 60,
+	'reddit.com': 30,
+}
+
+/** Seconds of traffic a full bucket allows in one burst. */
+const RATE_LIMIT_BURST_SECONDS = 10
+
+interface TokenBucket {
+	rpm: number
+	capacity: number
+	/** May go negative: requests already waiting for a token. */
+	tokens: number
+	updatedAt: number
+	/** Provider said it has nothing left until this time. */
+	blockedUntil: number
+}
+
+let rateLimits: Record<string, number> = { ...DEFAULT_RATE_LIMITS }
+const buckets = new Map<string, TokenBucket>()
+
+/**
+ * Parse a rate limit spec like "api.openai.com=500,reddit.com=10" into
+ * requests per minute by host. 0 disables limiting for that host.
+ */
+export function parseRateLimits(spec: string): Record<string, number> {
+	const limits: Record<string, number> = {}
+	for (const part of spec.split(',')) {
+		if (!part.trim()) continue
+		const [rawHost = '', rawValue = ''] = part.split('=', 2)
+		const host = rawHost.trim().toLowerCase()
+		const rpm = Number(rawValue.trim())
+		if (!host || !rawValue.trim() || !Number.isFinite(rpm) || rpm < 0) {
+			throw new Error(
+				`Invalid rate limit: "${part.trim()}" (expected host=rpm)`,
+			)
+		}
+		limits[host] = rpm
+	}
+	return limits
+}
+
+/**
+ * Replace per-host limits (merged over the defaults). Pass `{}` to restore
+ * the defaults.
+ */
+export function setRateLimits(limits: Record<string, number>): void {
+	rateLimits = { ...DEFAULT_RATE_LIMITS, ...limits }
+	// Keep pacing state across runs unless a host's limit changed
+	for (const [key, bucket] of buckets) {
+		if (rateLimits[key] !== bucket.rpm) buckets.delete(key)
+	}
+}
+
+/** Current per-host limits in requests per minute. */
+export function getRateLimits(): Record<string, number> {
+	return { ...rateLimits }
+}
+
+function rateLimitKey(url: string): string | null {
+	let host: string
+	try {
+		host = new URL(url).hostname.toLowerCase()
+	} catch {
+		return null
+	}
+	for (const key of Object.keys(rateLimits)) {
+		if (host === key || host.endsWith(`.${key}`)) return key
+	}
+	return null
+}
+
+function getBucket(key: string, now: number): TokenBucket | null {
+	const rpm = rateLimits[key] ?? 0
+	if (rpm <= 0) return null
+	let bucket = buckets.get(key)
+	if (!bucket) {
+		const capacity = Math.max(
+			1,
+			Math.floor((rpm * RATE_LIMIT_BURST_SECONDS) / 60),
+		)
+		bucket = {
+			rpm,
+			capacity,
+			tokens: capacity,
+			updatedAt: now,
+			blockedUntil: 0,
+		}
+		buckets.set(key, bucket)
+	}
+	const refill = ((now - bucket.updatedAt) * bucket.rpm) / 60_000
+	bucket.tokens = Math.min(bucket.capacity, bucket.tokens + refill)
+	bucket.updatedAt = now
+	return bucket
+}
+
+/**
+ * Reserve a token for a request to `url`.
+ * @returns Milliseconds to wait before sending (0 when under the limit or
+ *   the host has no limit).
+ */
+export function reserveRateLimit(
+	url: string,
+	now: number = Date.now(),
+): number {
+	const key = rateLimitKey(url)
+	const bucket = key ? getBucket(key, now) : null
+	if (!bucket) return 0
+	bucket.tokens -= 1
+	const refillWait =
+		bucket.tokens >= 0 ? 0 : (-bucket.tokens * 60_000) / bucket.rpm
+	return Math.ceil(Math.max(refillWait, bucket.blockedUntil - now))
+}
+
+/**
+ * Learn from provider rate limit headers: OpenAI/xAI
+ * `x-ratelimit-remaining-{requests,tokens}` with matching resets, and
+ * reddit.com's `x-ratelimit-remaining` / `x-ratelimit-reset` (seconds).
+ * When the provider reports nothing left, hold the host until its reset.
+ */
+export function observeRateLimitHeaders(
+	url: string,
+	headers: Headers,
+	now: number = Date.now(),
+): void {
+	const key = rateLimitKey(url)
+	const bucket = key ? getBucket(key, now) : null
+	if (!bucket) return
+
+	const pairs: [string, number | null][] = [
+		[
+			'x-ratelimit-remaining-requests',
+			parseRateLimitResetMs(headers.get('x-ratelimit-reset-requests')),
+		],
+		[
+			'x-ratelimit-remaining-tokens',
+			parseRateLimitResetMs(headers.get('x-ratelimit-reset-tokens')),
+		],
+		[
+			'x-ratelimit-remaining',
+			parseRetryAfterMs(headers.get('x-ratelimit-reset')),
+		],
+	]
+	for (const [name, resetMs] of pairs) {
+		const raw = headers.get(name)
+		if (raw == null || raw.trim() === '') continue
+		const remaining = Number(raw)
+		if (!Number.isFinite(remaining)) continue
+		if (name.endsWith('-requests') || name === 'x-ratelimit-remaining') {
+			bucket.tokens = Math.min(bucket.tokens, remaining)
+		}
+		if (remaining < 1 && resetMs) {
+			bucket.blockedUntil = Math.max(bucket.blockedUntil, now + resetMs)
+		}
+	}
+}
+
+const DEFAULT_CIRCUIT_THRESHOLD = 3
+const DEFAULT_CIRCUIT_COOLDOWN_MINUTES = 15
+
+function parsePositiveEnv(name: string, fallback: number): number {
+	const n = Number(process.env[name])
+	return Number.isFinite(n) && n > 0 ? n : fallback
+}
+
+/** Consecutive failed requests that open a host's circuit. */
+export function getCircuitThreshold(): number {
+	return Math.floor(
+		parsePositiveEnv(
+			'LAST_30_DAYS_CIRCUIT_THRESHOLD',
+			DEFAULT_CIRCUIT_THRESHOLD,
+		),
+	)
+}
+
+/** How long an open circuit short-circuits requests, in milliseconds. */
+export function getCircuitCooldownMs(): number {
+	return (
+		parsePositiveEnv(
+			'LAST_30_DAYS_CIRCUIT_COOLDOWN_MINUTES',
+			DEFAULT_CIRCUIT_COOLDOWN_MINUTES,
+		) * 60_000
+	)
+}
+
+function circuitHost(url: string): string | null {
+	try {
+		return new URL(url).hostname.toLowerCase()
+	} catch {
+		return null
+	}
+}
+
+/**
+ * How long a half-open trial request may run before another caller is
+ * allowed to take its place (it may have died without reporting back).
+ */
+const CIRCUIT_TRIAL_TIMEOUT_MS = 5 * 60_000
+
+/** When `record`'s circuit next lets a request through, or null if now. */
+function circuitRetryAt(
+	record: cache.CircuitRecord | undefined,
+	now: number,
+): number | null {
+	if (!record?.opened_at) return null
+	const cooledAt = record.opened_at + getCircuitCooldownMs()
+	if (now < cooledAt) return cooledAt
+	const trialEndsAt = (record.trial_at ?? 0) + CIRCUIT_TRIAL_TIMEOUT_MS
+	return record.trial_at != null && now < trialEndsAt ? trialEndsAt : null
+}
+
+/**
+ * The open circuit for `url`'s host, or null if a request may go through.
+ * A circuit past its cooldown is half-open: it stays closed to everyone
+ * while a trial request is in flight. Read-only; `request()` claims the
+ * trial through `enterCircuit()`.
+ */
+export function getOpenCircuit(
+	url: string,
+	now: number = Date.now(),
+): CircuitOpenError | null {
+	const host = circuitHost(url)
+	if (!host) return null
+	const record = cache.loadCircuitState()[host]
+	const retryAt = circuitRetryAt(record, now)
+	if (!record || retryAt === null) return null
+	return new CircuitOpenError(host, record.failures, retryAt, url)
+}
+
+/**
+ * Like `getOpenCircuit()`, but when the circuit is half-open with no trial
+ * running, marks this call as the trial. The trial's outcome, via
+ * `recordCircuitResult()`, closes the circuit or reopens it for another
+ * cooldown.
+ */
+function enterCircuit(url: string, now: number): CircuitOpenError | null {
+	const host = circuitHost(url)
+	if (!host) return null
+	const state = cache.loadCircuitState()
+	const record = state[host]
+	if (!record?.opened_at) return null
+	const retryAt = circuitRetryAt(record, now)
+	if (retryAt !== null) {
+		return new CircuitOpenError(host, record.failures, retryAt, url)
+	}
+	state[host] = { ...record, trial_at: now }
+	cache.saveCircuitState(state)
+	return null
+}
+
+/** Whether an error means the provider is down, not that we sent a bad request. */
+function isProviderFailure(err: unknown): boolean {
+	if (err instanceof RateLimitError) return err.retryable
+	if (err instanceof HTTPError) {
+		return err.status_code == null || err.status_code >= 500
+	}
+	return false
+}
+
+/**
+ * Update `url`'s host circuit after a request: provider failures extend the
+ * streak (opening the circuit at the threshold), anything else resets it.
+ */
+export function recordCircuitResult(
+	url: string,
+	err: unknown,
+	now: number = Date.now(),
+): void {
+	const host = circuitHost(url)
+	if (!host) return
+	const state = cache.loadCircuitState()
+	if (!isProviderFailure(err)) {
+		if (!state[host]) return
+		delete state[host]
+		cache.saveCircuitState(state)
+		return
+	}
+	const failures = (state[host]?.failures ?? 0) + 1
+	const opened = failures >= getCircuitThreshold()
+	state[host] = {
+		failures,
+		opened_at: opened ? now : null,
+		last_error: err instanceof Error ? err.message : String(err),
+	}
+	if (opened) log(`Circuit open for ${host} after ${failures} failures`)
+	cache.saveCircuitState(state)
+}
+
+/** Options for `request()`. */
+interface RequestOptions {
+	headers?: Record<string, string>
+	jsonData?: Record<string, unknown>
+	timeout?: number
+	retries?: number
+	transport?: Transport
+}
+
+/**
+ * Make an HTTP request and return JSON response. Requests to a host whose
+ * circuit is open fail fast with `CircuitOpenError`.
+ */
 export async function request(
 	method: string,
 	url: string,
-	options: {
-		headers?: Record<string, string>
-		jsonData?: Record<string, unknown>
-		timeout?: number
-		retries?: number
-	} = {},
+	options: RequestOptions = {},
+): Promise<Record<string, unknown>> {
+	if (cassette.getCassette()?.mode === 'replay') {
+		return sendWithRetries(method, url, options)
+	}
+	const open = enterCircuit(url, Date.now())
+	if (open) {
+		log(open.message)
+		throw open
+	}
+	try {
+		const result = await sendWithRetries(method, url, options)
+		recordCircuitResult(url, null)
+		return result
+	} catch (err) {
+		if (!(err instanceof cassette.CassetteError)) recordCircuitResult(url, err)
+		throw err
+	}
+}
+
+async function sendWithRetries(
+	method: string,
+	url: string,
+	options: RequestOptions,
 ): Promise<Record<string, unknown>> {
 	const {
 		headers: inputHeaders = {},
 		jsonData,
 		timeout = DEFAULT_TIMEOUT,
 		retries = MAX_RETRIES,
+		transport = fetchTransport,
 	} = options
 
 	const headers: Record<string, string> = {
@@ -251,24 +610,41 @@ export async function request(
 	for (let attempt = 0; attempt < retries; attempt++) {
 		const isFinalAttempt = attempt >= retries - 1
 		try {
+			const tape = cassette.getCassette()
+			if (tape?.mode !== 'replay') {
+				const waitMs = reserveRateLimit(url)
+				if (waitMs > 0) {
+					log(`Rate limit pacing: waiting ${waitMs}ms before ${url}`)
+					await sleep(waitMs)
+				}
+			}
+
 			const controller = new AbortController()
 			const timer = setTimeout(() => controller.abort(), timeout)
 			let responseBody = ''
 			let response: Response
 
 			try {
-				response = await fetch(url, {
-					method,
-					headers,
-					body,
-					signal: controller.signal,
-				})
+				response =
+					tape?.mode === 'replay'
+						? cassette.replayInteraction(method, url, body)
+						: await transport(url, {
+								method,
+								headers,
+								body,
+								signal: controller.signal,
+							})
 				responseBody = await response.text()
+				if (tape?.mode === 'record') {
+					cassette.recordInteraction(method, url, body, response, responseBody)
+				}
 			} finally {
 				clearTimeout(timer)
 			}
 
 			log(`Response: ${response.status} (${responseBody.length} bytes)`)
+			if (tape?.mode !== 'replay')
+				observeRateLimitHeaders(url, response.headers)
 
 			if (!response.ok) {
 				const meta = parseErrorMeta(responseBody)
@@ -326,6 +702,7 @@ export async function request(
 				? (JSON.parse(responseBody) as Record<string, unknown>)
 				: {}
 		} catch (err) {
+			if (err instanceof cassette.CassetteError) throw err
 			if (err instanceof RateLimitError) {
 				lastError = err
 				if (!err.retryable) throw err
@@ -390,7 +767,7 @@ function sleep(ms: number): Promise<void> {
 export async function get(
 	url: string,
 	headers?: Record<string, string>,
-	options?: { timeout?: number },
+	options?: { timeout?: number; transport?: Transport },
 ): Promise<Record<string, unknown>> {
 	return request('GET', url, { headers, ...options })
 }
@@ -400,22 +777,29 @@ export async function post(
 	url: string,
 	jsonData: Record<string, unknown>,
 	headers?: Record<string, string>,
-	options?: { timeout?: number },
+	options?: { timeout?: number; transport?: Transport },
 ): Promise<Record<string, unknown>> {
 	return request('POST', url, { headers, jsonData, ...options })
 }
 
-/** Fetch Reddit thread JSON. */
+/** Fetch Reddit JSON (threads, listings, search) with optional query params. */
 export async function getRedditJson(
 	path: string,
+	params: Record<string, string> = {},
+	transport?: Transport,
 ): Promise<Record<string, unknown>> {
 	let normalizedPath = path.startsWith('/') ? path : `/${path}`
 	normalizedPath = normalizedPath.replace(/\/+$/, '')
 	if (!normalizedPath.endsWith('.json')) normalizedPath += '.json'
 
-	const url = `https://www.reddit.com${normalizedPath}?raw_json=1`
-	return get(url, {
-		'User-Agent': USER_AGENT,
-		Accept: 'application/json',
-	})
+	const query = new URLSearchParams({ ...params, raw_json: '1' })
+	const url = `https://www.reddit.com${normalizedPath}?${query}`
+	return get(
+		url,
+		{
+			'User-Agent': USER_AGENT,
+			Accept: 'application/json',
+		},
+		{ transport },
+	)
 }
@@ -35,6 +35,7 @@ export async function selectOpenaiModel(
 	policy = 'auto',
 	pin: string | null = null,
 	mockModels: Record<string, unknown>[] | null = null,
+	transport?: http.Transport,
 ): Promise<string> {
 	if (policy === 'pinned' && pin) return pin
 
@@ -47,7 +48,9 @@ export async function selectOpenaiModel(
 	} else {
 		try {
 			const headers = { Authorization: `Bearer ${apiKey}` }
-			const response = await http.get(OPENAI_MODELS_URL, headers)
+			const response = await http.get(OPENAI_MODELS_URL, headers, {
+				transport,
+			})
 			models = (response.data as Record<string, unknown>[]) ?? []
 		} catch {
 			return OPENAI_FALLBACK_MODELS[0]!
@@ -100,6 +103,7 @@ export async function getModels(
 	config: Record<string, string | null>,
 	mockOpenaiModels: Record<string, unknown>[] | null = null,
 	mockXaiModels: Record<string, unknown>[] | null = null,
+	transport?: http.Transport,
 ): Promise<Record<string, string | null>> {
 	const result: Record<string, string | null> = { openai: null, xai: null }
 
@@ -109,6 +113,7 @@ export async function getModels(
 			config.OPENAI_MODEL_POLICY ?? 'auto',
 			config.OPENAI_MODEL_PIN ?? null,
 			mockOpenaiModels,
+			transport,
 		)
 	}
 
@@ -2,12 +2,14 @@
 
 import { getDateConfidence } from './dates.js'
 import {
+	type BaseItem,
 	type Comment,
+	defaultHackerNewsItem,
 	defaultRedditItem,
 	defaultXItem,
 	type Engagement,
+	type HackerNewsItem,
 	type RedditItem,
-	type WebSearchItem,
 	type XItem,
 } from './schema.js'
 
@@ -15,7 +17,7 @@ import {
  * Hard filter: Remove items outside the date range.
  * This is the safety net - even if the prompt lets old content through.
  */
-export function filterByDateRange<T extends RedditItem | XItem | WebSearchItem>(
+export function filterByDateRange<T extends BaseItem>(
 	items: T[],
 	fromDate: string,
 	toDate: string,
@@ -114,3 +116,49 @@ export function normalizeXItems(
 		})
 	})
 }
+
+/** Normalize raw Hacker News items to schema. */
+export function normalizeHackerNewsItems(
+	items: Record<string, unknown>[],
+	fromDate: string,
+	toDate: string,
+): HackerNewsItem[] {
+	return items.map((item) => {
+		let engagement: Engagement | null = null
+		const engRaw = item.engagement as Record<string, unknown> | undefined
+		if (engRaw && typeof engRaw === 'object') {
+			engagement = {
+				points: (engRaw.points as number) ?? null,
+				num_comments: (engRaw.num_comments as number) ?? null,
+			}
+		}
+
+		const topComments: Comment[] = (
+			(item.top_comments as Record<string, unknown>[]) ?? []
+		).map((c) => ({
+			score: (c.score as number) ?? 0,
+			date: (c.date as string | null) ?? null,
+			author: (c.author as string) ?? '',
+			excerpt: (c.excerpt as string) ?? '',
+			url: (c.url as string) ?? '',
+		}))
+
+		const dateStr = (item.date as string | null) ?? null
+		const dateConfidence = getDateConfidence(dateStr, fromDate, toDate)
+
+		return defaultHackerNewsItem({
+			id: (item.id as string) ?? '',
+			title: (item.title as string) ?? '',
+			url: (item.url as string) ?? '',
+			story_url: (item.story_url as string | null) ?? null,
+			author: (item.author as string) ?? '',
+			date: dateStr,
+			date_confidence: dateConfidence,
+			engagement,
+			top_comments: topComments,
+			comment_insights: (item.comment_insights as string[]) ?? [],
+			relevance: (item.relevance as number) ?? 0.5,
+			why_relevant: (item.why_relevant as string) ?? '',
+		})
+	})
+}
@@ -1,14 +1,43 @@
 /** OpenAI Responses API client for Reddit discovery. */
 
 import * as http from './http.js'
+import type { ParseDiagnostics } from './schema.js'
+import {
+	addParseIssue,
+	checkItemDate,
+	checkItemUrl,
+	checkResponseComplete,
+	extractItemsJson,
+	extractOutputText,
+	isResponseFormatError,
+	itemsResponseFormat,
+} from './validate.js'
 
 /** Fallback models when the selected model isn't accessible. */
 const MODEL_FALLBACK_ORDER = ['gpt-4o', 'gpt-4o-mini']
 
 const OPENAI_RESPONSES_URL = 'https://api.openai.com/v1/responses'
 
-/** Cache-busting version for Reddit search prompt behavior. */
-export const REDDIT_PROMPT_VERSION = '2026-02-11-v1'
+/**
+ * Cache-busting version for Reddit search prompt behavior. Bump when
+ * REDDIT_SEARCH_PROMPT or REDDIT_ITEM_SCHEMA changes.
+ */
+export const REDDIT_PROMPT_VERSION = '2026-10-19-v2'
+
+/** JSON schema for one thread in the structured Reddit response. */
+export const REDDIT_ITEM_SCHEMA: Record<string, unknown> = {
+	type: 'object',
+	properties: {
+		title: { type: 'string' },
+		url: { type: 'string' },
+		subreddit: { type: 'string' },
+		date: { type: ['string', 'null'] },
+		why_relevant: { type: 'string' },
+		relevance: { type: 'number' },
+	},
+	required: ['title', 'url', 'subreddit', 'date', 'why_relevant', 'relevance'],
+	additionalProperties: false,
+}
 
 /** Depth configurations: [min, max] threads to request. */
 const DEPTH_CONFIG: Record<string, [number, number]> = {
@@ -67,6 +96,11 @@ export function supportsWebSearchFilters(model: string): boolean {
 	return false
 }
 
+/** Models known to support a strict `json_schema` response format. */
+export function supportsStructuredOutputs(model: string): boolean {
+	return /^(gpt-4o|gpt-4\.1|gpt-5|o[134])/.test(model.toLowerCase())
+}
+
 /** Check if error is due to model access/verification or feature-incompatibility issues. */
 export function isModelAccessError(error: http.HTTPError): boolean {
 	if (error.status_code === 404) return true
@@ -122,6 +156,7 @@ export async function searchReddit(
 	toDate: string,
 	depth = 'default',
 	mockResponse: Record<string, unknown> | null = null,
+	transport?: http.Transport,
 ): Promise<Record<string, unknown>> {
 	if (mockResponse !== null) return mockResponse
 
@@ -148,29 +183,40 @@ export async function searchReddit(
 
 	let lastError: http.HTTPError | null = null
 
-	for (const currentModel of modelsToTry) {
+	modelLoop: for (const currentModel of modelsToTry) {
 		const webSearchTool: Record<string, unknown> = { type: 'web_search' }
 		if (supportsWebSearchFilters(currentModel)) {
 			webSearchTool.filters = { allowed_domains: ['reddit.com'] }
 		}
 
-		const payload = {
-			model: currentModel,
-			tools: [webSearchTool],
-			include: ['web_search_call.action.sources'],
-			input: inputText,
-		}
-
-		try {
-			return await http.post(OPENAI_RESPONSES_URL, payload, headers, {
-				timeout,
-			})
-		} catch (e) {
-			if (e instanceof http.HTTPError) {
-				lastError = e
-				if (isModelAccessError(e)) continue
+		// Strict JSON first where supported; the prompt still describes the
+		// format, so the text fallback parses the same way.
+		const formats = supportsStructuredOutputs(currentModel)
+			? [itemsResponseFormat('reddit_threads', REDDIT_ITEM_SCHEMA), null]
+			: [null]
+
+		for (const format of formats) {
+			const payload: Record<string, unknown> = {
+				model: currentModel,
+				tools: [webSearchTool],
+				include: ['web_search_call.action.sources'],
+				input: inputText,
+			}
+			if (format) payload.text = { format }
+
+			try {
+				return await http.post(OPENAI_RESPONSES_URL, payload, headers, {
+					timeout,
+					transport,
+				})
+			} catch (e) {
+				if (e instanceof http.HTTPError) {
+					lastError = e
+					if (format && isResponseFormatError(e)) continue
+					if (isModelAccessError(e)) continue modelLoop
+				}
+				throw e
 			}
-			throw e
 		}
 	}
 
@@ -184,75 +230,45 @@ function safeRelevance(val: unknown): number {
 	return Number.isFinite(n) ? Math.min(1.0, Math.max(0.0, n)) : 0.5
 }
 
-/** Parse OpenAI response to extract Reddit items. */
+/**
+ * Parse OpenAI response to extract Reddit items.
+ * @param diagnostics Filled with why items were dropped or repaired.
+ */
 export function parseRedditResponse(
 	response: Record<string, unknown>,
+	diagnostics?: ParseDiagnostics,
 ): Record<string, unknown>[] {
 	// Check for API errors
 	if (response.error) return []
 
-	// Find output text
-	let outputText = ''
-	if (response.output) {
-		const output = response.output
-		if (typeof output === 'string') {
-			outputText = output
-		} else if (Array.isArray(output)) {
-			for (const item of output) {
-				if (item && typeof item === 'object') {
-					const obj = item as Record<string, unknown>
-					if (obj.type === 'message') {
-						const content = obj.content as Record<string, unknown>[]
-						for (const c of content ?? []) {
-							if (c?.type === 'output_text') {
-								outputText = (c.text as string) ?? ''
-								break
-							}
-						}
-					} else if (typeof obj.text === 'string') {
-						outputText = obj.text
-					}
-				} else if (typeof item === 'string') {
-					outputText = item
-				}
-				if (outputText) break
-			}
-		}
-	}
-
-	// Check choices (older format)
-	if (!outputText && response.choices) {
-		for (const choice of response.choices as Record<string, unknown>[]) {
-			const message = choice.message as Record<string, unknown> | undefined
-			if (message) {
-				outputText = (message.content as string) ?? ''
-				break
-			}
-		}
-	}
-
+	const outputText = extractOutputText(response)
+	if (diagnostics) diagnostics.output_chars = outputText.length
+	checkResponseComplete(response, diagnostics)
 	if (!outputText) return []
 
 	// Extract JSON from the response
-	const jsonMatch = outputText.match(/\{[\s\S]*"items"[\s\S]*\}/)
-	let items: Record<string, unknown>[] = []
-	if (jsonMatch) {
-		try {
-			const data = JSON.parse(jsonMatch[0]) as Record<string, unknown>
-			items = (data.items as Record<string, unknown>[]) ?? []
-		} catch {
-			// ignore parse errors
-		}
-	}
+	const items = (extractItemsJson(outputText, diagnostics) ?? []) as Record<
+		string,
+		unknown
+	>[]
+	if (diagnostics) diagnostics.received = items.length
 
 	// Validate and clean items
 	const cleanItems: Record<string, unknown>[] = []
 	for (let i = 0; i < items.length; i++) {
 		const item = items[i]
-		if (!item || typeof item !== 'object') continue
+		if (!item || typeof item !== 'object') {
+			addParseIssue(
+				diagnostics,
+				'not_an_object',
+				i,
+				`item is ${item === null ? 'null' : typeof item}`,
+			)
+			continue
+		}
 
 		const url = String(item.url ?? '')
-		if (!url || !url.includes('reddit.com')) continue
+		if (!checkItemUrl(url, i, diagnostics, ['reddit.com'])) continue
 
 		const cleanItem: Record<string, unknown> = {
 			id: `R${i + 1}`,
@@ -261,18 +277,14 @@ export function parseRedditResponse(
 			subreddit: String(item.subreddit ?? '')
 				.trim()
 				.replace(/^r\//, ''),
-			date: item.date ?? null,
+			date: checkItemDate(item.date, i, diagnostics),
 			why_relevant: String(item.why_relevant ?? '').trim(),
 			relevance: safeRelevance(item.relevance),
 		}
 
-		// Validate date format
-		if (cleanItem.date && !/^\d{4}-\d{2}-\d{2}$/.test(String(cleanItem.date))) {
-			cleanItem.date = null
-		}
-
 		cleanItems.push(cleanItem)
 	}
 
+	if (diagnostics) diagnostics.accepted = cleanItems.length
 	return cleanItems
 }
@@ -18,6 +18,7 @@ export function extractRedditPath(url: string): string | null {
 export async function fetchThreadData(
 	url: string,
 	mockData: unknown | null = null,
+	transport?: http.Transport,
 ): Promise<unknown | null> {
 	if (mockData !== null) return mockData
 
@@ -25,7 +26,7 @@ export async function fetchThreadData(
 	if (!path) return null
 
 	try {
-		return await http.getRedditJson(path)
+		return await http.getRedditJson(path, {}, transport)
 	} catch {
 		return null
 	}
@@ -151,10 +152,11 @@ export function extractCommentInsights(
 export async function enrichRedditItem(
 	item: Record<string, unknown>,
 	mockThreadData: unknown | null = null,
+	transport?: http.Transport,
 ): Promise<Record<string, unknown>> {
 	const url = (item.url as string) ?? ''
 
-	const threadData = await fetchThreadData(url, mockThreadData)
+	const threadData = await fetchThreadData(url, mockThreadData, transport)
 	if (!threadData) return item
 
 	const parsed = parseThreadData(threadData)
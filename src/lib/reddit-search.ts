@@ -0,0 +1,168 @@
+/** Keyless Reddit discovery via reddit.com's public search JSON. */
+
+import { timestampToDate } from './dates.js'
+import * as http from './http.js'
+import { computeRelevance } from './score.js'
+
+/** Cache-busting version for public Reddit search behavior. */
+export const REDDIT_SEARCH_VERSION = '2026-10-19-v2'
+
+/**
+ * Depth configurations: result limit (per listing and for the merged
+ * results), subreddits to drill into, and threads to enrich. Mirrors the
+ * item counts of the OpenAI path.
+ */
+const DEPTH_CONFIG: Record<
+	string,
+	{ limit: number; subreddits: number; enrich: number }
+> = {
+	quick: { limit: 25, subreddits: 0, enrich: 15 },
+	default: { limit: 50, subreddits: 2, enrich: 30 },
+	deep: { limit: 100, subreddits: 4, enrich: 70 },
+}
+
+/** How many threads to fetch comments for at this depth. */
+export function getEnrichLimit(depth: string): number {
+	return (DEPTH_CONFIG[depth] ?? DEPTH_CONFIG.default!).enrich
+}
+
+/** Map a lookback window to Reddit's `t` (time) filter. */
+export function getTimeFilter(days: number): string {
+	if (days <= 1) return 'day'
+	if (days <= 7) return 'week'
+	if (days <= 31) return 'month'
+	return 'year'
+}
+
+/** Extract post data from a Reddit search listing. */
+function listingPosts(listing: unknown): Record<string, unknown>[] {
+	if (!listing || typeof listing !== 'object') return []
+	const data = (listing as Record<string, unknown>).data as
+		| Record<string, unknown>
+		| undefined
+	const children = Array.isArray(data?.children) ? data.children : []
+	const posts: Record<string, unknown>[] = []
+	for (const child of children) {
+		const c = child as Record<string, unknown> | null
+		if (!c || c.kind !== 't3' || !c.data || typeof c.data !== 'object') {
+			continue
+		}
+		posts.push(c.data as Record<string, unknown>)
+	}
+	return posts
+}
+
+/** Most frequent subreddits in a listing, for per-subreddit follow-up. */
+export function getTopSubreddits(listing: unknown, limit = 2): string[] {
+	const counts = new Map<string, number>()
+	for (const post of listingPosts(listing)) {
+		const sub = String(post.subreddit ?? '')
+		if (sub) counts.set(sub, (counts.get(sub) ?? 0) + 1)
+	}
+	return [...counts.entries()]
+		.sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+		.slice(0, limit)
+		.map(([sub]) => sub)
+}
+
+/**
+ * Search Reddit directly: a sitewide top-of-period search, then the same
+ * query restricted to the subreddits that dominated the sitewide results.
+ */
+export async function searchRedditPublic(
+	topic: string,
+	days: number,
+	depth = 'default',
+	mockResponse: Record<string, unknown> | null = null,
+	transport?: http.Transport,
+): Promise<Record<string, unknown>> {
+	if (mockResponse !== null) return mockResponse
+
+	const { limit, subreddits } = DEPTH_CONFIG[depth] ?? DEPTH_CONFIG.default!
+	const params = {
+		q: topic,
+		sort: 'top',
+		t: getTimeFilter(days),
+		limit: String(limit),
+		type: 'link',
+	}
+
+	const sitewide = await http.getRedditJson('/search', params, transport)
+	const listings: unknown[] = [sitewide]
+
+	// Sequential to stay gentle on reddit.com's unauthenticated rate limit
+	for (const sub of getTopSubreddits(sitewide, subreddits)) {
+		try {
+			listings.push(
+				await http.getRedditJson(
+					`/r/${encodeURIComponent(sub)}/search`,
+					{ ...params, restrict_sr: '1' },
+					transport,
+				),
+			)
+		} catch {
+			// sitewide results are enough on their own
+		}
+	}
+
+	return { query: topic, limit, listings }
+}
+
+/**
+ * Parse public search listings into raw Reddit items, deduped by permalink.
+ * When the response carries a `limit`, keeps only that many of the
+ * highest-scoring posts across all listings.
+ */
+export function parseRedditSearchResponse(
+	response: Record<string, unknown>,
+): Record<string, unknown>[] {
+	if (response.error) return []
+	const listings = Array.isArray(response.listings) ? response.listings : []
+	const query = String(response.query ?? '')
+	const limit =
+		typeof response.limit === 'number' && response.limit > 0
+			? response.limit
+			: null
+	const num = (v: unknown) =>
+		typeof v === 'number' && Number.isFinite(v) ? v : null
+
+	const seen = new Set<string>()
+	let posts: Record<string, unknown>[] = []
+	for (const listing of listings) {
+		for (const post of listingPosts(listing)) {
+			const permalink = String(post.permalink ?? '')
+			const title = String(post.title ?? '').trim()
+			if (!permalink || !title || seen.has(permalink)) continue
+			seen.add(permalink)
+			posts.push(post)
+		}
+	}
+	if (limit !== null && posts.length > limit) {
+		// Array sort is stable, so equal scores keep sitewide order
+		posts = posts
+			.sort((a, b) => (num(b.score) ?? 0) - (num(a.score) ?? 0))
+			.slice(0, limit)
+	}
+
+	const items: Record<string, unknown>[] = []
+	for (const post of posts) {
+		const permalink = String(post.permalink ?? '')
+		const title = String(post.title ?? '').trim()
+		const subreddit = String(post.subreddit ?? '')
+		items.push({
+			id: `R${items.length + 1}`,
+			title,
+			url: `https://www.reddit.com${permalink}`,
+			subreddit,
+			date: timestampToDate(num(post.created_utc)),
+			engagement: {
+				score: num(post.score),
+				num_comments: num(post.num_comments),
+				upvote_ratio: num(post.upvote_ratio),
+			},
+			why_relevant: query ? `Top r/${subreddit} post matching "${query}"` : '',
+			relevance: computeRelevance(query, title),
+		})
+	}
+	return items
+}
@@ -1,33 +1,42 @@
 /** Output rendering for last-30-days skill. */
 
+import { createHash } from 'node:crypto'
 import { mkdirSync, unlinkSync, writeFileSync } from 'node:fs'
 import { homedir } from 'node:os'
 import { join } from 'node:path'
 
-import type { Report } from './schema.js'
-import { reportToDict } from './schema.js'
+import type { CacheEntryInfo, CacheStats } from './cache.js'
+import { CACHE_ENTRY_KINDS } from './cache.js'
+import type { HistoryItem, ReportDiff } from './history.js'
+import { getTopicSlug } from './history.js'
+import type {
+	BaseItem,
+	Engagement,
+	Report,
+	ScoreExplain,
+	SubScores,
+} from './schema.js'
+import {
+	getAllItems,
+	getExtraSections,
+	getItemTitle,
+	getSectionItems,
+	reportToDict,
+} from './schema.js'
+import { getSectionLabel } from './sources.js'
+import { normalizeUrl } from './url.js'
 
 const OUTPUT_DIR = join(homedir(), '.local', 'share', 'last-30-days', 'out')
 
 /** Assess how much data is actually from the configured date range. */
 function assessDataFreshness(report: Report) {
-	const redditRecent = report.reddit.filter(
-		(r) => r.date && r.date >= report.range_from,
+	const items = getAllItems(report)
+	const totalRecent = items.filter(
+		(item) => item.date && item.date >= report.range_from,
 	).length
-	const xRecent = report.x.filter(
-		(x) => x.date && x.date >= report.range_from,
-	).length
-	const webRecent = report.web.filter(
-		(w) => w.date && w.date >= report.range_from,
-	).length
-
-	const totalRecent = redditRecent + xRecent + webRecent
-	const totalItems = report.reddit.length + report.x.length + report.web.length
+	const totalItems = items.length
 
 	return {
-		redditRecent,
-		xRecent,
-		webRecent,
 		totalRecent,
 		totalItems,
 		isSparse: totalRecent < 5,
@@ -40,8 +49,13 @@ export function renderCompact(
 	report: Report,
 	limit = 15,
 	missingKeys = 'none',
+	explain = false,
 ): string {
 	const lines: string[] = []
+	const redditItems = getSectionItems(report, 'reddit')
+	const xItems = getSectionItems(report, 'x')
+	const hnItems = getSectionItems(report, 'hn')
+	const webItems = getSectionItems(report, 'web')
 
 	lines.push(`## Research Results: ${report.topic}`)
 	lines.push('')
@@ -88,6 +102,8 @@ export function renderCompact(
 
 	lines.push(`**Date Range:** ${report.range_from} to ${report.range_to}`)
 	lines.push(`**Mode:** ${report.mode}`)
+	if (report.scoring_profile && report.scoring_profile.name !== 'default')
+		lines.push(`**Scoring:** ${report.scoring_profile.name}`)
 	if (report.openai_model_used)
 		lines.push(`**OpenAI Model:** ${report.openai_model_used}`)
 	if (report.xai_model_used)
@@ -107,16 +123,16 @@ export function renderCompact(
 	}
 
 	// Reddit items
-	if (report.reddit_error) {
+	if (report.errors.reddit) {
 		lines.push(
 			'### Reddit Threads',
 			'',
-			`**ERROR:** ${report.reddit_error}`,
+			`**ERROR:** ${report.errors.reddit}`,
 			'',
 		)
 	} else if (
 		['both', 'reddit-only'].includes(report.mode) &&
-		report.reddit.length === 0
+		redditItems.length === 0
 	) {
 		lines.push(
 			'### Reddit Threads',
@@ -124,9 +140,9 @@ export function renderCompact(
 			'*No relevant Reddit threads found for this topic.*',
 			'',
 		)
-	} else if (report.reddit.length > 0) {
+	} else if (redditItems.length > 0) {
 		lines.push('### Reddit Threads', '')
-		for (const item of report.reddit.slice(0, limit)) {
+		for (const item of redditItems.slice(0, limit)) {
 			const engParts: string[] = []
 			if (item.engagement) {
 				if (item.engagement.score != null)
@@ -140,11 +156,13 @@ export function renderCompact(
 				item.date_confidence !== 'high' ? ` [date:${item.date_confidence}]` : ''
 
 			lines.push(
-				`**${item.id}** (score:${item.score}) r/${item.subreddit}${dateStr}${confStr}${engStr}`,
+				`**${item.id}** (score:${item.score}) r/${item.subreddit}${dateStr}${confStr}${engStr}${storyTag(item.cluster_id)}`,
 			)
 			lines.push(`  ${item.title}`)
 			lines.push(`  ${item.url}`)
 			lines.push(`  *${item.why_relevant}*`)
+			if (explain && item.explain)
+				lines.push(`  Explain: ${formatExplainCompact(item.explain)}`)
 
 			if (item.comment_insights.length > 0) {
 				lines.push('  Insights:')
@@ -157,11 +175,11 @@ export function renderCompact(
 	}
 
 	// X items
-	if (report.x_error) {
-		lines.push('### X Posts', '', `**ERROR:** ${report.x_error}`, '')
+	if (report.errors.x) {
+		lines.push('### X Posts', '', `**ERROR:** ${report.errors.x}`, '')
 	} else if (
 		['both', 'x-only', 'all', 'x-web'].includes(report.mode) &&
-		report.x.length === 0
+		xItems.length === 0
 	) {
 		lines.push(
 			'### X Posts',
@@ -169,9 +187,9 @@ export function renderCompact(
 			'*No relevant X posts found for this topic.*',
 			'',
 		)
-	} else if (report.x.length > 0) {
+	} else if (xItems.length > 0) {
 		lines.push('### X Posts', '')
-		for (const item of report.x.slice(0, limit)) {
+		for (const item of xItems.slice(0, limit)) {
 			const engParts: string[] = []
 			if (item.engagement) {
 				if (item.engagement.likes != null)
@@ -185,41 +203,147 @@ export function renderCompact(
 				item.date_confidence !== 'high' ? ` [date:${item.date_confidence}]` : ''
 
 			lines.push(
-				`**${item.id}** (score:${item.score}) @${item.author_handle}${dateStr}${confStr}${engStr}`,
+				`**${item.id}** (score:${item.score}) @${item.author_handle}${dateStr}${confStr}${engStr}${storyTag(item.cluster_id)}`,
 			)
 			lines.push(`  ${item.text.slice(0, 200)}...`)
 			lines.push(`  ${item.url}`)
 			lines.push(`  *${item.why_relevant}*`)
+			if (explain && item.explain)
+				lines.push(`  Explain: ${formatExplainCompact(item.explain)}`)
+			lines.push('')
+		}
+	}
+
+	// Hacker News items
+	if (report.errors.hn) {
+		lines.push(
+			'### Hacker News Stories',
+			'',
+			`**ERROR:** ${report.errors.hn}`,
+			'',
+		)
+	} else if (hnItems.length > 0) {
+		lines.push('### Hacker News Stories', '')
+		for (const item of hnItems.slice(0, limit)) {
+			const engParts: string[] = []
+			if (item.engagement) {
+				if (item.engagement.points != null)
+					engParts.push(`${item.engagement.points}pts`)
+				if (item.engagement.num_comments != null)
+					engParts.push(`${item.engagement.num_comments}cmt`)
+			}
+			const engStr = engParts.length > 0 ? ` [${engParts.join(', ')}]` : ''
+			const dateStr = item.date ? ` (${item.date})` : ' (date unknown)'
+			const confStr =
+				item.date_confidence !== 'high' ? ` [date:${item.date_confidence}]` : ''
+
+			lines.push(
+				`**${item.id}** (score:${item.score}) HN by ${item.author}${dateStr}${confStr}${engStr}${storyTag(item.cluster_id)}`,
+			)
+			lines.push(`  ${item.title}`)
+			lines.push(`  ${item.url}`)
+			if (item.story_url) lines.push(`  Link: ${item.story_url}`)
+			lines.push(`  *${item.why_relevant}*`)
+			if (explain && item.explain)
+				lines.push(`  Explain: ${formatExplainCompact(item.explain)}`)
+
+			if (item.comment_insights.length > 0) {
+				lines.push('  Insights:')
+				for (const insight of item.comment_insights.slice(0, 3)) {
+					lines.push(`    - ${insight}`)
+				}
+			}
 			lines.push('')
 		}
 	}
 
 	// Web items
-	if (report.web_error) {
-		lines.push('### Web Results', '', `**ERROR:** ${report.web_error}`, '')
-	} else if (report.web.length > 0) {
+	if (report.errors.web) {
+		lines.push('### Web Results', '', `**ERROR:** ${report.errors.web}`, '')
+	} else if (webItems.length > 0) {
 		lines.push('### Web Results', '')
-		for (const item of report.web.slice(0, limit)) {
+		for (const item of webItems.slice(0, limit)) {
 			const dateStr = item.date ? ` (${item.date})` : ' (date unknown)'
 			const confStr =
 				item.date_confidence !== 'high' ? ` [date:${item.date_confidence}]` : ''
 
 			lines.push(
-				`**${item.id}** [WEB] (score:${item.score}) ${item.source_domain}${dateStr}${confStr}`,
+				`**${item.id}** [WEB] (score:${item.score}) ${item.source_domain}${dateStr}${confStr}${storyTag(item.cluster_id)}`,
 			)
 			lines.push(`  ${item.title}`)
 			lines.push(`  ${item.url}`)
 			lines.push(`  ${item.snippet.slice(0, 150)}...`)
 			lines.push(`  *${item.why_relevant}*`)
+			if (explain && item.explain)
+				lines.push(`  Explain: ${formatExplainCompact(item.explain)}`)
 			lines.push('')
 		}
 	}
 
+	// Items from other adapters
+	for (const section of getExtraSections(report)) {
+		const label = getSectionLabel(section)
+		const error = report.errors[section]
+		const items = getSectionItems(report, section)
+		if (error) {
+			lines.push(`### ${label}`, '', `**ERROR:** ${error}`, '')
+			continue
+		}
+		if (items.length === 0) continue
+		lines.push(`### ${label}`, '')
+		for (const item of items.slice(0, limit)) {
+			const dateStr = item.date ? ` (${item.date})` : ' (date unknown)'
+			const confStr =
+				item.date_confidence !== 'high' ? ` [date:${item.date_confidence}]` : ''
+
+			lines.push(
+				`**${item.id}** (score:${item.score})${dateStr}${confStr}${storyTag(item.cluster_id ?? null)}`,
+			)
+			lines.push(`  ${getItemTitle(item)}`)
+			lines.push(`  ${item.url}`)
+			lines.push(`  *${item.why_relevant}*`)
+			if (explain && item.explain)
+				lines.push(`  Explain: ${formatExplainCompact(item.explain)}`)
+			lines.push('')
+		}
+	}
+
+	// Cross-source stories
+	if (report.stories.length > 0) {
+		lines.push('### Cross-Source Stories', '')
+		for (const story of report.stories.slice(0, limit)) {
+			lines.push(
+				`**${story.id}** (score:${story.score}) ${story.sources.join(' + ')}: ${story.item_ids.join(', ')}`,
+			)
+			lines.push(`  ${story.title}`)
+			lines.push('')
+		}
+	}
+
+	// Synthesis
+	if (report.synthesis_error) {
+		lines.push('### Synthesis', '', `**ERROR:** ${report.synthesis_error}`, '')
+	}
+	if (report.best_practices.length > 0) {
+		lines.push('### Best Practices', '')
+		for (const practice of report.best_practices) lines.push(`- ${practice}`)
+		lines.push('')
+	}
+	if (report.prompt_pack.length > 0) {
+		lines.push('### Prompt Pack', '')
+		for (const prompt of report.prompt_pack) lines.push(`- ${prompt}`)
+		lines.push('')
+	}
+
 	return lines.join('\n')
 }
 
 /** Render reusable context snippet. */
 export function renderContextSnippet(report: Report): string {
+	const redditItems = getSectionItems(report, 'reddit')
+	const xItems = getSectionItems(report, 'x')
+	const hnItems = getSectionItems(report, 'hn')
+	const webItems = getSectionItems(report, 'web')
 	const lines: string[] = []
 	lines.push(`# Context: ${report.topic} (Last ${report.days} Days)`)
 	lines.push('')
@@ -231,13 +355,16 @@ export function renderContextSnippet(report: Report): string {
 	lines.push('')
 
 	const allItems: [number, string, string, string][] = []
-	for (const item of report.reddit.slice(0, 5)) {
+	for (const item of redditItems.slice(0, 5)) {
 		allItems.push([item.score, 'Reddit', item.title, item.url])
 	}
-	for (const item of report.x.slice(0, 5)) {
+	for (const item of xItems.slice(0, 5)) {
 		allItems.push([item.score, 'X', `${item.text.slice(0, 50)}...`, item.url])
 	}
-	for (const item of report.web.slice(0, 5)) {
+	for (const item of hnItems.slice(0, 5)) {
+		allItems.push([item.score, 'HN', item.title, item.url])
+	}
+	for (const item of webItems.slice(0, 5)) {
 		allItems.push([
 			item.score,
 			'Web',
@@ -245,6 +372,16 @@ export function renderContextSnippet(report: Report): string {
 			item.url,
 		])
 	}
+	for (const section of getExtraSections(report)) {
+		for (const item of getSectionItems(report, section).slice(0, 5)) {
+			allItems.push([
+				item.score,
+				getSectionLabel(section),
+				getItemTitle(item),
+				item.url,
+			])
+		}
+	}
 
 	allItems.sort((a, b) => b[0] - a[0])
 	for (const [, source, text] of allItems.slice(0, 7)) {
@@ -252,8 +389,21 @@ export function renderContextSnippet(report: Report): string {
 	}
 
 	lines.push('')
+	if (report.stories.length > 0) {
+		lines.push('## Cross-Source Stories')
+		lines.push('')
+		for (const story of report.stories.slice(0, 3)) {
+			lines.push(`- ${story.title} (${story.sources.join(', ')})`)
+		}
+		lines.push('')
+	}
+
 	lines.push('## Summary')
 	lines.push('')
+	for (const practice of report.best_practices.slice(0, 5)) {
+		lines.push(`- ${practice}`)
+	}
+	if (report.best_practices.length > 0) lines.push('')
 	lines.push(
 		'*See full report for best practices, prompt pack, and detailed sources.*',
 	)
@@ -263,7 +413,11 @@ export function renderContextSnippet(report: Report): string {
 }
 
 /** Render full markdown report. */
-export function renderFullReport(report: Report): string {
+export function renderFullReport(report: Report, explain = false): string {
+	const redditItems = getSectionItems(report, 'reddit')
+	const xItems = getSectionItems(report, 'x')
+	const hnItems = getSectionItems(report, 'hn')
+	const webItems = getSectionItems(report, 'web')
 	const lines: string[] = []
 
 	lines.push(`# ${report.topic} - Last ${report.days} Days Research Report`)
@@ -271,6 +425,12 @@ export function renderFullReport(report: Report): string {
 	lines.push(`**Generated:** ${report.generated_at}`)
 	lines.push(`**Date Range:** ${report.range_from} to ${report.range_to}`)
 	lines.push(`**Mode:** ${report.mode}`)
+	if (report.scoring_profile) {
+		const w = report.scoring_profile.weights
+		lines.push(
+			`**Scoring:** ${report.scoring_profile.name} (relevance ${w.relevance}, recency ${w.recency}, engagement ${w.engagement})`,
+		)
+	}
 	lines.push('')
 
 	lines.push('## Models Used')
@@ -280,10 +440,10 @@ export function renderFullReport(report: Report): string {
 	if (report.xai_model_used) lines.push(`- **xAI:** ${report.xai_model_used}`)
 	lines.push('')
 
-	if (report.reddit.length > 0) {
+	if (redditItems.length > 0) {
 		lines.push('## Reddit Threads')
 		lines.push('')
-		for (const item of report.reddit) {
+		for (const item of redditItems) {
 			lines.push(`### ${item.id}: ${item.title}`)
 			lines.push('')
 			lines.push(`- **Subreddit:** r/${item.subreddit}`)
@@ -293,6 +453,7 @@ export function renderFullReport(report: Report): string {
 			)
 			lines.push(`- **Score:** ${item.score}/100`)
 			lines.push(`- **Relevance:** ${item.why_relevant}`)
+			if (explain && item.explain) lines.push(...formatExplainMd(item.explain))
 
 			if (item.engagement) {
 				lines.push(
@@ -311,10 +472,10 @@ export function renderFullReport(report: Report): string {
 		}
 	}
 
-	if (report.x.length > 0) {
+	if (xItems.length > 0) {
 		lines.push('## X Posts')
 		lines.push('')
-		for (const item of report.x) {
+		for (const item of xItems) {
 			lines.push(`### ${item.id}: @${item.author_handle}`)
 			lines.push('')
 			lines.push(`- **URL:** ${item.url}`)
@@ -323,6 +484,7 @@ export function renderFullReport(report: Report): string {
 			)
 			lines.push(`- **Score:** ${item.score}/100`)
 			lines.push(`- **Relevance:** ${item.why_relevant}`)
+			if (explain && item.explain) lines.push(...formatExplainMd(item.explain))
 
 			if (item.engagement) {
 				lines.push(
@@ -335,10 +497,43 @@ export function renderFullReport(report: Report): string {
 		}
 	}
 
-	if (report.web.length > 0) {
+	if (hnItems.length > 0) {
+		lines.push('## Hacker News Stories')
+		lines.push('')
+		for (const item of hnItems) {
+			lines.push(`### ${item.id}: ${item.title}`)
+			lines.push('')
+			lines.push(`- **Author:** ${item.author}`)
+			lines.push(`- **URL:** ${item.url}`)
+			if (item.story_url) lines.push(`- **Link:** ${item.story_url}`)
+			lines.push(
+				`- **Date:** ${item.date ?? 'Unknown'} (confidence: ${item.date_confidence})`,
+			)
+			lines.push(`- **Score:** ${item.score}/100`)
+			lines.push(`- **Relevance:** ${item.why_relevant}`)
+			if (explain && item.explain) lines.push(...formatExplainMd(item.explain))
+
+			if (item.engagement) {
+				lines.push(
+					`- **Engagement:** ${item.engagement.points ?? '?'} points, ${item.engagement.num_comments ?? '?'} comments`,
+				)
+			}
+
+			if (item.comment_insights.length > 0) {
+				lines.push('')
+				lines.push('**Key Insights from Comments:**')
+				for (const insight of item.comment_insights) {
+					lines.push(`- ${insight}`)
+				}
+			}
+			lines.push('')
+		}
+	}
+
+	if (webItems.length > 0) {
 		lines.push('## Web Results')
 		lines.push('')
-		for (const item of report.web) {
+		for (const item of webItems) {
 			lines.push(`### ${item.id}: ${item.title}`)
 			lines.push('')
 			lines.push(`- **Source:** ${item.source_domain}`)
@@ -348,42 +543,833 @@ export function renderFullReport(report: Report): string {
 			)
 			lines.push(`- **Score:** ${item.score}/100`)
 			lines.push(`- **Relevance:** ${item.why_relevant}`)
+			if (explain && item.explain) lines.push(...formatExplainMd(item.explain))
 			lines.push('')
 			lines.push(`> ${item.snippet}`)
 			lines.push('')
 		}
 	}
 
+	for (const section of getExtraSections(report)) {
+		const items = getSectionItems(report, section)
+		if (items.length === 0) continue
+		lines.push(`## ${getSectionLabel(section)}`)
+		lines.push('')
+		for (const item of items) {
+			lines.push(`### ${item.id}: ${getItemTitle(item)}`)
+			lines.push('')
+			lines.push(`- **URL:** ${item.url}`)
+			lines.push(
+				`- **Date:** ${item.date ?? 'Unknown'} (confidence: ${item.date_confidence})`,
+			)
+			lines.push(`- **Score:** ${item.score}/100`)
+			lines.push(`- **Relevance:** ${item.why_relevant}`)
+			if (explain && item.explain) lines.push(...formatExplainMd(item.explain))
+			lines.push('')
+		}
+	}
+
+	if (report.stories.length > 0) {
+		lines.push('## Cross-Source Stories')
+		lines.push('')
+		for (const story of report.stories) {
+			lines.push(`### ${story.id}: ${story.title}`)
+			lines.push('')
+			lines.push(`- **Sources:** ${story.sources.join(', ')}`)
+			lines.push(`- **Items:** ${story.item_ids.join(', ')}`)
+			lines.push(`- **Score:** ${story.score}/100`)
+			for (const url of story.urls) lines.push(`- ${url}`)
+			lines.push('')
+		}
+	}
+
 	lines.push('## Best Practices')
 	lines.push('')
-	lines.push('*To be synthesized by Claude*')
+	if (report.best_practices.length > 0) {
+		for (const practice of report.best_practices) lines.push(`- ${practice}`)
+	} else {
+		lines.push('*To be synthesized by Claude*')
+	}
 	lines.push('')
 	lines.push('## Prompt Pack')
 	lines.push('')
-	lines.push('*To be synthesized by Claude*')
+	if (report.prompt_pack.length > 0) {
+		for (const prompt of report.prompt_pack) lines.push(`- ${prompt}`)
+	} else {
+		lines.push('*To be synthesized by Claude*')
+	}
 	lines.push('')
 
 	return lines.join('\n')
 }
 
-/** Write all output files. */
+/** A scored item flattened for an HTML table row. */
+interface HtmlRow {
+	id: string
+	title: string
+	url: string
+	meta: string
+	date: string | null
+	date_confidence: string
+	score: number
+	subs: SubScores
+	/** Headline engagement metric used for sorting; null if unknown. */
+	engagement: number | null
+	engagementLabel: string
+	insights: string[]
+}
+
+const HTML_STYLE = `
+body{font:15px/1.5 system-ui,sans-serif;max-width:1100px;margin:2rem auto;padding:0 1rem;color:#1f2328}
+h1{margin-bottom:.25rem}
+.meta{color:#59636e;margin:.1rem 0}
+.banner{padding:.75rem 1rem;border-radius:6px;margin:1rem 0;background:#ddf4ff;border:1px solid #54aeff}
+.banner.warn{background:#fff8c5;border-color:#d4a72c}
+.error{color:#d1242f}
+table{width:100%;border-collapse:collapse;margin:.5rem 0 1.5rem}
+th,td{text-align:left;padding:.4rem .5rem;border-bottom:1px solid #d1d9e0;vertical-align:top}
+th[data-sort]{cursor:pointer;user-select:none;white-space:nowrap}
+th[data-sort]::after{content:" \\2195";color:#8c959f}
+td.num{text-align:right;font-variant-numeric:tabular-nums}
+.bars{display:grid;grid-template-columns:auto 80px;gap:2px 6px;font-size:12px;color:#59636e}
+.bar{background:#eef1f4;height:8px;margin-top:5px;border-radius:4px}
+.bar span{display:block;height:100%;background:#0969da;border-radius:4px}
+details{font-size:14px;margin-top:.25rem}
+`
+
+const HTML_SORT_SCRIPT = `
+document.querySelectorAll('table.sortable').forEach(function (table) {
+  table.querySelectorAll('th[data-sort]').forEach(function (th, _, ths) {
+    th.addEventListener('click', function () {
+      var col = th.cellIndex, type = th.dataset.sort
+      var desc = th.dataset.dir !== 'desc'
+      ths.forEach(function (h) { delete h.dataset.dir })
+      th.dataset.dir = desc ? 'desc' : 'asc'
+      var body = table.tBodies[0]
+      Array.from(body.rows).sort(function (a, b) {
+        var x = a.cells[col].dataset.value, y = b.cells[col].dataset.value
+        var cmp = type === 'number' ? Number(x) - Number(y) : x.localeCompare(y)
+        return desc ? -cmp : cmp
+      }).forEach(function (row) { body.appendChild(row) })
+    })
+  })
+})
+`
+
+/** Escape text for HTML/XML element content and attribute values. */
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;')
+}
+
+function htmlSubBars(subs: SubScores): string {
+	const bar = (label: string, value: number) =>
+		`<span>${label} ${value}</span><div class="bar"><span style="width:${Math.max(0, Math.min(100, value))}%"></span></div>`
+	return `<div class="bars">${bar('rel', subs.relevance)}${bar('rec', subs.recency)}${bar('eng', subs.engagement)}</div>`
+}
+
+function htmlTable(rows: HtmlRow[], withEngagement: boolean): string {
+	const out: string[] = []
+	out.push('<table class="sortable">')
+	out.push(
+		`<thead><tr><th>ID</th><th>Item</th><th data-sort="text">Date</th><th data-sort="number">Score</th>${withEngagement ? '<th data-sort="number">Engagement</th>' : ''}<th>Components</th></tr></thead>`,
+	)
+	out.push('<tbody>')
+	for (const row of rows) {
+		const confStr =
+			row.date_confidence !== 'high'
+				? ` <small>(${escapeHtml(row.date_confidence)})</small>`
+				: ''
+		let item = `<a href="${escapeHtml(row.url)}">${escapeHtml(row.title)}</a>`
+		if (row.meta) item += `<div class="meta">${escapeHtml(row.meta)}</div>`
+		if (row.insights.length > 0) {
+			const lis = row.insights.map((i) => `<li>${escapeHtml(i)}</li>`).join('')
+			item += `<details><summary>${row.insights.length} comment insight(s)</summary><ul>${lis}</ul></details>`
+		}
+		out.push(
+			`<tr><td>${escapeHtml(row.id)}</td><td>${item}</td><td data-value="${escapeHtml(row.date ?? '')}">${escapeHtml(row.date ?? 'unknown')}${confStr}</td><td class="num" data-value="${row.score}">${row.score}</td>${withEngagement ? `<td class="num" data-value="${row.engagement ?? -1}">${escapeHtml(row.engagementLabel)}</td>` : ''}<td>${htmlSubBars(row.subs)}</td></tr>`,
+		)
+	}
+	out.push('</tbody></table>')
+	return out.join('\n')
+}
+
+function htmlSection(
+	title: string,
+	rows: HtmlRow[],
+	error: string | undefined,
+	withEngagement = true,
+): string {
+	if (error) {
+		return `<section><h2>${title}</h2><p class="error"><strong>Error:</strong> ${escapeHtml(error)}</p></section>`
+	}
+	if (rows.length === 0) return ''
+	return `<section><h2>${title} (${rows.length})</h2>\n${htmlTable(rows, withEngagement)}\n</section>`
+}
+
+/** Render a self-contained HTML report with sortable per-source tables. */
+export function renderHtml(report: Report): string {
+	const redditItems = getSectionItems(report, 'reddit')
+	const xItems = getSectionItems(report, 'x')
+	const hnItems = getSectionItems(report, 'hn')
+	const webItems = getSectionItems(report, 'web')
+	const freshness = assessDataFreshness(report)
+	const out: string[] = []
+	const title = `${report.topic} - Last ${report.days} Days Research Report`
+
+	out.push('<!DOCTYPE html>')
+	out.push('<html lang="en">')
+	out.push('<head>')
+	out.push('<meta charset="utf-8">')
+	out.push(
+		'<meta name="viewport" content="width=device-width, initial-scale=1">',
+	)
+	out.push(`<title>${escapeHtml(title)}</title>`)
+	out.push(`<style>${HTML_STYLE}</style>`)
+	out.push('</head>')
+	out.push('<body>')
+	out.push(`<h1>${escapeHtml(title)}</h1>`)
+	out.push(
+		`<p class="meta">Generated ${escapeHtml(report.generated_at)} · ${escapeHtml(report.range_from)} to ${escapeHtml(report.range_to)} · Mode: ${escapeHtml(report.mode)}</p>`,
+	)
+	const models = [report.openai_model_used, report.xai_model_used].filter(
+		(m): m is string => !!m,
+	)
+	if (models.length > 0) {
+		out.push(`<p class="meta">Models: ${escapeHtml(models.join(', '))}</p>`)
+	}
+	if (report.scoring_profile) {
+		out.push(
+			`<p class="meta">Scoring: ${escapeHtml(report.scoring_profile.name)}</p>`,
+		)
+	}
+
+	if (freshness.isSparse) {
+		out.push(
+			`<div class="banner warn"><strong>Limited recent data.</strong> Only ${freshness.totalRecent} item(s) confirmed from ${escapeHtml(report.range_from)} to ${escapeHtml(report.range_to)}. Results may include older/evergreen content.</div>`,
+		)
+	} else {
+		out.push(
+			`<div class="banner">${freshness.totalRecent} of ${freshness.totalItems} item(s) confirmed from the last ${report.days} days.</div>`,
+		)
+	}
+
+	out.push(
+		htmlSection(
+			'Reddit Threads',
+			redditItems.map((item) => ({
+				...item,
+				meta: `r/${item.subreddit}`,
+				engagement: item.engagement?.score ?? null,
+				engagementLabel: engagementLabel([
+					[item.engagement?.score, 'pts'],
+					[item.engagement?.num_comments, 'cmt'],
+				]),
+				insights: item.comment_insights,
+			})),
+			report.errors.reddit,
+		),
+	)
+	out.push(
+		htmlSection(
+			'X Posts',
+			xItems.map((item) => ({
+				...item,
+				title: item.text,
+				meta: `@${item.author_handle}`,
+				engagement: item.engagement?.likes ?? null,
+				engagementLabel: engagementLabel([
+					[item.engagement?.likes, 'likes'],
+					[item.engagement?.reposts, 'rt'],
+				]),
+				insights: [],
+			})),
+			report.errors.x,
+		),
+	)
+	out.push(
+		htmlSection(
+			'Hacker News Stories',
+			hnItems.map((item) => ({
+				...item,
+				meta: `by ${item.author}${item.story_url ? ` · ${item.story_url}` : ''}`,
+				engagement: item.engagement?.points ?? null,
+				engagementLabel: engagementLabel([
+					[item.engagement?.points, 'pts'],
+					[item.engagement?.num_comments, 'cmt'],
+				]),
+				insights: item.comment_insights,
+			})),
+			report.errors.hn,
+		),
+	)
+	out.push(
+		htmlSection(
+			'Web Results',
+			webItems.map((item) => ({
+				...item,
+				meta: item.source_domain,
+				engagement: null,
+				engagementLabel: '',
+				insights: [],
+			})),
+			report.errors.web,
+			false,
+		),
+	)
+	for (const section of getExtraSections(report)) {
+		out.push(
+			htmlSection(
+				escapeHtml(getSectionLabel(section)),
+				getSectionItems(report, section).map((item) => ({
+					...item,
+					title: getItemTitle(item),
+					meta: '',
+					engagement: null,
+					engagementLabel: '',
+					insights: [],
+				})),
+				report.errors[section],
+				false,
+			),
+		)
+	}
+
+	if (report.stories.length > 0) {
+		out.push('<section><h2>Cross-Source Stories</h2><ul>')
+		for (const story of report.stories) {
+			out.push(
+				`<li><strong>${escapeHtml(story.title)}</strong> (score ${story.score}) - ${escapeHtml(story.sources.join(', '))}: ${escapeHtml(story.item_ids.join(', '))}</li>`,
+			)
+		}
+		out.push('</ul></section>')
+	}
+
+	if (report.synthesis_error) {
+		out.push(
+			`<p class="error"><strong>Synthesis error:</strong> ${escapeHtml(report.synthesis_error)}</p>`,
+		)
+	}
+	for (const [heading, entries] of [
+		['Best Practices', report.best_practices],
+		['Prompt Pack', report.prompt_pack],
+	] as const) {
+		if (entries.length === 0) continue
+		out.push(`<section><h2>${heading}</h2><ul>`)
+		for (const entry of entries) out.push(`<li>${escapeHtml(entry)}</li>`)
+		out.push('</ul></section>')
+	}
+
+	out.push(`<script>${HTML_SORT_SCRIPT}</script>`)
+	out.push('</body>')
+	out.push('</html>')
+	return `${out.filter((line) => line !== '').join('\n')}\n`
+}
+
+function engagementLabel(parts: [number | null | undefined, string][]): string {
+	return parts
+		.filter(([v]) => v != null)
+		.map(([v, unit]) => `${v} ${unit}`)
+		.join(', ')
+}
+
+/** A report item as a feed entry. */
+interface FeedEntry {
+	id: string
+	title: string
+	url: string
+	/** Item date as an ISO timestamp, or the report time if unknown. */
+	updated: string
+	summary: string
+	source: string
+	score: number
+}
+
+const FEED_GENERATOR = 'last-30-days'
+const FEED_HOME = 'https://github.com/nathanvale/side-quest-last-30-days'
+
+/** Stable entry id from the item URL, so re-runs don't duplicate entries. */
+export function getFeedEntryId(url: string): string {
+	const hash = createHash('sha256').update(normalizeUrl(url)).digest('hex')
+	return `urn:${FEED_GENERATOR}:item:${hash.slice(0, 32)}`
+}
+
+function feedEntries(report: Report): FeedEntry[] {
+	const redditItems = getSectionItems(report, 'reddit')
+	const xItems = getSectionItems(report, 'x')
+	const hnItems = getSectionItems(report, 'hn')
+	const webItems = getSectionItems(report, 'web')
+	const entry = (
+		source: string,
+		item: BaseItem,
+		title: string,
+		detail: string,
+	): FeedEntry => {
+		const parts = [`Score ${item.score}/100`, detail].filter(Boolean)
+		const why = item.why_relevant ? ` - ${item.why_relevant}` : ''
+		return {
+			id: getFeedEntryId(item.url),
+			title,
+			url: item.url,
+			updated: item.date ? `${item.date}T00:00:00Z` : report.generated_at,
+			summary: `${parts.join(' · ')}${why}`,
+			source,
+			score: item.score,
+		}
+	}
+	const entries = [
+		...redditItems.map((r) =>
+			entry(
+				'Reddit',
+				r,
+				r.title,
+				[
+					`r/${r.subreddit}`,
+					engagementLabel([
+						[r.engagement?.score, 'pts'],
+						[r.engagement?.num_comments, 'cmt'],
+					]),
+				]
+					.filter(Boolean)
+					.join(' · '),
+			),
+		),
+		...xItems.map((x) =>
+			entry(
+				'X',
+				x,
+				`@${x.author_handle}: ${x.text.length > 100 ? `${x.text.slice(0, 100)}...` : x.text}`,
+				engagementLabel([
+					[x.engagement?.likes, 'likes'],
+					[x.engagement?.reposts, 'rt'],
+				]),
+			),
+		),
+		...hnItems.map((h) =>
+			entry(
+				'Hacker News',
+				h,
+				h.title,
+				engagementLabel([
+					[h.engagement?.points, 'pts'],
+					[h.engagement?.num_comments, 'cmt'],
+				]),
+			),
+		),
+		...webItems.map((w) => entry('Web', w, w.title, w.source_domain)),
+		...getExtraSections(report).flatMap((section) =>
+			getSectionItems(report, section).map((item) =>
+				entry(getSectionLabel(section), item, getItemTitle(item), ''),
+			),
+		),
+	]
+	return entries.sort((a, b) => b.score - a.score)
+}
+
+/** Render an Atom 1.0 feed with one entry per item. */
+export function renderAtom(report: Report): string {
+	const out: string[] = []
+	out.push('<?xml version="1.0" encoding="utf-8"?>')
+	out.push('<feed xmlns="http://www.w3.org/2005/Atom">')
+	out.push(
+		`<title>${escapeHtml(`${report.topic} - Last ${report.days} Days`)}</title>`,
+	)
+	out.push(
+		`<id>urn:${FEED_GENERATOR}:topic:${escapeHtml(getTopicSlug(report.topic))}</id>`,
+	)
+	out.push(`<updated>${escapeHtml(report.generated_at)}</updated>`)
+	out.push(`<link href="${FEED_HOME}"/>`)
+	out.push(`<author><name>${FEED_GENERATOR}</name></author>`)
+	out.push(`<generator uri="${FEED_HOME}">${FEED_GENERATOR}</generator>`)
+	for (const e of feedEntries(report)) {
+		out.push('<entry>')
+		out.push(`<id>${e.id}</id>`)
+		out.push(`<title>${escapeHtml(e.title)}</title>`)
+		out.push(`<link href="${escapeHtml(e.url)}"/>`)
+		out.push(`<updated>${escapeHtml(e.updated)}</updated>`)
+		out.push(`<category term="${escapeHtml(e.source)}"/>`)
+		out.push(`<summary>${escapeHtml(e.summary)}</summary>`)
+		out.push('</entry>')
+	}
+	out.push('</feed>')
+	return `${out.join('\n')}\n`
+}
+
+/** Render an RSS 2.0 feed with one item per report item. */
+export function renderRss(report: Report): string {
+	const rfc822 = (iso: string) => new Date(iso).toUTCString()
+	const out: string[] = []
+	out.push('<?xml version="1.0" encoding="utf-8"?>')
+	out.push('<rss version="2.0">')
+	out.push('<channel>')
+	out.push(
+		`<title>${escapeHtml(`${report.topic} - Last ${report.days} Days`)}</title>`,
+	)
+	out.push(`<link>${FEED_HOME}</link>`)
+	out.push(
+		`<description>${escapeHtml(`Research on ${report.topic} from ${report.range_from} to ${report.range_to}`)}</description>`,
+	)
+	out.push(`<lastBuildDate>${rfc822(report.generated_at)}</lastBuildDate>`)
+	out.push(`<generator>${FEED_GENERATOR}</generator>`)
+	for (const e of feedEntries(report)) {
+		out.push('<item>')
+		out.push(`<title>${escapeHtml(e.title)}</title>`)
+		out.push(`<link>${escapeHtml(e.url)}</link>`)
+		out.push(`<guid isPermaLink="false">${e.id}</guid>`)
+		out.push(`<pubDate>${rfc822(e.updated)}</pubDate>`)
+		out.push(`<category>${escapeHtml(e.source)}</category>`)
+		out.push(`<description>${escapeHtml(e.summary)}</description>`)
+		out.push('</item>')
+	}
+	out.push('</channel>')
+	out.push('</rss>')
+	return `${out.join('\n')}\n`
+}
+
+/** A flat value in a CSV/JSONL row. */
+export type FlatValue = string | number | null
+
+/** Column order of `flattenReport` rows, the same whichever sources ran. */
+export const FLAT_COLUMNS = [
+	'source',
+	'id',
+	'title',
+	'url',
+	'date',
+	'date_confidence',
+	'score',
+	'subs_relevance',
+	'subs_recency',
+	'subs_engagement',
+	'relevance',
+	'engagement_score',
+	'engagement_num_comments',
+	'engagement_upvote_ratio',
+	'engagement_likes',
+	'engagement_reposts',
+	'engagement_replies',
+	'engagement_quotes',
+	'engagement_points',
+	'subreddit',
+	'author',
+	'source_domain',
+	'story_url',
+	'why_relevant',
+	'cluster_id',
+] as const
+
+/** Name of a `FLAT_COLUMNS` column. */
+export type FlatColumn = (typeof FLAT_COLUMNS)[number]
+
+function flatRow(
+	source: string,
+	item: BaseItem,
+	title: string,
+	engagement: Engagement | null,
+	extra: Partial<Record<FlatColumn, FlatValue>>,
+): Record<FlatColumn, FlatValue> {
+	const row = {} as Record<FlatColumn, FlatValue>
+	for (const col of FLAT_COLUMNS) row[col] = null
+	return Object.assign(row, {
+		source,
+		id: item.id,
+		title,
+		url: item.url,
+		date: item.date,
+		date_confidence: item.date_confidence,
+		score: item.score,
+		subs_relevance: item.subs.relevance,
+		subs_recency: item.subs.recency,
+		subs_engagement: item.subs.engagement,
+		relevance: item.relevance,
+		engagement_score: engagement?.score ?? null,
+		engagement_num_comments: engagement?.num_comments ?? null,
+		engagement_upvote_ratio: engagement?.upvote_ratio ?? null,
+		engagement_likes: engagement?.likes ?? null,
+		engagement_reposts: engagement?.reposts ?? null,
+		engagement_replies: engagement?.replies ?? null,
+		engagement_quotes: engagement?.quotes ?? null,
+		engagement_points: engagement?.points ?? null,
+		why_relevant: item.why_relevant,
+		cluster_id: item.cluster_id ?? null,
+		...extra,
+	})
+}
+
+/** One row per item across all sources, keyed by `FLAT_COLUMNS`. */
+export function flattenReport(report: Report): Record<FlatColumn, FlatValue>[] {
+	const redditItems = getSectionItems(report, 'reddit')
+	const xItems = getSectionItems(report, 'x')
+	const hnItems = getSectionItems(report, 'hn')
+	const webItems = getSectionItems(report, 'web')
+	return [
+		...redditItems.map((r) =>
+			flatRow('reddit', r, r.title, r.engagement, { subreddit: r.subreddit }),
+		),
+		...xItems.map((x) =>
+			flatRow('x', x, x.text, x.engagement, { author: x.author_handle }),
+		),
+		...hnItems.map((h) =>
+			flatRow('hn', h, h.title, h.engagement, {
+				author: h.author,
+				story_url: h.story_url,
+			}),
+		),
+		...webItems.map((w) =>
+			flatRow('web', w, w.title, null, { source_domain: w.source_domain }),
+		),
+		...getExtraSections(report).flatMap((section) =>
+			getSectionItems(report, section).map((item) =>
+				flatRow(section, item, getItemTitle(item), item.engagement ?? null, {}),
+			),
+		),
+	]
+}
+
+/** Quote a CSV field per RFC 4180 when it contains a delimiter. */
+function csvField(value: FlatValue): string {
+	if (value == null) return ''
+	const text = String(value)
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** Render every item as a CSV row under a `FLAT_COLUMNS` header. */
+export function renderCsv(report: Report): string {
+	const lines = [FLAT_COLUMNS.join(',')]
+	for (const row of flattenReport(report)) {
+		lines.push(FLAT_COLUMNS.map((col) => csvField(row[col])).join(','))
+	}
+	return `${lines.join('\r\n')}\r\n`
+}
+
+/** Render every item as one JSON object per line. */
+export function renderJsonl(report: Report): string {
+	return flattenReport(report)
+		.map((row) => `${JSON.stringify(row)}\n`)
+		.join('')
+}
+
+/** One-line score breakdown for compact output. */
+function formatExplainCompact(explain: ScoreExplain): string {
+	const parts = explain.components.map(
+		(c) => `${c.name} ${c.value}×${c.weight}=${c.contribution}`,
+	)
+	for (const adj of explain.adjustments) {
+		parts.push(`${adj.reason} ${formatPoints(adj.points)}`)
+	}
+	let text = `${parts.join(', ')} → ${explain.total}`
+	if (explain.normalization) {
+		text += ` (engagement range ${explain.normalization.min}-${explain.normalization.max})`
+	}
+	return text
+}
+
+/** Score breakdown as nested markdown bullets. */
+function formatExplainMd(explain: ScoreExplain): string[] {
+	const lines = [`- **Score Breakdown:** ${explain.total} before clamping`]
+	for (const c of explain.components) {
+		const raw =
+			c.raw == null
+				? ''
+				: c.name === 'recency'
+					? ` (${c.raw} days old)`
+					: ` (raw ${c.raw})`
+		lines.push(
+			`  - ${c.name}: ${c.value}${raw} × ${c.weight} = ${c.contribution}`,
+		)
+	}
+	for (const adj of explain.adjustments) {
+		lines.push(`  - ${adj.reason}: ${formatPoints(adj.points)}`)
+	}
+	if (explain.normalization) {
+		lines.push(
+			`  - engagement normalized over ${explain.normalization.min}-${explain.normalization.max}`,
+		)
+	}
+	lines.push(`  - recency window: ${explain.max_days} days`)
+	return lines
+}
+
+function formatPoints(points: number): string {
+	return points >= 0 ? `+${points}` : `${points}`
+}
+
+/** Compact-view suffix linking an item to its cross-source story. */
+function storyTag(clusterId: string | null): string {
+	return clusterId ? ` {story:${clusterId}}` : ''
+}
+
+function formatEngagement(eng: Engagement | null): string {
+	if (!eng) return ''
+	const parts = Object.entries(eng)
+		.filter(([, v]) => v != null)
+		.map(([k, v]) => `${v} ${k}`)
+	return parts.length > 0 ? ` [${parts.join(', ')}]` : ''
+}
+
+function formatDiffItem(item: HistoryItem): string {
+	return `- **${item.title}** (${item.source}, score:${item.score})${formatEngagement(item.engagement)}\n  ${item.url}`
+}
+
+/** Render a run-to-run diff as markdown. */
+export function renderDiff(diff: ReportDiff): string {
+	const lines: string[] = []
+	lines.push(`## Changes: ${diff.topic}`)
+	lines.push('')
+	lines.push(
+		`**Previous run:** ${diff.previous_generated_at}  \n**Current run:** ${diff.current_generated_at}`,
+	)
+	lines.push(
+		`**Summary:** ${diff.added.length} new, ${diff.dropped.length} dropped, ${diff.changed.length} moved, ${diff.unchanged} unchanged`,
+	)
+	lines.push('')
+
+	lines.push('### New')
+	lines.push('')
+	if (diff.added.length === 0) lines.push('*No new items.*')
+	for (const item of diff.added) lines.push(formatDiffItem(item))
+	lines.push('')
+
+	lines.push('### Dropped')
+	lines.push('')
+	if (diff.dropped.length === 0) lines.push('*No dropped items.*')
+	for (const item of diff.dropped) lines.push(formatDiffItem(item))
+	lines.push('')
+
+	lines.push('### Moved')
+	lines.push('')
+	if (diff.changed.length === 0) lines.push('*No score or engagement changes.*')
+	for (const item of diff.changed) {
+		const sign = item.score_delta > 0 ? '+' : ''
+		const engParts = Object.entries(item.engagement_delta).map(
+			([k, v]) => `${v > 0 ? '+' : ''}${v} ${k}`,
+		)
+		const engStr = engParts.length > 0 ? `, ${engParts.join(', ')}` : ''
+		lines.push(
+			`- **${item.title}** (${item.source}) score ${item.previous_score} → ${item.score} (${sign}${item.score_delta}${engStr})`,
+		)
+		lines.push(`  ${item.url}`)
+	}
+	lines.push('')
+
+	return lines.join('\n')
+}
+
+/** Human-readable byte count, e.g. "1.5 KB". */
+export function formatBytes(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`
+	const units = ['KB', 'MB', 'GB']
+	let value = bytes / 1024
+	let unit = 0
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024
+		unit++
+	}
+	return `${value.toFixed(1)} ${units[unit]}`
+}
+
+function formatAge(hours: number): string {
+	if (hours < 1) return `${Math.round(hours * 60)}m`
+	if (hours < 48) return `${hours.toFixed(1)}h`
+	return `${Math.round(hours / 24)}d`
+}
+
+/** One-line description of what a cache entry holds. */
+function describeCacheMeta(entry: CacheEntryInfo): string {
+	const meta = entry.meta
+	if (!meta)
+		return entry.kind === 'search' || entry.kind === 'enrichment'
+			? '(no metadata recorded)'
+			: ''
+	if (meta.url) return meta.source ? `${meta.source} ${meta.url}` : meta.url
+	if (meta.topic == null) return ''
+	return `"${meta.topic}" ${meta.source}/${meta.depth} ${meta.model ?? 'no model'} ${meta.from_date}..${meta.to_date} prompt ${meta.prompt_version}`
+}
+
+/** Render per-kind cache totals. */
+export function renderCacheStats(stats: CacheStats): string {
+	const lines = [`Cache: ${stats.dir} (${stats.backend})`, '']
+	for (const kind of CACHE_ENTRY_KINDS) {
+		const { count, bytes } = stats.kinds[kind]
+		const limit =
+			kind === 'search' || kind === 'enrichment' ? stats.limits[kind] : null
+		const cap = limit
+			? `  (max ${limit.max_entries || 'unlimited'} entries, ${limit.max_bytes ? formatBytes(limit.max_bytes) : 'unlimited'})`
+			: ''
+		lines.push(
+			`${kind.padEnd(12)}${String(count).padStart(6)}  ${formatBytes(bytes).padStart(10)}${cap}`,
+		)
+	}
+	lines.push(
+		`${'total'.padEnd(12)}${String(stats.total.count).padStart(6)}  ${formatBytes(stats.total.bytes).padStart(10)}`,
+	)
+	return lines.join('\n')
+}
+
+/** Render one line per cache entry. */
+export function renderCacheList(entries: CacheEntryInfo[]): string {
+	if (entries.length === 0) return 'Cache is empty.'
+	return entries
+		.map((e) => {
+			const flags = e.expired ? ' [expired]' : ''
+			const items = e.item_count != null ? ` ${e.item_count} items` : ''
+			return `${e.key.padEnd(16)}  ${e.kind.padEnd(10)} ${formatBytes(e.bytes).padStart(9)} ${formatAge(e.age_hours).padStart(5)}${flags}${items}  ${describeCacheMeta(e)}`.trimEnd()
+		})
+		.join('\n')
+}
+
+/** Render one cache entry's file details and envelope metadata. */
+export function renderCacheEntry(entry: CacheEntryInfo): string {
+	const lines = [
+		`Key:      ${entry.key}`,
+		`Kind:     ${entry.kind}`,
+		`Path:     ${entry.path}`,
+		`Size:     ${formatBytes(entry.bytes)}`,
+		`Age:      ${formatAge(entry.age_hours)}${entry.expired ? ' (expired)' : ''}`,
+	]
+	if (entry.item_count != null) lines.push(`Items:    ${entry.item_count}`)
+	if (entry.meta) {
+		lines.push('Metadata:')
+		for (const [name, value] of Object.entries(entry.meta)) {
+			if (name === 'kind') continue
+			lines.push(`  ${name.padEnd(16)}${value ?? '(none)'}`)
+		}
+	} else if (entry.kind === 'search' || entry.kind === 'enrichment') {
+		lines.push('Metadata: (not recorded; entry predates the v3 envelope)')
+	}
+	return lines.join('\n')
+}
+
+/**
+ * Write all output files.
+ * @param rawFiles Extra raw payloads keyed by file name (e.g. from source
+ *   adapters). Written alongside the fixed raw files.
+ */
 export function writeOutputs(
 	report: Report,
 	rawOpenai?: Record<string, unknown> | null,
 	rawXai?: Record<string, unknown> | null,
 	rawRedditEnriched?: Record<string, unknown>[] | null,
 	outdir?: string,
+	rawFiles: Record<string, unknown> = {},
 ): void {
 	const dir = outdir || OUTPUT_DIR
 	mkdirSync(dir, { recursive: true })
 
 	// Clean stale raw files from previous runs
-	const rawFiles = [
+	const staleFiles = new Set([
 		'raw_openai.json',
 		'raw_xai.json',
 		'raw_reddit_threads_enriched.json',
-	]
-	for (const file of rawFiles) {
+		'raw_hackernews.json',
+		'raw_hackernews_enriched.json',
+		...Object.keys(rawFiles),
+	])
+	for (const file of staleFiles) {
 		try {
 			unlinkSync(join(dir, file))
 		} catch {
@@ -397,6 +1383,7 @@ export function writeOutputs(
 		JSON.stringify(reportToDict(report), null, 2),
 	)
 	writeFileSync(join(dir, 'report.md'), renderFullReport(report))
+	writeFileSync(join(dir, 'report.html'), renderHtml(report))
 	writeFileSync(
 		join(dir, 'last-30-days.context.md'),
 		renderContextSnippet(report),
@@ -417,6 +1404,9 @@ export function writeOutputs(
 			JSON.stringify(rawRedditEnriched, null, 2),
 		)
 	}
+	for (const [file, data] of Object.entries(rawFiles)) {
+		if (data) writeFileSync(join(dir, file), JSON.stringify(data, null, 2))
+	}
 }
 
 /** Get path to context file. */
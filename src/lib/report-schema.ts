@@ -0,0 +1,297 @@
+/**
+ * JSON Schema for the serialized report (`reportToDict` output).
+ *
+ * Kept in step with the interfaces in schema.ts; bump
+ * `REPORT_SCHEMA_VERSION` and add a migration there when the shape changes.
+ * `bun run schema:gen` writes it to schemas/ for the published package.
+ */
+
+import { REPORT_SCHEMA_VERSION } from './schema.js'
+
+const nullable = (type: string) => ({ type: [type, 'null'] })
+
+const dateString = {
+	type: ['string', 'null'],
+	pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+}
+
+const engagement = {
+	type: ['object', 'null'],
+	properties: {
+		score: { type: 'number' },
+		num_comments: { type: 'number' },
+		upvote_ratio: { type: 'number' },
+		likes: { type: 'number' },
+		reposts: { type: 'number' },
+		replies: { type: 'number' },
+		quotes: { type: 'number' },
+		points: { type: 'number' },
+	},
+	additionalProperties: false,
+}
+
+const comment = {
+	type: 'object',
+	required: ['score', 'date', 'author', 'excerpt', 'url'],
+	properties: {
+		score: { type: 'number' },
+		date: dateString,
+		author: { type: 'string' },
+		excerpt: { type: 'string' },
+		url: { type: 'string' },
+	},
+}
+
+const subScores = {
+	type: 'object',
+	required: ['relevance', 'recency', 'engagement'],
+	properties: {
+		relevance: { type: 'number' },
+		recency: { type: 'number' },
+		engagement: { type: 'number' },
+	},
+	additionalProperties: false,
+}
+
+const explain = {
+	type: ['object', 'null'],
+	required: ['components', 'adjustments', 'normalization', 'max_days', 'total'],
+	properties: {
+		components: {
+			type: 'array',
+			items: {
+				type: 'object',
+				required: ['name', 'raw', 'value', 'weight', 'contribution'],
+				properties: {
+					name: { enum: ['relevance', 'recency', 'engagement'] },
+					raw: nullable('number'),
+					value: { type: 'number' },
+					weight: { type: 'number' },
+					contribution: { type: 'number' },
+				},
+			},
+		},
+		adjustments: {
+			type: 'array',
+			items: {
+				type: 'object',
+				required: ['reason', 'points'],
+				properties: {
+					reason: { type: 'string' },
+					points: { type: 'number' },
+				},
+			},
+		},
+		normalization: {
+			type: ['object', 'null'],
+			required: ['min', 'max'],
+			properties: { min: { type: 'number' }, max: { type: 'number' } },
+		},
+		max_days: { type: 'integer' },
+		total: { type: 'number' },
+	},
+}
+
+const baseItemProperties = {
+	id: { type: 'string' },
+	url: { type: 'string' },
+	date: dateString,
+	date_confidence: { enum: ['high', 'med', 'low'] },
+	relevance: { type: 'number', minimum: 0, maximum: 1 },
+	why_relevant: { type: 'string' },
+	subs: subScores,
+	score: { type: 'number', minimum: 0, maximum: 100 },
+	explain,
+	cluster_id: nullable('string'),
+}
+
+const baseItemRequired = Object.keys(baseItemProperties)
+
+/** Items from other adapters: the base fields plus whatever they add. */
+const extraItem = {
+	type: 'object',
+	required: baseItemRequired.filter((key) => key !== 'cluster_id'),
+	properties: baseItemProperties,
+}
+
+function item(properties: Record<string, unknown>): Record<string, unknown> {
+	return {
+		type: 'object',
+		required: [...baseItemRequired, ...Object.keys(properties)],
+		properties: { ...baseItemProperties, ...properties },
+		additionalProperties: false,
+	}
+}
+
+const scoringWeights = {
+	type: 'object',
+	required: [
+		'relevance',
+		'recency',
+		'engagement',
+		'web_relevance',
+		'web_recency',
+		'web_source_penalty',
+		'web_verified_bonus',
+		'web_no_date_penalty',
+		'default_engagement',
+		'unknown_engagement_penalty',
+	],
+	additionalProperties: { type: 'number' },
+}
+
+const parseDiagnostics = {
+	type: 'object',
+	required: ['output_chars', 'received', 'accepted', 'issues'],
+	properties: {
+		output_chars: { type: 'integer', minimum: 0 },
+		received: { type: 'integer', minimum: 0 },
+		accepted: { type: 'integer', minimum: 0 },
+		issues: {
+			type: 'array',
+			items: {
+				type: 'object',
+				required: ['reason', 'index', 'detail', 'dropped'],
+				properties: {
+					reason: {
+						enum: [
+							'unparsable_json',
+							'truncated_output',
+							'not_an_object',
+							'missing_url',
+							'bad_url',
+							'wrong_domain',
+							'invalid_date',
+						],
+					},
+					index: nullable('integer'),
+					detail: { type: 'string' },
+					dropped: { type: 'boolean' },
+				},
+			},
+		},
+	},
+}
+
+/** JSON Schema (draft 2020-12) describing `reportToDict` output. */
+export const REPORT_JSON_SCHEMA = {
+	$schema: 'https://json-schema.org/draft/2020-12/schema',
+	$id: 'https://unpkg.com/@side-quest/last-30-days/schemas/last-30-days-report.schema.json',
+	title: 'last-30-days report',
+	description: `Research report written to report.json (schema_version ${REPORT_SCHEMA_VERSION}).`,
+	type: 'object',
+	required: [
+		'schema_version',
+		'topic',
+		'days',
+		'range',
+		'generated_at',
+		'mode',
+		'items',
+		'stories',
+		'best_practices',
+		'prompt_pack',
+		'context_snippet_md',
+	],
+	properties: {
+		schema_version: { const: REPORT_SCHEMA_VERSION },
+		topic: { type: 'string' },
+		days: { type: 'integer', minimum: 1, maximum: 365 },
+		range: {
+			type: 'object',
+			required: ['from', 'to'],
+			properties: { from: { type: 'string' }, to: { type: 'string' } },
+		},
+		generated_at: { type: 'string', format: 'date-time' },
+		mode: { type: 'string' },
+		openai_model_used: nullable('string'),
+		xai_model_used: nullable('string'),
+		items: {
+			description:
+				'Items per source, keyed by adapter name. Sources that did not run have no key.',
+			type: 'object',
+			properties: {
+				reddit: {
+					type: 'array',
+					items: item({
+						title: { type: 'string' },
+						subreddit: { type: 'string' },
+						engagement,
+						top_comments: { type: 'array', items: comment },
+						comment_insights: { type: 'array', items: { type: 'string' } },
+					}),
+				},
+				x: {
+					type: 'array',
+					items: item({
+						text: { type: 'string' },
+						author_handle: { type: 'string' },
+						engagement,
+					}),
+				},
+				hn: {
+					type: 'array',
+					items: item({
+						title: { type: 'string' },
+						story_url: nullable('string'),
+						author: { type: 'string' },
+						engagement,
+						top_comments: { type: 'array', items: comment },
+						comment_insights: { type: 'array', items: { type: 'string' } },
+					}),
+				},
+				web: {
+					type: 'array',
+					items: item({
+						title: { type: 'string' },
+						source_domain: { type: 'string' },
+						snippet: { type: 'string' },
+					}),
+				},
+			},
+			additionalProperties: { type: 'array', items: extraItem },
+		},
+		errors: {
+			description: 'Search error per source that failed, keyed like items.',
+			type: 'object',
+			additionalProperties: { type: 'string' },
+		},
+		stories: {
+			type: 'array',
+			items: {
+				type: 'object',
+				required: ['id', 'title', 'score', 'sources', 'item_ids', 'urls'],
+				properties: {
+					id: { type: 'string' },
+					title: { type: 'string' },
+					score: { type: 'number' },
+					sources: { type: 'array', items: { type: 'string' } },
+					item_ids: { type: 'array', items: { type: 'string' } },
+					urls: { type: 'array', items: { type: 'string' } },
+				},
+			},
+		},
+		scoring_profile: {
+			type: ['object', 'null'],
+			required: ['name', 'weights'],
+			properties: { name: { type: 'string' }, weights: scoringWeights },
+		},
+		parse_diagnostics: {
+			description:
+				'Per-source validation of LLM-returned items, keyed by source name.',
+			type: 'object',
+			additionalProperties: parseDiagnostics,
+		},
+		best_practices: { type: 'array', items: { type: 'string' } },
+		prompt_pack: { type: 'array', items: { type: 'string' } },
+		context_snippet_md: { type: 'string' },
+		synthesis_error: { type: 'string' },
+		from_cache: { type: 'boolean' },
+		cache_age_hours: { type: 'number' },
+		web_search_instructions: {
+			description: 'Added by the CLI in web modes with --emit=json.',
+			type: 'object',
+		},
+	},
+	additionalProperties: false,
+} as const
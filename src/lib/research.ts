@@ -0,0 +1,497 @@
+/**
+ * Programmatic research pipeline for last-30-days skill.
+ *
+ * Runs search -> enrich -> normalize -> score -> dedupe -> cluster -> report
+ * for a topic. The CLI is a thin wrapper around `research()`; library consumers
+ * call it directly instead of re-implementing the orchestration.
+ */
+
+import * as cache from './cache.js'
+import * as cassette from './cassette.js'
+import * as config from './config.js'
+import { getDateRange } from './dates.js'
+import { clusterStories } from './dedupe.js'
+import * as history from './history.js'
+import { parseRateLimits, setRateLimits, type Transport } from './http.js'
+import * as models from './models.js'
+import * as render from './render.js'
+import type { ScoringProfile, ScoringWeights } from './schema.js'
+import * as schema from './schema.js'
+import { parseScoringWeights, resolveScoringProfile } from './score.js'
+import {
+	assignSourceResult,
+	enrichSourceItems,
+	getSource,
+	loadFixture,
+	processSourceItems,
+	resolveSources,
+	runSourceSearch,
+	type SourceAdapter,
+	type SourceContext,
+	type SourceSearchResult,
+	type SourceSelection,
+} from './sources.js'
+import * as synthesis from './synthesize.js'
+import type { ProgressDisplay, SourceCount } from './ui.js'
+import { formatParseDiagnostics } from './validate.js'
+
+/** Research depth presets. */
+export type ResearchDepth = 'quick' | 'default' | 'deep'
+
+/** Options accepted by `research()`. Mirrors the CLI flags. */
+export interface ResearchOptions {
+	/** Lookback window in days (1-365). Default: 30. */
+	days?: number
+	/** Research depth. Default: 'default'. */
+	depth?: ResearchDepth
+	/**
+	 * Source selection: auto|reddit|x|both|web, or a comma-separated list of
+	 * registered adapter names. Default: 'auto'.
+	 */
+	sources?: string
+	/** Include general web search alongside Reddit/X. */
+	includeWeb?: boolean
+	/** Bypass cache reads and force fresh search. */
+	refresh?: boolean
+	/** Disable cache reads and writes. */
+	noCache?: boolean
+	/** Directory for output files. Implies `writeOutputs` when set. */
+	outdir?: string
+	/** Write report/raw files to disk. Default: true when `outdir` is set. */
+	writeOutputs?: boolean
+	/** Persist the report to the run history store (skipped in mock and replay modes). */
+	saveHistory?: boolean
+	/** History store root. Default: ~/.local/share/last-30-days/history. */
+	historyDir?: string
+	/**
+	 * Scoring profile: default|recency|engagement|relevance|custom.
+	 * Default: `SCORING_PROFILE` from config, else 'default'.
+	 */
+	profile?: string
+	/**
+	 * Weight overrides on top of the profile (makes it "custom").
+	 * Default: parsed from `SCORING_WEIGHTS` in config.
+	 */
+	weights?: Partial<ScoringWeights>
+	/** Fill best_practices/prompt_pack via the configured OpenAI/xAI model. */
+	synthesize?: boolean
+	/** Use fixtures instead of real API calls. */
+	mock?: boolean
+	/**
+	 * Record every HTTP interaction to a cassette directory, or replay a
+	 * recorded one without network access. Neither reads nor writes the search
+	 * cache, so recording never overwrites cached results.
+	 */
+	cassette?: cassette.CassetteOptions
+	/**
+	 * HTTP transport for every upstream request (proxies, tracing headers,
+	 * test fakes). Default: global `fetch`.
+	 */
+	transport?: Transport
+	/** Config override (API keys, model policy). Default: `getConfig()`. */
+	config?: Record<string, string | null>
+	/** Optional progress display for terminal feedback. */
+	progress?: ProgressDisplay
+	/** Surface non-fatal warnings (e.g. run history save failures) on stderr. */
+	debug?: boolean
+}
+
+/** Invalid research options (bad days, depth, sources, or scoring). */
+export class ResearchError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'ResearchError'
+	}
+}
+
+/** Modes that hand web search off to the caller (Claude's WebSearch tool). */
+const WEB_MODES = ['all', 'web-only', 'reddit-web', 'x-web']
+
+/** Whether a report mode expects the caller to run web search. */
+export function isWebMode(mode: string): boolean {
+	return WEB_MODES.includes(mode) || mode.endsWith('+web')
+}
+
+/**
+ * Research a topic across the selected sources and return a scored report.
+ *
+ * @throws ResearchError when options are invalid or the requested sources
+ *   cannot be served with the configured API keys.
+ */
+export async function research(
+	topic: string,
+	options: ResearchOptions = {},
+): Promise<schema.Report> {
+	if (!options.cassette) return runResearch(topic, options)
+	if (options.mock) {
+		throw new ResearchError('Cannot combine mock mode with a cassette.')
+	}
+	try {
+		cassette.useCassette(options.cassette)
+	} catch (e) {
+		throw new ResearchError(e instanceof Error ? e.message : String(e))
+	}
+	try {
+		return await runResearch(topic, options)
+	} finally {
+		cassette.useCassette(null)
+	}
+}
+
+/** Rebuild the source selection a cassette was recorded with. */
+function replaySources(
+	recorded: NonNullable<cassette.CassetteManifest['sources']>,
+): [SourceSelection, string | null] {
+	const adapters: SourceAdapter[] = []
+	for (const name of recorded.adapters) {
+		const adapter = getSource(name)
+		if (!adapter) {
+			return [
+				{ adapters: [], mode: 'none', web: false },
+				`Cassette was recorded with source "${name}", which is not registered.`,
+			]
+		}
+		adapters.push(adapter)
+	}
+	return [{ adapters, mode: recorded.mode, web: recorded.web }, null]
+}
+
+async function runResearch(
+	topic: string,
+	options: ResearchOptions,
+): Promise<schema.Report> {
+	const {
+		days = 30,
+		depth = 'default',
+		sources: requestedSources = 'auto',
+		includeWeb = false,
+		refresh = false,
+		noCache = false,
+		outdir,
+		writeOutputs = Boolean(outdir),
+		saveHistory = false,
+		historyDir,
+		synthesize = false,
+		mock = false,
+		progress,
+		debug = false,
+		transport,
+	} = options
+
+	if (!topic.trim()) {
+		throw new ResearchError('Please provide a topic to research.')
+	}
+	if (!Number.isInteger(days) || days < 1 || days > 365) {
+		throw new ResearchError('days must be an integer between 1 and 365.')
+	}
+	if (!['quick', 'default', 'deep'].includes(depth)) {
+		throw new ResearchError(
+			`Invalid depth: "${depth}". Valid: quick, default, deep`,
+		)
+	}
+
+	// Load config
+	const cfg = options.config ?? config.getConfig()
+	const replaying = options.cassette?.mode === 'replay'
+	// Replay reruns the recording's sources and models, so it needs no keys
+	const recording = replaying ? cassette.readCassetteManifest() : null
+
+	let scoring: ScoringProfile
+	try {
+		scoring = resolveScoringProfile(
+			options.profile ?? cfg.SCORING_PROFILE ?? 'default',
+			options.weights ??
+				(cfg.SCORING_WEIGHTS ? parseScoringWeights(cfg.SCORING_WEIGHTS) : {}),
+		)
+	} catch (e) {
+		throw new ResearchError(e instanceof Error ? e.message : String(e))
+	}
+
+	if (cfg.CACHE_BACKEND || cfg.CACHE_LIMITS) {
+		try {
+			if (cfg.CACHE_BACKEND) cache.setCacheBackend(cfg.CACHE_BACKEND)
+			if (cfg.CACHE_LIMITS) {
+				cache.setCacheLimits(cache.parseCacheLimits(cfg.CACHE_LIMITS))
+			}
+		} catch (e) {
+			throw new ResearchError(e instanceof Error ? e.message : String(e))
+		}
+	}
+
+	if (cfg.RATE_LIMITS) {
+		try {
+			setRateLimits(parseRateLimits(cfg.RATE_LIMITS))
+		} catch (e) {
+			throw new ResearchError(e instanceof Error ? e.message : String(e))
+		}
+	}
+
+	if (
+		synthesize &&
+		!mock &&
+		!replaying &&
+		!cfg.OPENAI_API_KEY &&
+		!cfg.XAI_API_KEY
+	) {
+		throw new ResearchError('Synthesis requires OPENAI_API_KEY or XAI_API_KEY.')
+	}
+
+	// Determine sources
+	const [selection, sourceError] = recording?.sources
+		? replaySources(recording.sources)
+		: resolveSources(requestedSources, cfg, includeWeb, mock)
+	if (sourceError) {
+		if (!sourceError.includes('WebSearch fallback')) {
+			throw new ResearchError(sourceError)
+		}
+		if (!mock) progress?.showNote(sourceError)
+	}
+
+	// Get date range
+	const [fromDate, toDate] = getDateRange(days)
+	const missingKeys = config.getMissingKeys(cfg)
+
+	if (missingKeys !== 'none') progress?.showPromo(missingKeys)
+
+	// Select models
+	let selectedModels: Record<string, string | null>
+	if (mock) {
+		const mockOpenai =
+			(loadFixture('models_openai_sample.json').data as Record<
+				string,
+				unknown
+			>[]) ?? []
+		const mockXai =
+			(loadFixture('models_xai_sample.json').data as Record<
+				string,
+				unknown
+			>[]) ?? []
+		selectedModels = await models.getModels(
+			{ OPENAI_API_KEY: 'mock', XAI_API_KEY: 'mock', ...cfg },
+			mockOpenai,
+			mockXai,
+		)
+	} else if (replaying) {
+		selectedModels =
+			recording?.models ?? (await models.getModels(cfg, null, null, transport))
+	} else {
+		selectedModels = await models.getModels(cfg, null, null, transport)
+		cassette.writeCassetteManifest({
+			models: selectedModels,
+			sources: {
+				adapters: selection.adapters.map((a) => a.name),
+				mode: selection.mode,
+				web: selection.web,
+			},
+			synthesis: synthesize
+				? (synthesis.getSynthesisTarget(cfg, selectedModels)?.provider ?? null)
+				: null,
+		})
+	}
+
+	// Web-only mode
+	if (selection.adapters.length === 0 && selection.web) {
+		progress?.startWebOnly()
+		progress?.endWebOnly()
+	}
+
+	// Cache configuration
+	const cacheOpts = {
+		skipRead: refresh || noCache || Boolean(options.cassette),
+		skipWrite: noCache || Boolean(options.cassette),
+	}
+
+	const ctx: SourceContext = {
+		topic,
+		fromDate,
+		toDate,
+		days,
+		depth,
+		config: cfg,
+		models: selectedModels,
+		mock,
+		scoring,
+		transport,
+	}
+
+	// Run searches in parallel
+	const results = new Map<SourceAdapter, SourceSearchResult>()
+	await Promise.allSettled(
+		selection.adapters.map((adapter) => {
+			progress?.startSource(adapter.label)
+			return runSourceSearch(adapter, ctx, cacheOpts).then((result) => {
+				results.set(adapter, result)
+				if (result.error) {
+					progress?.showError(`${adapter.label} error: ${result.error}`)
+				}
+				progress?.endSource(adapter.label, result.items.length, adapter.noun)
+			})
+		}),
+	)
+
+	let anyFromCache = false
+	let maxCacheAge: number | null = null
+	const rateLimitedSources: string[] = []
+	let anyUsedStaleCache = false
+	for (const [adapter, result] of results) {
+		if (result.fromCache) {
+			anyFromCache = true
+			if (
+				result.cacheAgeHours != null &&
+				(maxCacheAge == null || result.cacheAgeHours > maxCacheAge)
+			) {
+				maxCacheAge = result.cacheAgeHours
+			}
+		}
+		if (result.rateLimited) rateLimitedSources.push(adapter.label)
+		if (result.usedStaleCache) anyUsedStaleCache = true
+	}
+
+	if (anyFromCache && rateLimitedSources.length === 0) {
+		progress?.showCached(maxCacheAge)
+	}
+	if (rateLimitedSources.length > 0) {
+		progress?.showRateLimited(
+			rateLimitedSources.join('/'),
+			anyUsedStaleCache,
+			maxCacheAge,
+		)
+	}
+
+	// Enrich items (sequential per source to stay gentle on upstreams)
+	const rawFiles: Record<string, unknown> = {}
+	for (const adapter of selection.adapters) {
+		const result = results.get(adapter)
+		if (!result) continue
+		const enriched = await enrichSourceItems(
+			adapter,
+			result.items,
+			ctx,
+			cacheOpts,
+			progress,
+		)
+		if (adapter.rawFile && result.raw) rawFiles[adapter.rawFile] = result.raw
+		if (adapter.enrichedRawFile && adapter.enrich) {
+			rawFiles[adapter.enrichedRawFile] = enriched
+		}
+	}
+
+	// Processing phase
+	progress?.startProcessing()
+
+	const report = schema.createReport(
+		topic,
+		fromDate,
+		toDate,
+		selection.mode,
+		selectedModels.openai,
+		selectedModels.xai,
+		days,
+	)
+	const counts: SourceCount[] = []
+	for (const adapter of selection.adapters) {
+		const result = results.get(adapter)
+		if (!result) continue
+		const items = processSourceItems(adapter, result.items, ctx)
+		assignSourceResult(report, adapter, items, result.error)
+		if (result.diagnostics) {
+			report.parse_diagnostics[adapter.name] = result.diagnostics
+			if (debug) {
+				process.stderr.write(
+					`[DEBUG] ${adapter.label} parse: ${formatParseDiagnostics(result.diagnostics)}\n`,
+				)
+				for (const issue of result.diagnostics.issues) {
+					const where = issue.index == null ? '' : ` item ${issue.index}`
+					process.stderr.write(
+						`[DEBUG]   ${issue.reason}${where}: ${issue.detail}\n`,
+					)
+				}
+			}
+		}
+		counts.push({
+			label: adapter.label,
+			count: items.length,
+			noun: adapter.noun,
+		})
+	}
+
+	report.scoring_profile = scoring
+	clusterStories(report)
+	progress?.endProcessing()
+
+	report.from_cache = anyFromCache
+	report.cache_age_hours = maxCacheAge
+
+	// Synthesis (optional): needs items to cite
+	const itemCount = counts.reduce((n, c) => n + c.count, 0)
+	if (synthesize && itemCount > 0) {
+		progress?.startSynthesis()
+		const target = mock
+			? {
+					provider: 'openai' as const,
+					url: '',
+					apiKey: 'mock',
+					model: selectedModels.openai ?? 'mock',
+				}
+			: replaying && recording?.synthesis
+				? synthesis.getReplaySynthesisTarget(
+						recording.synthesis,
+						selectedModels,
+					)
+				: synthesis.getSynthesisTarget(cfg, selectedModels)
+		try {
+			if (!target) throw new Error('no OpenAI or xAI model available')
+			const result = await synthesis.synthesizeReport(
+				report,
+				target,
+				mock ? loadFixture('synthesis_sample.json') : null,
+				transport,
+			)
+			report.best_practices = result.best_practices
+			report.prompt_pack = result.prompt_pack
+		} catch (e) {
+			report.synthesis_error = `Synthesis failed: ${e}`
+			progress?.showError(report.synthesis_error)
+		}
+		progress?.endSynthesis(report.best_practices.length)
+	}
+
+	report.context_snippet_md = render.renderContextSnippet(report)
+
+	// Write outputs
+	if (writeOutputs) {
+		try {
+			render.writeOutputs(
+				report,
+				null,
+				null,
+				null,
+				outdir || undefined,
+				rawFiles,
+			)
+		} catch (e) {
+			// The caller asked for these files, so a failure is never silent
+			process.stderr.write(`Warning: Could not write output files: ${e}\n`)
+		}
+	}
+
+	// Persist to run history (fixtures would pollute real history)
+	if (saveHistory && !mock && !replaying) {
+		try {
+			history.saveRun(report, historyDir)
+		} catch (e) {
+			if (debug) {
+				process.stderr.write(`Warning: Could not save run history: ${e}\n`)
+			}
+		}
+	}
+
+	// Show completion
+	if (selection.adapters.length === 0 && selection.web) {
+		progress?.showWebOnlyComplete()
+	} else {
+		progress?.showComplete(counts)
+	}
+
+	return report
+}
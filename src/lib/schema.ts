@@ -1,5 +1,11 @@
 /** Data schemas for last-30-days skill. */
 
+/**
+ * Version of the serialized report format (`reportToDict`). Bump it and add
+ * a step to `REPORT_MIGRATIONS` whenever that shape changes.
+ */
+export const REPORT_SCHEMA_VERSION = 2
+
 /** Engagement metrics. */
 export interface Engagement {
 	// Reddit fields
@@ -11,6 +17,8 @@ export interface Engagement {
 	reposts?: number | null
 	replies?: number | null
 	quotes?: number | null
+	// Hacker News fields (also uses num_comments)
+	points?: number | null
 }
 
 /** Reddit comment. */
@@ -29,6 +37,56 @@ export interface SubScores {
 	engagement: number
 }
 
+/** One weighted subscore in a score explanation. */
+export interface ScoreComponent {
+	name: 'relevance' | 'recency' | 'engagement'
+	/** Input before scaling: relevance 0-1, age in days, or raw engagement. */
+	raw: number | null
+	/** Subscore (0-100). */
+	value: number
+	weight: number
+	/** `weight * value`, rounded to 2 decimals. */
+	contribution: number
+}
+
+/** Flat deduction (negative points) or bonus applied after weighting. */
+export interface ScoreAdjustment {
+	reason: string
+	points: number
+}
+
+/** How an item's score was computed, filled in by the `score*Items` functions. */
+export interface ScoreExplain {
+	components: ScoreComponent[]
+	adjustments: ScoreAdjustment[]
+	/** Raw engagement range the batch was normalized over; null without engagement. */
+	normalization: { min: number; max: number } | null
+	/** Recency window in days. */
+	max_days: number
+	/** Weighted sum plus adjustments, before clamping to 0-100. */
+	total: number
+}
+
+/** Fields shared by every scored item, whatever its source. */
+export interface BaseItem {
+	id: string
+	/** Headline; X posts carry `text` instead (see `getItemTitle`). */
+	title?: string
+	url: string
+	date: string | null
+	date_confidence: string
+	/** Absent for sources without engagement metrics (web). */
+	engagement?: Engagement | null
+	relevance: number
+	why_relevant: string
+	subs: SubScores
+	score: number
+	/** Score breakdown, null until scored. */
+	explain: ScoreExplain | null
+	/** Cross-source story this item belongs to (see `clusterStories`). */
+	cluster_id?: string | null
+}
+
 /** Normalized Reddit item. */
 export interface RedditItem {
 	id: string
@@ -44,6 +102,10 @@ export interface RedditItem {
 	why_relevant: string
 	subs: SubScores
 	score: number
+	/** Score breakdown, null until scored. */
+	explain: ScoreExplain | null
+	/** Cross-source story this item belongs to (see `clusterStories`). */
+	cluster_id: string | null
 }
 
 /** Normalized X item. */
@@ -59,6 +121,32 @@ export interface XItem {
 	why_relevant: string
 	subs: SubScores
 	score: number
+	/** Score breakdown, null until scored. */
+	explain: ScoreExplain | null
+	/** Cross-source story this item belongs to (see `clusterStories`). */
+	cluster_id: string | null
+}
+
+/** Normalized Hacker News story. `url` is the HN discussion page. */
+export interface HackerNewsItem {
+	id: string
+	title: string
+	url: string
+	story_url: string | null
+	author: string
+	date: string | null
+	date_confidence: string
+	engagement: Engagement | null
+	top_comments: Comment[]
+	comment_insights: string[]
+	relevance: number
+	why_relevant: string
+	subs: SubScores
+	score: number
+	/** Score breakdown, null until scored. */
+	explain: ScoreExplain | null
+	/** Cross-source story this item belongs to (see `clusterStories`). */
+	cluster_id: string | null
 }
 
 /** Normalized web search item (no engagement metrics). */
@@ -74,8 +162,98 @@ export interface WebSearchItem {
 	why_relevant: string
 	subs: SubScores
 	score: number
+	/** Score breakdown, null until scored. */
+	explain: ScoreExplain | null
+	/** Cross-source story this item belongs to (see `clusterStories`). */
+	cluster_id: string | null
+}
+
+/** Weights and adjustments used to compute item scores. */
+export interface ScoringWeights {
+	/** Relevance/recency/engagement mix for sources with engagement. */
+	relevance: number
+	recency: number
+	engagement: number
+	/** Relevance/recency mix for web results (no engagement). */
+	web_relevance: number
+	web_recency: number
+	/** Flat deduction for web results vs. discussion sources. */
+	web_source_penalty: number
+	/** Web bonus for a verified date, penalty for none. */
+	web_verified_bonus: number
+	web_no_date_penalty: number
+	/** Engagement subscore assumed when metrics are missing. */
+	default_engagement: number
+	unknown_engagement_penalty: number
 }
 
+/** Named scoring profile a report was scored with. */
+export interface ScoringProfile {
+	name: string
+	weights: ScoringWeights
+}
+
+/** Why an LLM-returned response or item was rejected or repaired. */
+export type ParseIssueReason =
+	| 'unparsable_json'
+	| 'truncated_output'
+	| 'not_an_object'
+	| 'missing_url'
+	| 'bad_url'
+	| 'wrong_domain'
+	| 'invalid_date'
+
+/** One problem found while validating a model's search output. */
+export interface ParseIssue {
+	reason: ParseIssueReason
+	/** Index in the model's `items` array; null for response-level issues. */
+	index: number | null
+	detail: string
+	/** False when the item was kept with the bad field cleared. */
+	dropped: boolean
+}
+
+/** Validation summary for one source's model output (see validate.ts). */
+export interface ParseDiagnostics {
+	/** Length of the model's output text; 0 if it returned none. */
+	output_chars: number
+	/** Items the model returned. */
+	received: number
+	/** Items that passed validation. */
+	accepted: number
+	issues: ParseIssue[]
+}
+
+/** Items about the same thing across sources, grouped by `clusterStories`. */
+export interface Story {
+	id: string
+	title: string
+	/** Highest member score plus a bonus per extra corroborating source. */
+	score: number
+	sources: string[]
+	item_ids: string[]
+	urls: string[]
+}
+
+/** Item type of each built-in report section, keyed by adapter name. */
+export interface ReportSections {
+	reddit: RedditItem
+	x: XItem
+	hn: HackerNewsItem
+	web: WebSearchItem
+}
+
+/** A built-in report section. */
+export type ReportSection = keyof ReportSections
+
+/** Built-in sections in display order. Other adapters' sections follow. */
+export const REPORT_SECTIONS: readonly ReportSection[] = [
+	'reddit',
+	'x',
+	'hn',
+	'web',
+]
+
 /** Full research report. */
 export interface Report {
 	topic: string
@@ -86,19 +264,58 @@ export interface Report {
 	mode: string
 	openai_model_used: string | null
 	xai_model_used: string | null
-	reddit: RedditItem[]
-	x: XItem[]
-	web: WebSearchItem[]
+	/**
+	 * Items per source, keyed by adapter section (see `ReportSections` for
+	 * the built-in ones). Sources that did not run have no key.
+	 */
+	items: Record<string, BaseItem[]>
+	/** Search error per source that failed, keyed like `items`. */
+	errors: Record<string, string>
+	stories: Story[]
+	scoring_profile: ScoringProfile | null
+	/** LLM output validation per source name, when a search ran this run. */
+	parse_diagnostics: Record<string, ParseDiagnostics>
 	best_practices: string[]
 	prompt_pack: string[]
 	context_snippet_md: string
-	reddit_error: string | null
-	x_error: string | null
-	web_error: string | null
+	synthesis_error: string | null
 	from_cache: boolean
 	cache_age_hours: number | null
 }
 
+/** Items of a report section, typed for the built-in sections. */
+export function getSectionItems<K extends ReportSection>(
+	report: Report,
+	section: K,
+): ReportSections[K][]
+export function getSectionItems(report: Report, section: string): BaseItem[]
+export function getSectionItems(report: Report, section: string): BaseItem[] {
+	return report.items[section] ?? []
+}
+
+/**
+ * Sections from adapters other than the built-in ones that have items or an
+ * error, in the order they were added.
+ */
+export function getExtraSections(report: Report): string[] {
+	const builtin: readonly string[] = REPORT_SECTIONS
+	return [
+		...new Set([...Object.keys(report.items), ...Object.keys(report.errors)]),
+	].filter((section) => !builtin.includes(section))
+}
+
+/** Every item in the report, across sections. */
+export function getAllItems(report: Report): BaseItem[] {
+	return Object.values(report.items).flat()
+}
+
+/** Headline of an item: its `title`, else an X-style `text`, else its URL. */
+export function getItemTitle(item: BaseItem): string {
+	if (item.title) return item.title
+	if ('text' in item && typeof item.text === 'string') return item.text
+	return item.url
+}
+
 /** Serialize engagement to dict, omitting null fields. Returns null if all fields null. */
 export function engagementToDict(
 	eng: Engagement | null,
@@ -112,12 +329,14 @@ export function engagementToDict(
 	if (eng.reposts != null) d.reposts = eng.reposts
 	if (eng.replies != null) d.replies = eng.replies
 	if (eng.quotes != null) d.quotes = eng.quotes
+	if (eng.points != null) d.points = eng.points
 	return Object.keys(d).length > 0 ? d : null
 }
 
 /** Serialize a Report to a plain object for JSON output. */
 export function reportToDict(report: Report): Record<string, unknown> {
 	const d: Record<string, unknown> = {
+		schema_version: REPORT_SCHEMA_VERSION,
 		topic: report.topic,
 		days: report.days,
 		range: { from: report.range_from, to: report.range_to },
@@ -125,22 +344,26 @@ export function reportToDict(report: Report): Record<string, unknown> {
 		mode: report.mode,
 		openai_model_used: report.openai_model_used,
 		xai_model_used: report.xai_model_used,
-		reddit: report.reddit.map((r) => ({
-			...r,
-			engagement: engagementToDict(r.engagement),
-		})),
-		x: report.x.map((x) => ({
-			...x,
-			engagement: engagementToDict(x.engagement),
-		})),
-		web: report.web,
+		items: Object.fromEntries(
+			Object.entries(report.items).map(([section, items]) => [
+				section,
+				items.map((item) =>
+					item.engagement === undefined
+						? item
+						: { ...item, engagement: engagementToDict(item.engagement) },
+				),
+			]),
+		),
+		stories: report.stories,
+		scoring_profile: report.scoring_profile,
 		best_practices: report.best_practices,
 		prompt_pack: report.prompt_pack,
 		context_snippet_md: report.context_snippet_md,
 	}
-	if (report.reddit_error) d.reddit_error = report.reddit_error
-	if (report.x_error) d.x_error = report.x_error
-	if (report.web_error) d.web_error = report.web_error
+	if (Object.keys(report.errors).length > 0) d.errors = report.errors
+	if (report.synthesis_error) d.synthesis_error = report.synthesis_error
+	if (Object.keys(report.parse_diagnostics).length > 0)
+		d.parse_diagnostics = report.parse_diagnostics
 	if (report.from_cache) d.from_cache = report.from_cache
 	if (report.cache_age_hours != null) d.cache_age_hours = report.cache_age_hours
 	return d
@@ -170,6 +393,8 @@ export function defaultRedditItem(
 		why_relevant: '',
 		subs: defaultSubScores(),
 		score: 0,
+		explain: null,
+		cluster_id: null,
 		...partial,
 	}
 }
@@ -191,6 +416,34 @@ export function defaultXItem(
 		why_relevant: '',
 		subs: defaultSubScores(),
 		score: 0,
+		explain: null,
+		cluster_id: null,
+		...partial,
+	}
+}
+
+/** Create a default HackerNewsItem. */
+export function defaultHackerNewsItem(
+	partial: Partial<HackerNewsItem> & {
+		id: string
+		title: string
+		url: string
+	},
+): HackerNewsItem {
+	return {
+		story_url: null,
+		author: '',
+		date: null,
+		date_confidence: 'low',
+		engagement: null,
+		top_comments: [],
+		comment_insights: [],
+		relevance: 0.5,
+		why_relevant: '',
+		subs: defaultSubScores(),
+		score: 0,
+		explain: null,
+		cluster_id: null,
 		...partial,
 	}
 }
@@ -212,6 +465,8 @@ export function defaultWebSearchItem(
 		why_relevant: '',
 		subs: defaultSubScores(),
 		score: 0,
+		explain: null,
+		cluster_id: null,
 		...partial,
 	}
 }
@@ -235,86 +490,242 @@ export function createReport(
 		mode,
 		openai_model_used: openaiModel,
 		xai_model_used: xaiModel,
-		reddit: [],
-		x: [],
-		web: [],
+		items: {},
+		errors: {},
+		stories: [],
+		scoring_profile: null,
+		parse_diagnostics: {},
 		best_practices: [],
 		prompt_pack: [],
 		context_snippet_md: '',
-		reddit_error: null,
-		x_error: null,
-		web_error: null,
+		synthesis_error: null,
 		from_cache: false,
 		cache_age_hours: null,
 	}
 }
 
-/** Reconstruct a Report from a serialized dict (handles cache format). */
-export function reportFromDict(data: Record<string, unknown>): Report {
-	const rangeData = (data.range as Record<string, string>) ?? {}
-	const rangeFrom =
-		rangeData.from ?? (data.range_from as string | undefined) ?? ''
-	const rangeTo = rangeData.to ?? (data.range_to as string | undefined) ?? ''
-	const parsedDays =
-		typeof data.days === 'number' && Number.isInteger(data.days)
-			? data.days
-			: 30
-	const days = parsedDays >= 1 && parsedDays <= 365 ? parsedDays : 30
+/** Serialized report in a schema version this build cannot read. */
+export class ReportVersionError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'ReportVersionError'
+	}
+}
+
+type ReportMigration = (
+	data: Record<string, unknown>,
+) => Record<string, unknown>
 
-	const redditItems = ((data.reddit as unknown[]) ?? []).map((r: unknown) => {
-		const rd = r as Record<string, unknown>
-		return defaultRedditItem({
-			id: rd.id as string,
-			title: rd.title as string,
-			url: rd.url as string,
-			subreddit: rd.subreddit as string,
-			date: (rd.date as string | null) ?? null,
-			date_confidence: (rd.date_confidence as string) ?? 'low',
-			engagement: (rd.engagement as Engagement | null) ?? null,
-			top_comments: ((rd.top_comments as unknown[]) ?? []).map(
-				(c: unknown) => c as Comment,
+/** Upgrade steps indexed by source version: entry N migrates N to N+1. */
+const REPORT_MIGRATIONS: ReportMigration[] = [
+	// 0 -> 1: unversioned reports (older cache/history files) kept the date
+	// range flat and predate Hacker News, stories and scoring profiles.
+	(data) => {
+		const { range_from, range_to, ...rest } = data
+		return {
+			...rest,
+			range: data.range ?? { from: range_from ?? '', to: range_to ?? '' },
+			hackernews: data.hackernews ?? [],
+			stories: data.stories ?? [],
+			scoring_profile: data.scoring_profile ?? null,
+		}
+	},
+	// 1 -> 2: per-source items and errors moved from fixed fields into maps
+	// keyed by adapter name, so new adapters need no schema change.
+	(data) => {
+		const {
+			reddit,
+			x,
+			hackernews,
+			web,
+			reddit_error,
+			x_error,
+			hackernews_error,
+			web_error,
+			...rest
+		} = data
+		const errors: Record<string, unknown> = {
+			reddit: reddit_error,
+			x: x_error,
+			hn: hackernews_error,
+			web: web_error,
+		}
+		return {
+			...rest,
+			items: {
+				reddit: reddit ?? [],
+				x: x ?? [],
+				hn: hackernews ?? [],
+				web: web ?? [],
+			},
+			errors: Object.fromEntries(
+				Object.entries(errors).filter(([, e]) => typeof e === 'string' && e),
 			),
-			comment_insights: (rd.comment_insights as string[]) ?? [],
-			relevance: (rd.relevance as number) ?? 0.5,
-			why_relevant: (rd.why_relevant as string) ?? '',
-			subs: (rd.subs as SubScores) ?? defaultSubScores(),
-			score: (rd.score as number) ?? 0,
-		})
+		}
+	},
+]
+
+/**
+ * Upgrade a serialized report to `REPORT_SCHEMA_VERSION`. Reports without
+ * `schema_version` are treated as version 0.
+ * @throws ReportVersionError for invalid or newer versions.
+ */
+export function migrateReportDict(
+	data: Record<string, unknown>,
+): Record<string, unknown> {
+	const version = data.schema_version ?? 0
+	if (
+		typeof version !== 'number' ||
+		!Number.isInteger(version) ||
+		version < 0
+	) {
+		throw new ReportVersionError(
+			`Invalid report schema_version: ${JSON.stringify(version)}`,
+		)
+	}
+	if (version > REPORT_SCHEMA_VERSION) {
+		throw new ReportVersionError(
+			`Report schema_version ${version} is newer than supported version ${REPORT_SCHEMA_VERSION}`,
+		)
+	}
+	let migrated = data
+	for (let v = version; v < REPORT_SCHEMA_VERSION; v++) {
+		migrated = REPORT_MIGRATIONS[v]!(migrated)
+	}
+	return { ...migrated, schema_version: REPORT_SCHEMA_VERSION }
+}
+
+function parseRedditItem(rd: Record<string, unknown>): RedditItem {
+	return defaultRedditItem({
+		id: rd.id as string,
+		title: rd.title as string,
+		url: rd.url as string,
+		subreddit: rd.subreddit as string,
+		date: (rd.date as string | null) ?? null,
+		date_confidence: (rd.date_confidence as string) ?? 'low',
+		engagement: (rd.engagement as Engagement | null) ?? null,
+		top_comments: ((rd.top_comments as unknown[]) ?? []).map(
+			(c: unknown) => c as Comment,
+		),
+		comment_insights: (rd.comment_insights as string[]) ?? [],
+		relevance: (rd.relevance as number) ?? 0.5,
+		why_relevant: (rd.why_relevant as string) ?? '',
+		subs: (rd.subs as SubScores) ?? defaultSubScores(),
+		score: (rd.score as number) ?? 0,
+		explain: (rd.explain as ScoreExplain | null) ?? null,
+		cluster_id: (rd.cluster_id as string | null) ?? null,
 	})
+}
 
-	const xItems = ((data.x as unknown[]) ?? []).map((x: unknown) => {
-		const xd = x as Record<string, unknown>
-		return defaultXItem({
-			id: xd.id as string,
-			text: xd.text as string,
-			url: xd.url as string,
-			author_handle: xd.author_handle as string,
-			date: (xd.date as string | null) ?? null,
-			date_confidence: (xd.date_confidence as string) ?? 'low',
-			engagement: (xd.engagement as Engagement | null) ?? null,
-			relevance: (xd.relevance as number) ?? 0.5,
-			why_relevant: (xd.why_relevant as string) ?? '',
-			subs: (xd.subs as SubScores) ?? defaultSubScores(),
-			score: (xd.score as number) ?? 0,
-		})
+function parseXItem(xd: Record<string, unknown>): XItem {
+	return defaultXItem({
+		id: xd.id as string,
+		text: xd.text as string,
+		url: xd.url as string,
+		author_handle: xd.author_handle as string,
+		date: (xd.date as string | null) ?? null,
+		date_confidence: (xd.date_confidence as string) ?? 'low',
+		engagement: (xd.engagement as Engagement | null) ?? null,
+		relevance: (xd.relevance as number) ?? 0.5,
+		why_relevant: (xd.why_relevant as string) ?? '',
+		subs: (xd.subs as SubScores) ?? defaultSubScores(),
+		score: (xd.score as number) ?? 0,
+		explain: (xd.explain as ScoreExplain | null) ?? null,
+		cluster_id: (xd.cluster_id as string | null) ?? null,
 	})
+}
 
-	const webItems = ((data.web as unknown[]) ?? []).map((w: unknown) => {
-		const wd = w as Record<string, unknown>
-		return defaultWebSearchItem({
-			id: wd.id as string,
-			title: wd.title as string,
-			url: wd.url as string,
-			source_domain: (wd.source_domain as string) ?? '',
-			snippet: (wd.snippet as string) ?? '',
-			date: (wd.date as string | null) ?? null,
-			date_confidence: (wd.date_confidence as string) ?? 'low',
-			relevance: (wd.relevance as number) ?? 0.5,
-			why_relevant: (wd.why_relevant as string) ?? '',
-			subs: (wd.subs as SubScores) ?? defaultSubScores(),
-			score: (wd.score as number) ?? 0,
-		})
+function parseHackerNewsItem(hd: Record<string, unknown>): HackerNewsItem {
+	return defaultHackerNewsItem({
+		id: hd.id as string,
+		title: hd.title as string,
+		url: hd.url as string,
+		story_url: (hd.story_url as string | null) ?? null,
+		author: (hd.author as string) ?? '',
+		date: (hd.date as string | null) ?? null,
+		date_confidence: (hd.date_confidence as string) ?? 'low',
+		engagement: (hd.engagement as Engagement | null) ?? null,
+		top_comments: ((hd.top_comments as unknown[]) ?? []).map(
+			(c: unknown) => c as Comment,
+		),
+		comment_insights: (hd.comment_insights as string[]) ?? [],
+		relevance: (hd.relevance as number) ?? 0.5,
+		why_relevant: (hd.why_relevant as string) ?? '',
+		subs: (hd.subs as SubScores) ?? defaultSubScores(),
+		score: (hd.score as number) ?? 0,
+		explain: (hd.explain as ScoreExplain | null) ?? null,
+		cluster_id: (hd.cluster_id as string | null) ?? null,
 	})
+}
+
+function parseWebSearchItem(wd: Record<string, unknown>): WebSearchItem {
+	return defaultWebSearchItem({
+		id: wd.id as string,
+		title: wd.title as string,
+		url: wd.url as string,
+		source_domain: (wd.source_domain as string) ?? '',
+		snippet: (wd.snippet as string) ?? '',
+		date: (wd.date as string | null) ?? null,
+		date_confidence: (wd.date_confidence as string) ?? 'low',
+		relevance: (wd.relevance as number) ?? 0.5,
+		why_relevant: (wd.why_relevant as string) ?? '',
+		subs: (wd.subs as SubScores) ?? defaultSubScores(),
+		score: (wd.score as number) ?? 0,
+		explain: (wd.explain as ScoreExplain | null) ?? null,
+		cluster_id: (wd.cluster_id as string | null) ?? null,
+	})
+}
+
+/** Items from other adapters keep their own fields on top of the base ones. */
+function parseBaseItem(d: Record<string, unknown>): BaseItem {
+	return {
+		...d,
+		id: d.id as string,
+		url: d.url as string,
+		date: (d.date as string | null) ?? null,
+		date_confidence: (d.date_confidence as string) ?? 'low',
+		relevance: (d.relevance as number) ?? 0.5,
+		why_relevant: (d.why_relevant as string) ?? '',
+		subs: (d.subs as SubScores) ?? defaultSubScores(),
+		score: (d.score as number) ?? 0,
+		explain: (d.explain as ScoreExplain | null) ?? null,
+	}
+}
+
+const ITEM_PARSERS: Record<
+	ReportSection,
+	(d: Record<string, unknown>) => BaseItem
+> = {
+	reddit: parseRedditItem,
+	x: parseXItem,
+	hn: parseHackerNewsItem,
+	web: parseWebSearchItem,
+}
+
+/**
+ * Reconstruct a Report from a serialized dict, migrating older versions.
+ * @throws ReportVersionError for unsupported schema versions.
+ */
+export function reportFromDict(raw: Record<string, unknown>): Report {
+	const data = migrateReportDict(raw)
+	const rangeData = (data.range as Record<string, string>) ?? {}
+	const rangeFrom = rangeData.from ?? ''
+	const rangeTo = rangeData.to ?? ''
+	const parsedDays =
+		typeof data.days === 'number' && Number.isInteger(data.days)
+			? data.days
+			: 30
+	const days = parsedDays >= 1 && parsedDays <= 365 ? parsedDays : 30
+
+	const items: Record<string, BaseItem[]> = {}
+	for (const [section, list] of Object.entries(
+		(data.items as Record<string, unknown[]>) ?? {},
+	)) {
+		const parse = ITEM_PARSERS[section as ReportSection] ?? parseBaseItem
+		items[section] = (list ?? []).map((i) =>
+			parse(i as Record<string, unknown>),
+		)
+	}
 
 	return {
 		topic: data.topic as string,
@@ -325,15 +736,16 @@ export function reportFromDict(data: Record<string, unknown>): Report {
 		mode: data.mode as string,
 		openai_model_used: (data.openai_model_used as string | null) ?? null,
 		xai_model_used: (data.xai_model_used as string | null) ?? null,
-		reddit: redditItems,
-		x: xItems,
-		web: webItems,
+		items,
+		errors: (data.errors as Record<string, string>) ?? {},
+		stories: ((data.stories as unknown[]) ?? []) as Story[],
+		scoring_profile: (data.scoring_profile as ScoringProfile | null) ?? null,
+		parse_diagnostics:
+			(data.parse_diagnostics as Record<string, ParseDiagnostics>) ?? {},
 		best_practices: (data.best_practices as string[]) ?? [],
 		prompt_pack: (data.prompt_pack as string[]) ?? [],
 		context_snippet_md: (data.context_snippet_md as string) ?? '',
-		reddit_error: (data.reddit_error as string | null) ?? null,
-		x_error: (data.x_error as string | null) ?? null,
-		web_error: (data.web_error as string | null) ?? null,
+		synthesis_error: (data.synthesis_error as string | null) ?? null,
 		from_cache: (data.from_cache as boolean) ?? false,
 		cache_age_hours: (data.cache_age_hours as number | null) ?? null,
 	}
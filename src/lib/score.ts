@@ -1,25 +1,152 @@
 /** Popularity-aware scoring for last-30-days skill. */
 
-import { recencyScore } from './dates.js'
-import type { Engagement, RedditItem, WebSearchItem, XItem } from './schema.js'
+import { daysAgo, recencyScore } from './dates.js'
+import type {
+	BaseItem,
+	Engagement,
+	HackerNewsItem,
+	RedditItem,
+	ScoreAdjustment,
+	ScoreComponent,
+	ScoreExplain,
+	ScoringProfile,
+	ScoringWeights,
+	WebSearchItem,
+	XItem,
+} from './schema.js'
+
+/** Built-in scoring profiles. `default` is the historical weighting. */
+export const SCORING_PROFILES: Record<string, ScoringWeights> = {
+	default: {
+		relevance: 0.45,
+		recency: 0.25,
+		engagement: 0.3,
+		web_relevance: 0.55,
+		web_recency: 0.45,
+		web_source_penalty: 15,
+		web_verified_bonus: 10,
+		web_no_date_penalty: 20,
+		default_engagement: 35,
+		unknown_engagement_penalty: 10,
+	},
+	/** What's hot right now. */
+	recency: {
+		relevance: 0.3,
+		recency: 0.45,
+		engagement: 0.25,
+		web_relevance: 0.4,
+		web_recency: 0.6,
+		web_source_penalty: 15,
+		web_verified_bonus: 10,
+		web_no_date_penalty: 30,
+		default_engagement: 35,
+		unknown_engagement_penalty: 10,
+	},
+	/** What people are talking about most. */
+	engagement: {
+		relevance: 0.3,
+		recency: 0.15,
+		engagement: 0.55,
+		web_relevance: 0.55,
+		web_recency: 0.45,
+		web_source_penalty: 25,
+		web_verified_bonus: 10,
+		web_no_date_penalty: 20,
+		default_engagement: 25,
+		unknown_engagement_penalty: 15,
+	},
+	/** Most on-topic, evergreen discussion. */
+	relevance: {
+		relevance: 0.65,
+		recency: 0.1,
+		engagement: 0.25,
+		web_relevance: 0.8,
+		web_recency: 0.2,
+		web_source_penalty: 10,
+		web_verified_bonus: 5,
+		web_no_date_penalty: 10,
+		default_engagement: 35,
+		unknown_engagement_penalty: 10,
+	},
+}
 
-// Score weights for Reddit/X (has engagement)
-const WEIGHT_RELEVANCE = 0.45
-const WEIGHT_RECENCY = 0.25
-const WEIGHT_ENGAGEMENT = 0.3
+const DEFAULT_WEIGHTS = SCORING_PROFILES.default!
 
-// WebSearch weights (no engagement, reweighted to 100%)
-const WEBSEARCH_WEIGHT_RELEVANCE = 0.55
-const WEBSEARCH_WEIGHT_RECENCY = 0.45
-const WEBSEARCH_SOURCE_PENALTY = 15
+/** Invalid scoring profile name or weight overrides. */
+export class ScoringError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'ScoringError'
+	}
+}
 
-// WebSearch date confidence adjustments
-const WEBSEARCH_VERIFIED_BONUS = 10
-const WEBSEARCH_NO_DATE_PENALTY = 20
+/**
+ * Parse weight overrides like "relevance=0.6,recency=0.2,engagement=0.2".
+ * @throws ScoringError on unknown keys or non-numeric values.
+ */
+export function parseScoringWeights(spec: string): Partial<ScoringWeights> {
+	const overrides: Partial<ScoringWeights> = {}
+	for (const part of spec.split(',')) {
+		if (!part.trim()) continue
+		const [rawKey = '', rawValue = ''] = part.split('=', 2)
+		const key = rawKey.trim()
+		if (!(key in DEFAULT_WEIGHTS)) {
+			throw new ScoringError(
+				`Unknown scoring weight: "${key}". Valid: ${Object.keys(DEFAULT_WEIGHTS).join(', ')}`,
+			)
+		}
+		const value = Number(rawValue.trim())
+		if (!rawValue.trim() || !Number.isFinite(value) || value < 0) {
+			throw new ScoringError(
+				`Invalid value for scoring weight "${key}": "${rawValue}"`,
+			)
+		}
+		overrides[key as keyof ScoringWeights] = value
+	}
+	return overrides
+}
 
-// Default engagement score for unknown
-const DEFAULT_ENGAGEMENT = 35
-const UNKNOWN_ENGAGEMENT_PENALTY = 10
+/** Rescale a pair/triple of mix weights to sum to 1 (left as-is if all 0). */
+function normalizeMix<K extends keyof ScoringWeights>(
+	weights: ScoringWeights,
+	keys: K[],
+): void {
+	const total = keys.reduce((n, k) => n + weights[k], 0)
+	if (total <= 0) return
+	for (const k of keys) {
+		weights[k] = Math.round((weights[k] / total) * 1000) / 1000
+	}
+}
+
+/**
+ * Resolve a named profile plus optional overrides. Overrides on top of a
+ * profile yield a profile named "custom". Weights not overridden keep the
+ * profile's value, then each mix is rescaled so it still sums to 1: on the
+ * default profile, `relevance=0.6,recency=0.4` merges with engagement 0.3
+ * and resolves to 0.462/0.308/0.231. Overriding every weight in a mix sets
+ * it exactly (when the values already sum to 1).
+ * @throws ScoringError for unknown profile names.
+ */
+export function resolveScoringProfile(
+	name = 'default',
+	overrides: Partial<ScoringWeights> = {},
+): ScoringProfile {
+	const hasOverrides = Object.keys(overrides).length > 0
+	const baseName = name === 'custom' ? 'default' : name
+	const base = SCORING_PROFILES[baseName]
+	if (!base) {
+		throw new ScoringError(
+			`Unknown scoring profile: "${name}". Valid: ${[...Object.keys(SCORING_PROFILES), 'custom'].join(', ')}`,
+		)
+	}
+	if (name === 'custom' && !hasOverrides) {
+		throw new ScoringError('The custom scoring profile requires weights.')
+	}
+	const weights = { ...base, ...overrides }
+	normalizeMix(weights, ['relevance', 'recency', 'engagement'])
+	normalizeMix(weights, ['web_relevance', 'web_recency'])
+	return { name: hasOverrides ? 'custom' : name, weights }
+}
 
 /** Safe log1p that handles null and negative values. */
 function log1pSafe(x: number | null | undefined): number {
@@ -27,6 +154,23 @@ function log1pSafe(x: number | null | undefined): number {
 	return Math.log1p(x)
 }
 
+/**
+ * Token-overlap relevance (0.4-1.0) between a query and an item title.
+ * For keyless sources whose APIs return no relevance score of their own.
+ */
+export function computeRelevance(query: string, title: string): number {
+	const tokens = (s: string) =>
+		s
+			.toLowerCase()
+			.split(/[^a-z0-9.+#]+/)
+			.filter((t) => t.length > 1)
+	const queryTokens = [...new Set(tokens(query))]
+	if (queryTokens.length === 0) return 0.5
+	const titleTokens = new Set(tokens(title))
+	const hits = queryTokens.filter((t) => titleTokens.has(t)).length
+	return Math.round((0.4 + 0.6 * (hits / queryTokens.length)) * 100) / 100
+}
+
 /** Compute raw engagement score for Reddit item. */
 function computeRedditEngagementRaw(
 	engagement: Engagement | null,
@@ -54,6 +198,19 @@ function computeXEngagementRaw(engagement: Engagement | null): number | null {
 	return 0.55 * likes + 0.25 * reposts + 0.15 * replies + 0.05 * quotes
 }
 
+/** Compute raw engagement score for Hacker News item. */
+function computeHackerNewsEngagementRaw(
+	engagement: Engagement | null,
+): number | null {
+	if (!engagement) return null
+	if (engagement.points == null && engagement.num_comments == null) return null
+
+	const points = log1pSafe(engagement.points)
+	const comments = log1pSafe(engagement.num_comments)
+
+	return 0.6 * points + 0.4 * comments
+}
+
 /** Normalize a list of values to 0-100 scale. */
 function normalizeTo100(
 	values: (number | null)[],
@@ -78,116 +235,192 @@ function normalizeTo100(
 	})
 }
 
-/** Compute scores for Reddit items. */
-export function scoreRedditItems(
-	items: RedditItem[],
-	maxDays = 30,
-): RedditItem[] {
-	if (items.length === 0) return items
-
-	const engRaw = items.map((item) =>
-		computeRedditEngagementRaw(item.engagement),
-	)
-	const engNormalized = normalizeTo100(engRaw)
-
-	for (let i = 0; i < items.length; i++) {
-		const item = items[i]!
-		const relScore = Number.isFinite(item.relevance)
-			? Math.floor(item.relevance * 100)
-			: 50
-		const recScore = recencyScore(item.date, maxDays)
-		const engScore =
-			engNormalized[i] != null
-				? Math.floor(engNormalized[i]!)
-				: DEFAULT_ENGAGEMENT
-
-		item.subs = { relevance: relScore, recency: recScore, engagement: engScore }
-
-		let overall =
-			WEIGHT_RELEVANCE * relScore +
-			WEIGHT_RECENCY * recScore +
-			WEIGHT_ENGAGEMENT * engScore
+/** Min/max of the non-null values, or null when there are none. */
+function valueRange(
+	values: (number | null)[],
+): { min: number; max: number } | null {
+	const valid = values.filter((v): v is number => v !== null)
+	if (valid.length === 0) return null
+	return { min: round2(Math.min(...valid)), max: round2(Math.max(...valid)) }
+}
 
-		if (engRaw[i] === null) overall -= UNKNOWN_ENGAGEMENT_PENALTY
-		if (item.date_confidence === 'low') overall -= 10
-		else if (item.date_confidence === 'med') overall -= 5
+function round2(x: number): number {
+	return Math.round(x * 100) / 100
+}
 
-		item.score = Math.max(0, Math.min(100, Math.floor(overall)))
+function component(
+	name: ScoreComponent['name'],
+	raw: number | null,
+	value: number,
+	weight: number,
+): ScoreComponent {
+	return {
+		name,
+		raw: raw == null ? null : round2(raw),
+		value,
+		weight,
+		contribution: round2(weight * value),
 	}
+}
 
-	return items
+/**
+ * Record the explanation on an item and return its clamped 0-100 score.
+ * The total is summed from unrounded contributions.
+ */
+function finishScore(
+	item: BaseItem,
+	components: ScoreComponent[],
+	adjustments: ScoreAdjustment[],
+	normalization: ScoreExplain['normalization'],
+	maxDays: number,
+): number {
+	let total = components.reduce((n, c) => n + c.weight * c.value, 0)
+	for (const adj of adjustments) total += adj.points
+	item.explain = {
+		components,
+		adjustments,
+		normalization,
+		max_days: maxDays,
+		total: round2(total),
+	}
+	return Math.max(0, Math.min(100, Math.floor(total)))
 }
 
-/** Compute scores for X items. */
-export function scoreXItems(items: XItem[], maxDays = 30): XItem[] {
-	if (items.length === 0) return items
+/** Subscore for an item's 0-1 relevance (50 if missing). */
+function relevanceScore(item: BaseItem): number {
+	return Number.isFinite(item.relevance) ? Math.floor(item.relevance * 100) : 50
+}
 
-	const engRaw = items.map((item) => computeXEngagementRaw(item.engagement))
+/** Score items that have engagement; `engRaw` is aligned with `items`. */
+function scoreEngagementItems<T extends BaseItem>(
+	items: T[],
+	engRaw: (number | null)[],
+	maxDays: number,
+	weights: ScoringWeights,
+): T[] {
 	const engNormalized = normalizeTo100(engRaw)
+	const range = valueRange(engRaw)
 
 	for (let i = 0; i < items.length; i++) {
 		const item = items[i]!
-		const relScore = Number.isFinite(item.relevance)
-			? Math.floor(item.relevance * 100)
-			: 50
+		const relScore = relevanceScore(item)
 		const recScore = recencyScore(item.date, maxDays)
 		const engScore =
 			engNormalized[i] != null
 				? Math.floor(engNormalized[i]!)
-				: DEFAULT_ENGAGEMENT
+				: weights.default_engagement
 
 		item.subs = { relevance: relScore, recency: recScore, engagement: engScore }
 
-		let overall =
-			WEIGHT_RELEVANCE * relScore +
-			WEIGHT_RECENCY * recScore +
-			WEIGHT_ENGAGEMENT * engScore
-
-		if (engRaw[i] === null) overall -= UNKNOWN_ENGAGEMENT_PENALTY
-		if (item.date_confidence === 'low') overall -= 10
-		else if (item.date_confidence === 'med') overall -= 5
-
-		item.score = Math.max(0, Math.min(100, Math.floor(overall)))
+		const components = [
+			component(
+				'relevance',
+				Number.isFinite(item.relevance) ? item.relevance : null,
+				relScore,
+				weights.relevance,
+			),
+			component('recency', daysAgo(item.date), recScore, weights.recency),
+			component('engagement', engRaw[i] ?? null, engScore, weights.engagement),
+		]
+		const adjustments: ScoreAdjustment[] = []
+		if (engRaw[i] === null)
+			adjustments.push({
+				reason: 'unknown engagement',
+				points: -weights.unknown_engagement_penalty,
+			})
+		if (item.date_confidence === 'low')
+			adjustments.push({ reason: 'low date confidence', points: -10 })
+		else if (item.date_confidence === 'med')
+			adjustments.push({ reason: 'medium date confidence', points: -5 })
+
+		item.score = finishScore(item, components, adjustments, range, maxDays)
 	}
 
 	return items
 }
 
+/** Compute scores for Reddit items. */
+export function scoreRedditItems(
+	items: RedditItem[],
+	maxDays = 30,
+	weights: ScoringWeights = DEFAULT_WEIGHTS,
+): RedditItem[] {
+	if (items.length === 0) return items
+	const engRaw = items.map((item) =>
+		computeRedditEngagementRaw(item.engagement),
+	)
+	return scoreEngagementItems(items, engRaw, maxDays, weights)
+}
+
+/** Compute scores for X items. */
+export function scoreXItems(
+	items: XItem[],
+	maxDays = 30,
+	weights: ScoringWeights = DEFAULT_WEIGHTS,
+): XItem[] {
+	if (items.length === 0) return items
+	const engRaw = items.map((item) => computeXEngagementRaw(item.engagement))
+	return scoreEngagementItems(items, engRaw, maxDays, weights)
+}
+
+/** Compute scores for Hacker News items. */
+export function scoreHackerNewsItems(
+	items: HackerNewsItem[],
+	maxDays = 30,
+	weights: ScoringWeights = DEFAULT_WEIGHTS,
+): HackerNewsItem[] {
+	if (items.length === 0) return items
+	const engRaw = items.map((item) =>
+		computeHackerNewsEngagementRaw(item.engagement),
+	)
+	return scoreEngagementItems(items, engRaw, maxDays, weights)
+}
+
 /** Compute scores for WebSearch items WITHOUT engagement metrics. */
 export function scoreWebsearchItems(
 	items: WebSearchItem[],
 	maxDays = 30,
+	weights: ScoringWeights = DEFAULT_WEIGHTS,
 ): WebSearchItem[] {
 	if (items.length === 0) return items
 
 	for (const item of items) {
-		const relScore = Number.isFinite(item.relevance)
-			? Math.floor(item.relevance * 100)
-			: 50
+		const relScore = relevanceScore(item)
 		const recScore = recencyScore(item.date, maxDays)
 
 		item.subs = { relevance: relScore, recency: recScore, engagement: 0 }
 
-		let overall =
-			WEBSEARCH_WEIGHT_RELEVANCE * relScore +
-			WEBSEARCH_WEIGHT_RECENCY * recScore
-
-		overall -= WEBSEARCH_SOURCE_PENALTY
-
-		if (item.date_confidence === 'high') overall += WEBSEARCH_VERIFIED_BONUS
+		const components = [
+			component(
+				'relevance',
+				Number.isFinite(item.relevance) ? item.relevance : null,
+				relScore,
+				weights.web_relevance,
+			),
+			component('recency', daysAgo(item.date), recScore, weights.web_recency),
+		]
+		const adjustments: ScoreAdjustment[] = [
+			{ reason: 'web source', points: -weights.web_source_penalty },
+		]
+		if (item.date_confidence === 'high')
+			adjustments.push({
+				reason: 'verified date',
+				points: weights.web_verified_bonus,
+			})
 		else if (item.date_confidence === 'low')
-			overall -= WEBSEARCH_NO_DATE_PENALTY
+			adjustments.push({
+				reason: 'no verified date',
+				points: -weights.web_no_date_penalty,
+			})
 
-		item.score = Math.max(0, Math.min(100, Math.floor(overall)))
+		item.score = finishScore(item, components, adjustments, null, maxDays)
 	}
 
 	return items
 }
 
 /** Sort items by score (descending), then date, then source priority. */
-export function sortItems(
-	items: (RedditItem | XItem | WebSearchItem)[],
-): (RedditItem | XItem | WebSearchItem)[] {
+export function sortItems<T extends BaseItem>(items: T[]): T[] {
 	return [...items].sort((a, b) => {
 		// Primary: score descending
 		if (a.score !== b.score) return b.score - a.score
@@ -197,20 +430,25 @@ export function sortItems(
 		const dateB = b.date ?? '0000-00-00'
 		if (dateA !== dateB) return dateB.localeCompare(dateA)
 
-		// Tertiary: source priority (Reddit > X > WebSearch)
+		// Tertiary: source priority (Reddit > X > HN > WebSearch)
 		const priorityA = getSourcePriority(a)
 		const priorityB = getSourcePriority(b)
 		if (priorityA !== priorityB) return priorityA - priorityB
 
 		// Quaternary: text for stability
-		const textA = 'title' in a ? (a.title ?? '') : 'text' in a ? a.text : ''
-		const textB = 'title' in b ? (b.title ?? '') : 'text' in b ? b.text : ''
-		return textA.localeCompare(textB)
+		return getItemText(a).localeCompare(getItemText(b))
 	})
 }
 
-function getSourcePriority(item: RedditItem | XItem | WebSearchItem): number {
+function getItemText(item: BaseItem): string {
+	if ('title' in item) return String(item.title ?? '')
+	if ('text' in item) return String(item.text ?? '')
+	return ''
+}
+
+function getSourcePriority(item: BaseItem): number {
 	if ('subreddit' in item) return 0 // Reddit
 	if ('author_handle' in item) return 1 // X
-	return 2 // WebSearch
+	if ('story_url' in item) return 2 // Hacker News
+	return 3 // WebSearch
 }
@@ -0,0 +1,756 @@
+/**
+ * Pluggable source adapters for last-30-days skill.
+ *
+ * Each platform (Reddit, X, ...) is described by a `SourceAdapter`: how to
+ * search it, parse the raw response, optionally enrich items, and score and
+ * dedupe the normalized results. The registry lets new platforms be added
+ * without touching the CLI, and `runSourceSearch()` owns the cache, lock and
+ * stale-on-rate-limit fallback so adapters never re-implement it.
+ */
+
+import { readFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import * as cache from './cache.js'
+import * as config from './config.js'
+import * as dedupe from './dedupe.js'
+import * as hackernews from './hackernews.js'
+import { CircuitOpenError, RateLimitError, type Transport } from './http.js'
+import * as normalize from './normalize.js'
+import * as openaiReddit from './openai-reddit.js'
+import * as redditEnrich from './reddit-enrich.js'
+import * as redditSearch from './reddit-search.js'
+import type {
+	BaseItem,
+	HackerNewsItem,
+	ParseDiagnostics,
+	RedditItem,
+	Report,
+	ScoringProfile,
+	ScoringWeights,
+	XItem,
+} from './schema.js'
+import * as score from './score.js'
+import type { ProgressDisplay } from './ui.js'
+import { createParseDiagnostics } from './validate.js'
+import * as xaiX from './xai-x.js'
+
+/** Everything an adapter needs to know about the current run. */
+export interface SourceContext {
+	topic: string
+	fromDate: string
+	toDate: string
+	days: number
+	depth: string
+	config: Record<string, string | null>
+	models: Record<string, string | null>
+	mock: boolean
+	/** Scoring profile for this run. Default: the `default` profile. */
+	scoring?: ScoringProfile
+	/** HTTP transport for upstream requests. Default: global `fetch`. */
+	transport?: Transport
+}
+
+/** Cache behaviour for a run. */
+export interface SourceCacheOptions {
+	skipRead: boolean
+	skipWrite: boolean
+}
+
+/** Contract every searchable platform implements. */
+export interface SourceAdapter<T extends BaseItem = BaseItem> {
+	/** Registry id. Used in `--sources` lists and cache keys. */
+	readonly name: string
+	/**
+	 * Report section for items and errors (`report.items[section]`).
+	 * Default: `name`. Adapters searching the same platform share one.
+	 */
+	readonly section?: string
+	/** Human label for progress and error messages (e.g. "Reddit"). */
+	readonly label: string
+	/** Plural noun for result counts (e.g. "threads"). */
+	readonly noun: string
+	/** Upstream provider named in quota errors (e.g. "OpenAI"). */
+	readonly provider: string
+	/** Fixture served instead of `search()` in mock mode. */
+	readonly mockFixture?: string
+	/** Output file name for the raw search response. */
+	readonly rawFile?: string
+	/** Output file name for enriched raw items. */
+	readonly enrichedRawFile?: string
+	/** Whether the config has what this source needs (API keys etc.). */
+	isAvailable(cfg: Record<string, string | null>): boolean
+	/** Versioned cache key for this search. */
+	cacheKey(ctx: SourceContext): string
+	/** Run the upstream search and return the raw response. */
+	search(ctx: SourceContext): Promise<Record<string, unknown>>
+	/**
+	 * Extract raw items from a search response. LLM-backed sources record
+	 * rejected items in `diagnostics`.
+	 */
+	parse(
+		raw: Record<string, unknown>,
+		diagnostics?: ParseDiagnostics,
+	): Record<string, unknown>[]
+	/** Optional follow-up search when the first pass comes back thin. */
+	supplement?(
+		items: Record<string, unknown>[],
+		ctx: SourceContext,
+	): Promise<Record<string, unknown>[]>
+	/**
+	 * Most items `enrich()` runs on, in search order. Default: all of them.
+	 * The rest keep their search-time data.
+	 */
+	enrichLimit?(ctx: SourceContext): number
+	/** Optional per-item enrichment (real engagement, comments). */
+	enrich?(
+		item: Record<string, unknown>,
+		ctx: SourceContext,
+	): Promise<Record<string, unknown>>
+	/** Map raw items to the canonical schema. */
+	normalize(
+		items: Record<string, unknown>[],
+		fromDate: string,
+		toDate: string,
+	): T[]
+	/** Compute subs and score for normalized items. */
+	score(items: T[], days: number, weights?: ScoringWeights): T[]
+	/** Drop near-duplicates from score-sorted items. */
+	dedupe(items: T[]): T[]
+}
+
+/** Outcome of one source search, including cache/rate-limit state. */
+export interface SourceSearchResult {
+	items: Record<string, unknown>[]
+	raw: Record<string, unknown> | null
+	error: string | null
+	fromCache: boolean
+	cacheAgeHours: number | null
+	rateLimited: boolean
+	usedStaleCache: boolean
+	/** Validation of the model output; null when not parsed this run. */
+	diagnostics: ParseDiagnostics | null
+}
+
+/** Load a fixture file. */
+export function loadFixture(name: string): Record<string, unknown> {
+	const moduleDir = dirname(fileURLToPath(import.meta.url))
+	const fixturePath = join(moduleDir, '..', '..', 'fixtures', name)
+	try {
+		return JSON.parse(readFileSync(fixturePath, 'utf-8')) as Record<
+			string,
+			unknown
+		>
+	} catch {
+		return {}
+	}
+}
+
+/** Reddit discovery via OpenAI web search, enriched from reddit.com JSON. */
+export const redditSource: SourceAdapter<RedditItem> = {
+	name: 'reddit',
+	label: 'Reddit',
+	noun: 'threads',
+	provider: 'OpenAI',
+	mockFixture: 'openai_sample.json',
+	rawFile: 'raw_openai.json',
+	enrichedRawFile: 'raw_reddit_threads_enriched.json',
+	isAvailable: (cfg) => Boolean(cfg.OPENAI_API_KEY),
+	cacheKey: (ctx) =>
+		cache.getSourceCacheKey(
+			ctx.topic,
+			ctx.fromDate,
+			ctx.toDate,
+			ctx.days,
+			'reddit',
+			ctx.depth,
+			ctx.models.openai ?? null,
+			openaiReddit.REDDIT_PROMPT_VERSION,
+		),
+	search: (ctx) =>
+		openaiReddit.searchReddit(
+			ctx.config.OPENAI_API_KEY!,
+			ctx.models.openai!,
+			ctx.topic,
+			ctx.fromDate,
+			ctx.toDate,
+			ctx.depth,
+			null,
+			ctx.transport,
+		),
+	parse: openaiReddit.parseRedditResponse,
+	async supplement(items, ctx) {
+		// Quick retry with simpler query if few results
+		if (items.length >= 5) return items
+		const core = openaiReddit.extractCoreSubject(ctx.topic)
+		if (core.toLowerCase() === ctx.topic.toLowerCase()) return items
+		try {
+			const retryRaw = await openaiReddit.searchReddit(
+				ctx.config.OPENAI_API_KEY!,
+				ctx.models.openai!,
+				core,
+				ctx.fromDate,
+				ctx.toDate,
+				ctx.depth,
+				null,
+				ctx.transport,
+			)
+			const retryItems = openaiReddit.parseRedditResponse(retryRaw)
+			const existingUrls = new Set(items.map((i) => i.url))
+			for (const item of retryItems) {
+				if (!existingUrls.has(item.url)) items.push(item)
+			}
+		} catch {
+			// ignore retry errors
+		}
+		return items
+	},
+	enrich: (item, ctx) =>
+		ctx.mock
+			? redditEnrich.enrichRedditItem(
+					item,
+					loadFixture('reddit_thread_sample.json'),
+				)
+			: redditEnrich.enrichRedditItem(item, null, ctx.transport),
+	normalize: normalize.normalizeRedditItems,
+	score: score.scoreRedditItems,
+	dedupe: (items) => dedupe.dedupeReddit(items),
+}
+
+/** Keyless Reddit discovery via reddit.com's public search JSON. */
+export const redditPublicSource: SourceAdapter<RedditItem> = {
+	name: 'reddit-public',
+	section: 'reddit',
+	label: 'Reddit',
+	noun: 'threads',
+	provider: 'Reddit',
+	mockFixture: 'reddit_search_sample.json',
+	rawFile: 'raw_reddit_search.json',
+	enrichedRawFile: 'raw_reddit_threads_enriched.json',
+	isAvailable: () => true,
+	cacheKey: (ctx) =>
+		cache.getSourceCacheKey(
+			ctx.topic,
+			ctx.fromDate,
+			ctx.toDate,
+			ctx.days,
+			'reddit-public',
+			ctx.depth,
+			null,
+			redditSearch.REDDIT_SEARCH_VERSION,
+		),
+	search: (ctx) =>
+		redditSearch.searchRedditPublic(
+			ctx.topic,
+			ctx.days,
+			ctx.depth,
+			null,
+			ctx.transport,
+		),
+	parse: redditSearch.parseRedditSearchResponse,
+	enrichLimit: (ctx) => redditSearch.getEnrichLimit(ctx.depth),
+	enrich: redditSource.enrich,
+	normalize: normalize.normalizeRedditItems,
+	score: score.scoreRedditItems,
+	dedupe: (items) => dedupe.dedupeReddit(items),
+}
+
+/** X discovery via xAI live search. */
+export const xSource: SourceAdapter<XItem> = {
+	name: 'x',
+	label: 'X',
+	noun: 'posts',
+	provider: 'xAI',
+	mockFixture: 'xai_sample.json',
+	rawFile: 'raw_xai.json',
+	isAvailable: (cfg) => Boolean(cfg.XAI_API_KEY),
+	cacheKey: (ctx) =>
+		cache.getSourceCacheKey(
+			ctx.topic,
+			ctx.fromDate,
+			ctx.toDate,
+			ctx.days,
+			'x',
+			ctx.depth,
+			ctx.models.xai ?? null,
+			xaiX.X_PROMPT_VERSION,
+		),
+	search: (ctx) =>
+		xaiX.searchX(
+			ctx.config.XAI_API_KEY!,
+			ctx.models.xai!,
+			ctx.topic,
+			ctx.fromDate,
+			ctx.toDate,
+			ctx.depth,
+			null,
+			ctx.transport,
+		),
+	parse: xaiX.parseXResponse,
+	normalize: normalize.normalizeXItems,
+	score: score.scoreXItems,
+	dedupe: (items) => dedupe.dedupeX(items),
+}
+
+/** Hacker News stories via the keyless Algolia HN Search API. */
+export const hackerNewsSource: SourceAdapter<HackerNewsItem> = {
+	name: 'hn',
+	label: 'Hacker News',
+	noun: 'stories',
+	provider: 'Algolia',
+	mockFixture: 'hn_search_sample.json',
+	rawFile: 'raw_hackernews.json',
+	enrichedRawFile: 'raw_hackernews_enriched.json',
+	isAvailable: () => true,
+	cacheKey: (ctx) =>
+		cache.getSourceCacheKey(
+			ctx.topic,
+			ctx.fromDate,
+			ctx.toDate,
+			ctx.days,
+			'hn',
+			ctx.depth,
+			null,
+			hackernews.HN_QUERY_VERSION,
+		),
+	search: (ctx) =>
+		hackernews.searchHackerNews(
+			ctx.topic,
+			ctx.fromDate,
+			ctx.toDate,
+			ctx.depth,
+			ctx.config.HN_API_BASE_URL,
+			null,
+			ctx.transport,
+		),
+	parse: hackernews.parseHackerNewsResponse,
+	enrichLimit: (ctx) => hackernews.getHackerNewsEnrichLimit(ctx.depth),
+	enrich: (item, ctx) =>
+		hackernews.enrichHackerNewsItem(
+			item,
+			ctx.config.HN_API_BASE_URL,
+			ctx.mock ? loadFixture('hn_item_sample.json') : null,
+			ctx.transport,
+		),
+	normalize: normalize.normalizeHackerNewsItems,
+	score: score.scoreHackerNewsItems,
+	dedupe: (items) => dedupe.dedupeHackerNews(items),
+}
+
+const registry = new Map<string, SourceAdapter>([
+	[redditSource.name, redditSource],
+	[redditPublicSource.name, redditPublicSource],
+	[xSource.name, xSource],
+	[hackerNewsSource.name, hackerNewsSource],
+])
+
+/** Register a source adapter. Replaces any adapter with the same name. */
+export function registerSource<T extends BaseItem>(
+	adapter: SourceAdapter<T>,
+): void {
+	registry.set(adapter.name, adapter)
+}
+
+/** Remove a source adapter from the registry. */
+export function unregisterSource(name: string): boolean {
+	return registry.delete(name)
+}
+
+/** Look up a registered source adapter by name. */
+export function getSource(name: string): SourceAdapter | undefined {
+	return registry.get(name)
+}
+
+/** All registered source adapters in registration order. */
+export function listSources(): SourceAdapter[] {
+	return [...registry.values()]
+}
+
+/** Report section an adapter's items and errors are stored under. */
+export function getSourceSection(adapter: SourceAdapter): string {
+	return adapter.section ?? adapter.name
+}
+
+/**
+ * Human label for a report section: the label of the adapter that fills it,
+ * or the section name for sections no registered adapter fills.
+ */
+export function getSectionLabel(section: string): string {
+	if (section === 'web') return 'Web'
+	return (
+		listSources().find((a) => getSourceSection(a) === section)?.label ?? section
+	)
+}
+
+/** Store an adapter's final items and error on the report. */
+export function assignSourceResult(
+	report: Report,
+	adapter: SourceAdapter,
+	items: BaseItem[],
+	error: string | null,
+): void {
+	const section = getSourceSection(adapter)
+	report.items[section] = items
+	if (error) report.errors[section] = error
+	else delete report.errors[section]
+}
+
+/** Adapters run for each legacy `--sources` mode from `validateSources()`. */
+const MODE_SOURCES: Record<string, string[]> = {
+	all: ['reddit', 'x'],
+	both: ['reddit', 'x'],
+	reddit: ['reddit'],
+	'reddit-web': ['reddit'],
+	x: ['x'],
+	'x-web': ['x'],
+	web: [],
+}
+
+/** Report mode strings for legacy source selections. */
+const MODE_NAMES: Record<string, string> = {
+	all: 'all',
+	both: 'both',
+	reddit: 'reddit-only',
+	'reddit-web': 'reddit-web',
+	x: 'x-only',
+	'x-web': 'x-web',
+	web: 'web-only',
+}
+
+const LEGACY_SOURCE_VALUES = ['auto', 'reddit', 'x', 'both', 'web']
+
+/**
+ * Available legacy sources once keyless Reddit is counted: Reddit's public
+ * JSON needs no key, so only X can be missing.
+ */
+function getAvailableWithPublicReddit(
+	cfg: Record<string, string | null>,
+): string {
+	const available = config.getAvailableSources(cfg)
+	if (available === 'web') return 'reddit'
+	if (available === 'x') return 'both'
+	return available
+}
+
+/** Use keyless Reddit search when `reddit` is selected without an OpenAI key. */
+function withRedditFallback(
+	name: string,
+	cfg: Record<string, string | null>,
+	mock: boolean,
+): string {
+	if (name !== redditSource.name || mock || redditSource.isAvailable(cfg)) {
+		return name
+	}
+	return redditPublicSource.name
+}
+
+/** Whether a `--sources` value is a legacy mode or a list of registered names. */
+export function isValidSourceSelection(requested: string): boolean {
+	if (LEGACY_SOURCE_VALUES.includes(requested)) return true
+	const names = requested.split(',').map((n) => n.trim())
+	return names.length > 0 && names.every((n) => n && registry.has(n))
+}
+
+/** Resolved source selection for a run. */
+export interface SourceSelection {
+	adapters: SourceAdapter[]
+	mode: string
+	/** Whether the caller should run web search (Claude's WebSearch tool). */
+	web: boolean
+}
+
+/**
+ * Resolve a `--sources` value to adapters and a report mode.
+ * Accepts legacy modes (auto|reddit|x|both|web) or a comma-separated list
+ * of registered adapter names (e.g. "reddit,x").
+ * @returns [selection, errorMessage]
+ */
+export function resolveSources(
+	requested: string,
+	cfg: Record<string, string | null>,
+	includeWeb = false,
+	mock = false,
+): [SourceSelection, string | null] {
+	if (LEGACY_SOURCE_VALUES.includes(requested)) {
+		// In mock mode, simulate having both keys available
+		const available = mock ? 'both' : getAvailableWithPublicReddit(cfg)
+		const [effective, error] = config.validateSources(
+			requested,
+			available,
+			includeWeb,
+		)
+		const names = (MODE_SOURCES[effective] ?? []).map((n) =>
+			withRedditFallback(n, cfg, mock),
+		)
+		return [
+			{
+				adapters: names.map((n) => registry.get(n)!).filter(Boolean),
+				mode: MODE_NAMES[effective] ?? effective,
+				web: ['all', 'web', 'reddit-web', 'x-web'].includes(effective),
+			},
+			error,
+		]
+	}
+
+	const adapters: SourceAdapter[] = []
+	for (const requestedName of requested.split(',').map((n) => n.trim())) {
+		const name = withRedditFallback(requestedName, cfg, mock)
+		const adapter = registry.get(name)
+		if (!adapter) {
+			return [
+				{ adapters: [], mode: 'none', web: false },
+				`Unknown source: "${name}". Registered: ${[...registry.keys()].join(', ')}`,
+			]
+		}
+		if (!mock && !adapter.isAvailable(cfg)) {
+			return [
+				{ adapters: [], mode: 'none', web: false },
+				`Requested ${adapter.label} but its API key is not configured.`,
+			]
+		}
+		if (adapters.includes(adapter)) continue
+		// Both would write the same report section, the later one silently winning
+		const section = getSourceSection(adapter)
+		const clash = adapters.find((a) => getSourceSection(a) === section)
+		if (clash) {
+			return [
+				{ adapters: [], mode: 'none', web: false },
+				`Sources "${clash.name}" and "${adapter.name}" both fill the ${section} section; pick one.`,
+			]
+		}
+		adapters.push(adapter)
+	}
+	const mode = adapters.map((a) => a.name).join('+')
+	return [
+		{
+			adapters,
+			mode: includeWeb ? `${mode}+web` : mode,
+			web: includeWeb,
+		},
+		null,
+	]
+}
+
+interface CachedSearchPayload {
+	items: Record<string, unknown>[]
+	raw: Record<string, unknown> | null
+}
+
+function parseCachedSearchPayload(
+	data: Record<string, unknown> | null,
+): CachedSearchPayload | null {
+	if (!data) return null
+	const itemsRaw = data.items
+	if (!Array.isArray(itemsRaw)) return null
+	const items = itemsRaw.filter(
+		(item) => item && typeof item === 'object',
+	) as Record<string, unknown>[]
+	const rawData =
+		data.raw && typeof data.raw === 'object'
+			? (data.raw as Record<string, unknown>)
+			: null
+	return { items, raw: rawData }
+}
+
+function cachedResult(
+	payload: CachedSearchPayload,
+	ageHours: number | null,
+	rateLimited = false,
+): SourceSearchResult {
+	return {
+		items: payload.items,
+		raw: payload.raw,
+		error: null,
+		fromCache: true,
+		cacheAgeHours: ageHours,
+		rateLimited,
+		usedStaleCache: rateLimited,
+		diagnostics: null,
+	}
+}
+
+/**
+ * Run one adapter's search with caching, per-key locking and stale-cache
+ * fallback on transient rate limits or an open provider circuit.
+ */
+export async function runSourceSearch(
+	adapter: SourceAdapter,
+	ctx: SourceContext,
+	cacheOpts: SourceCacheOptions,
+): Promise<SourceSearchResult> {
+	const cacheKey = adapter.cacheKey(ctx)
+	const useCache = !ctx.mock && !cacheOpts.skipRead
+
+	// Try cache first (unless refreshing or mock)
+	if (useCache) {
+		const [cached, ageHours] = cache.loadCacheWithAge(
+			cacheKey,
+			cache.getSearchTTL(),
+		)
+		const payload = parseCachedSearchPayload(cached)
+		if (payload) return cachedResult(payload, ageHours)
+	}
+
+	let lockAcquired = false
+	if (useCache) {
+		lockAcquired = await cache.acquireCacheLock(cacheKey)
+		if (!lockAcquired) {
+			const [cachedAfterWait, ageHours] = cache.loadCacheWithAge(
+				cacheKey,
+				cache.getSearchTTL(),
+			)
+			const payload = parseCachedSearchPayload(cachedAfterWait)
+			if (payload) return cachedResult(payload, ageHours)
+		}
+	}
+
+	let raw: Record<string, unknown> | null = null
+	let error: string | null = null
+	let rateLimited = false
+
+	try {
+		if (ctx.mock) {
+			raw = adapter.mockFixture ? loadFixture(adapter.mockFixture) : {}
+		} else {
+			raw = await adapter.search(ctx)
+		}
+	} catch (e) {
+		raw = { error: String(e) }
+		if (e instanceof RateLimitError) {
+			rateLimited = true
+			error = e.retryable
+				? `Rate limited after ${e.retries_attempted} retries`
+				: `${adapter.provider} quota/billing limit reached (non-retryable 429)`
+
+			// Stale cache fallback on transient rate-limit only.
+			// Keep error null when stale cache is served so results still render.
+			if (e.retryable && !cacheOpts.skipRead) {
+				const [stale, staleAge] = cache.loadStaleCacheWithAge(cacheKey)
+				const payload = parseCachedSearchPayload(stale)
+				if (payload) return cachedResult(payload, staleAge, true)
+			}
+		} else if (e instanceof CircuitOpenError) {
+			error = `${adapter.provider} provider circuit open (${e.failures} consecutive failures on ${e.host}; retrying after ${e.retry_at})`
+
+			// Serve the last good results, but keep the error so the report says why
+			if (!cacheOpts.skipRead) {
+				const [stale, staleAge] = cache.loadStaleCacheWithAge(cacheKey)
+				const payload = parseCachedSearchPayload(stale)
+				if (payload) {
+					return {
+						...cachedResult(payload, staleAge),
+						error,
+						usedStaleCache: true,
+					}
+				}
+			}
+		} else {
+			error = `API error: ${e}`
+		}
+	} finally {
+		if (lockAcquired) cache.releaseCacheLock(cacheKey)
+	}
+
+	const diagnostics = createParseDiagnostics()
+	let items = adapter.parse(raw ?? {}, diagnostics)
+
+	// Skip if the first attempt was rate-limited (retry amplification guard)
+	if (adapter.supplement && !ctx.mock && !error && !rateLimited) {
+		items = await adapter.supplement(items, ctx)
+	}
+
+	// Write through to cache on success (unless disabled)
+	if (!ctx.mock && !cacheOpts.skipWrite && !error && items.length > 0) {
+		cache.saveCache(cacheKey, { items, raw })
+	}
+
+	return {
+		items,
+		raw,
+		error,
+		fromCache: false,
+		cacheAgeHours: null,
+		rateLimited,
+		usedStaleCache: false,
+		diagnostics:
+			diagnostics.output_chars > 0 || diagnostics.issues.length > 0
+				? diagnostics
+				: null,
+	}
+}
+
+/**
+ * Enrich items in place via the adapter, using the per-URL enrichment cache.
+ * @returns The enriched raw items (for debug output files).
+ */
+export async function enrichSourceItems(
+	adapter: SourceAdapter,
+	items: Record<string, unknown>[],
+	ctx: SourceContext,
+	cacheOpts: SourceCacheOptions,
+	progress?: ProgressDisplay,
+): Promise<Record<string, unknown>[]> {
+	const enriched: Record<string, unknown>[] = []
+	if (!adapter.enrich || items.length === 0) return enriched
+
+	const count = Math.min(items.length, adapter.enrichLimit?.(ctx) ?? Infinity)
+	progress?.startEnrich(adapter.label, 1, count)
+	for (let i = 0; i < count; i++) {
+		if (i > 0) progress?.updateEnrich(adapter.label, i + 1, count)
+		const item = items[i]!
+		const itemUrl = String(item.url ?? '')
+		const enrichKey = itemUrl
+			? cache.getEnrichmentCacheKey(itemUrl, adapter.name)
+			: ''
+
+		if (!ctx.mock && enrichKey && !cacheOpts.skipRead) {
+			const [cachedEnriched] = cache.loadCacheWithAge(
+				enrichKey,
+				cache.getEnrichmentTTL(),
+			)
+			const cachedItem =
+				cachedEnriched &&
+				typeof cachedEnriched.item === 'object' &&
+				cachedEnriched.item
+					? (cachedEnriched.item as Record<string, unknown>)
+					: null
+			if (cachedItem) {
+				items[i] = cachedItem
+				enriched.push(cachedItem)
+				continue
+			}
+		}
+
+		try {
+			items[i] = await adapter.enrich(item, ctx)
+			if (!ctx.mock && enrichKey && !cacheOpts.skipWrite) {
+				cache.saveCache(enrichKey, {
+					item: items[i]!,
+					cached_at: new Date().toISOString(),
+				})
+			}
+		} catch (e) {
+			progress?.showError(`Enrich failed: ${e}`)
+		}
+		enriched.push(items[i]!)
+	}
+	progress?.endEnrich(adapter.label)
+
+	return enriched
+}
+
+/** Normalize, date-filter, score, sort and dedupe an adapter's raw items. */
+export function processSourceItems(
+	adapter: SourceAdapter,
+	items: Record<string, unknown>[],
+	ctx: SourceContext,
+): BaseItem[] {
+	const normalized = adapter.normalize(items, ctx.fromDate, ctx.toDate)
+	const filtered = normalize.filterByDateRange(
+		normalized,
+		ctx.fromDate,
+		ctx.toDate,
+	)
+	const scored = adapter.score(filtered, ctx.days, ctx.scoring?.weights)
+	return adapter.dedupe(score.sortItems(scored))
+}
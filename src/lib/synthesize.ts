@@ -0,0 +1,245 @@
+/** LLM synthesis of best practices and a prompt pack from scored items. */
+
+import * as http from './http.js'
+import type { Report } from './schema.js'
+import {
+	getAllItems,
+	getExtraSections,
+	getItemTitle,
+	getSectionItems,
+} from './schema.js'
+import { getSectionLabel } from './sources.js'
+
+const OPENAI_RESPONSES_URL = 'https://api.openai.com/v1/responses'
+const XAI_RESPONSES_URL = 'https://api.x.ai/v1/responses'
+
+/** Items per source sent to the model. */
+const ITEMS_PER_SOURCE = 8
+
+const SYNTHESIS_TIMEOUT = 120_000
+
+const SYNTHESIS_PROMPT = `You are summarizing what people said about "{topic}" between {from_date} and {to_date}.
+
+Below are the top discussions, each tagged with an ID in square brackets.
+
+{items}
+
+Write:
+1. best_practices: 4-8 concrete, actionable practices the community agrees on.
+2. prompt_pack: 3-6 ready-to-use prompts a reader could paste into an AI assistant to apply those practices.
+
+Every entry MUST cite the supporting discussions by ID in square brackets, e.g. "Keep skills small and composable [R3][X5]".
+Only cite IDs from the list above. Do not invent facts that are not in the discussions.
+
+Return ONLY valid JSON in this exact format, no other text:
+{
+  "best_practices": ["... [R1]"],
+  "prompt_pack": ["... [X2]"]
+}`
+
+/** Which model/provider synthesis will use, if any. */
+export interface SynthesisTarget {
+	provider: 'openai' | 'xai'
+	url: string
+	apiKey: string
+	model: string
+}
+
+/** Synthesized fields for a report. */
+export interface SynthesisResult {
+	best_practices: string[]
+	prompt_pack: string[]
+}
+
+/** Prefer OpenAI, fall back to xAI; null when neither key/model is set. */
+export function getSynthesisTarget(
+	cfg: Record<string, string | null>,
+	models: Record<string, string | null>,
+): SynthesisTarget | null {
+	if (cfg.OPENAI_API_KEY && models.openai) {
+		return {
+			provider: 'openai',
+			url: OPENAI_RESPONSES_URL,
+			apiKey: cfg.OPENAI_API_KEY,
+			model: models.openai,
+		}
+	}
+	if (cfg.XAI_API_KEY && models.xai) {
+		return {
+			provider: 'xai',
+			url: XAI_RESPONSES_URL,
+			apiKey: cfg.XAI_API_KEY,
+			model: models.xai,
+		}
+	}
+	return null
+}
+
+/**
+ * Target for replaying a recorded synthesis call. The cassette answers the
+ * request, so it carries no API key.
+ */
+export function getReplaySynthesisTarget(
+	provider: SynthesisTarget['provider'],
+	models: Record<string, string | null>,
+): SynthesisTarget | null {
+	const model = models[provider]
+	if (!model) return null
+	const url = provider === 'openai' ? OPENAI_RESPONSES_URL : XAI_RESPONSES_URL
+	return { provider, url, apiKey: '', model }
+}
+
+/** Render the report's top items as tagged lines for the prompt. */
+export function formatItemsForPrompt(report: Report): string {
+	const lines: string[] = []
+	for (const item of getSectionItems(report, 'reddit').slice(
+		0,
+		ITEMS_PER_SOURCE,
+	)) {
+		lines.push(
+			`[${item.id}] Reddit r/${item.subreddit} (score ${item.score}): ${item.title}`,
+		)
+		for (const insight of item.comment_insights.slice(0, 3)) {
+			lines.push(`  - comment: ${insight}`)
+		}
+	}
+	for (const item of getSectionItems(report, 'x').slice(0, ITEMS_PER_SOURCE)) {
+		lines.push(
+			`[${item.id}] X @${item.author_handle} (score ${item.score}): ${item.text.slice(0, 280)}`,
+		)
+	}
+	for (const item of getSectionItems(report, 'hn').slice(0, ITEMS_PER_SOURCE)) {
+		lines.push(`[${item.id}] Hacker News (score ${item.score}): ${item.title}`)
+		for (const insight of item.comment_insights.slice(0, 3)) {
+			lines.push(`  - comment: ${insight}`)
+		}
+	}
+	for (const item of getSectionItems(report, 'web').slice(
+		0,
+		ITEMS_PER_SOURCE,
+	)) {
+		lines.push(
+			`[${item.id}] Web ${item.source_domain} (score ${item.score}): ${item.title} - ${item.snippet.slice(0, 200)}`,
+		)
+	}
+	for (const section of getExtraSections(report)) {
+		for (const item of getSectionItems(report, section).slice(
+			0,
+			ITEMS_PER_SOURCE,
+		)) {
+			lines.push(
+				`[${item.id}] ${getSectionLabel(section)} (score ${item.score}): ${getItemTitle(item).slice(0, 280)}`,
+			)
+		}
+	}
+	return lines.join('\n')
+}
+
+/**
+ * Build the synthesis prompt for a report. Replacer functions keep `$&`,
+ * `$'` and friends in topics and item text from being read as patterns.
+ */
+export function buildSynthesisPrompt(report: Report): string {
+	return SYNTHESIS_PROMPT.replace('{topic}', () => report.topic)
+		.replace('{from_date}', () => report.range_from)
+		.replace('{to_date}', () => report.range_to)
+		.replace('{items}', () => formatItemsForPrompt(report))
+}
+
+/** IDs of all items in the report. */
+function reportItemIds(report: Report): Set<string> {
+	return new Set(getAllItems(report).map((i) => i.id))
+}
+
+/** Extract the model's output text from a Responses API payload. */
+function extractOutputText(response: Record<string, unknown>): string {
+	const output = response.output
+	if (typeof output === 'string') return output
+	if (Array.isArray(output)) {
+		for (const item of output) {
+			if (typeof item === 'string') return item
+			if (!item || typeof item !== 'object') continue
+			const obj = item as Record<string, unknown>
+			if (obj.type === 'message') {
+				for (const c of (obj.content as Record<string, unknown>[]) ?? []) {
+					if (c?.type === 'output_text' && typeof c.text === 'string') {
+						return c.text
+					}
+				}
+			} else if (typeof obj.text === 'string') {
+				return obj.text
+			}
+		}
+	}
+	return ''
+}
+
+/**
+ * Keep entries that cite at least one real item ID, dropping any citations
+ * of IDs the model made up.
+ */
+export function filterCited(entries: unknown, validIds: Set<string>): string[] {
+	if (!Array.isArray(entries)) return []
+	const result: string[] = []
+	for (const entry of entries) {
+		if (typeof entry !== 'string') continue
+		let cited = 0
+		const cleaned = entry
+			.replace(/\[([A-Z]{1,2}\d+)\]/g, (match, id: string) => {
+				if (!validIds.has(id)) return ''
+				cited++
+				return match
+			})
+			.replace(/\s+/g, ' ')
+			.trim()
+		if (cited > 0 && cleaned) result.push(cleaned)
+	}
+	return result
+}
+
+/** Parse a synthesis response, keeping only properly cited entries. */
+export function parseSynthesisResponse(
+	response: Record<string, unknown>,
+	report: Report,
+): SynthesisResult {
+	const empty = { best_practices: [], prompt_pack: [] }
+	if (response.error) return empty
+
+	const text = extractOutputText(response)
+	const jsonMatch = text.match(/\{[\s\S]*\}/)
+	if (!jsonMatch) return empty
+
+	let data: Record<string, unknown>
+	try {
+		data = JSON.parse(jsonMatch[0]) as Record<string, unknown>
+	} catch {
+		return empty
+	}
+
+	const validIds = reportItemIds(report)
+	return {
+		best_practices: filterCited(data.best_practices, validIds),
+		prompt_pack: filterCited(data.prompt_pack, validIds),
+	}
+}
+
+/** Ask the model for cited best practices and a prompt pack. */
+export async function synthesizeReport(
+	report: Report,
+	target: SynthesisTarget,
+	mockResponse: Record<string, unknown> | null = null,
+	transport?: http.Transport,
+): Promise<SynthesisResult> {
+	const response =
+		mockResponse ??
+		(await http.post(
+			target.url,
+			{ model: target.model, input: buildSynthesisPrompt(report) },
+			{
+				Authorization: `Bearer ${target.apiKey}`,
+				'Content-Type': 'application/json',
+			},
+			{ timeout: SYNTHESIS_TIMEOUT, transport },
+		))
+	return parseSynthesisResponse(response, report)
+}
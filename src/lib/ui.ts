@@ -7,6 +7,7 @@ const CYAN = '\x1b[96m'
 const GREEN = '\x1b[92m'
 const YELLOW = '\x1b[93m'
 const RED = '\x1b[91m'
+const ORANGE = '\x1b[38;5;208m'
 const BOLD = '\x1b[1m'
 const DIM = '\x1b[2m'
 const RESET = '\x1b[0m'
@@ -31,6 +32,12 @@ const X_MESSAGES = [
 	'Discovering trending insights...',
 ]
 
+const HN_MESSAGES = [
+	'Checking the Hacker News front page...',
+	'Reading what HN is arguing about...',
+	'Scanning Show HN and launch threads...',
+]
+
 const ENRICHING_MESSAGES = [
 	'Getting the juicy details...',
 	'Fetching engagement metrics...',
@@ -45,12 +52,42 @@ const PROCESSING_MESSAGES = [
 	'Removing duplicates...',
 ]
 
+const SYNTHESIS_MESSAGES = [
+	'Distilling best practices...',
+	'Writing the prompt pack...',
+	'Connecting the threads...',
+]
+
 const WEB_ONLY_MESSAGES = [
 	'Searching the web...',
 	'Finding blogs and docs...',
 	'Crawling news sites...',
 ]
 
+const SEARCH_MESSAGES = [
+	'Searching for discussions...',
+	'Finding the good threads...',
+	'Reading what people are saying...',
+]
+
+/** Colour and spinner messages per source label. */
+const SOURCE_STYLES: Record<string, { color: string; messages: string[] }> = {
+	Reddit: { color: YELLOW, messages: REDDIT_MESSAGES },
+	X: { color: CYAN, messages: X_MESSAGES },
+	'Hacker News': { color: ORANGE, messages: HN_MESSAGES },
+}
+
+function getSourceStyle(label: string): { color: string; messages: string[] } {
+	return SOURCE_STYLES[label] ?? { color: PURPLE, messages: SEARCH_MESSAGES }
+}
+
+/** Result count for one source in the completion summary. */
+export interface SourceCount {
+	label: string
+	count: number
+	noun: string
+}
+
 function pick<T>(arr: T[]): T {
 	return arr[Math.floor(Math.random() * arr.length)]!
 }
@@ -129,43 +166,44 @@ export class ProgressDisplay {
 		}
 	}
 
-	startReddit(): void {
-		const msg = pick(REDDIT_MESSAGES)
-		this.spinner = new Spinner(`${YELLOW}Reddit${RESET} ${msg}`, YELLOW)
+	/** Start the search spinner for a source. */
+	startSource(label: string): void {
+		const style = getSourceStyle(label)
+		this.spinner = new Spinner(
+			`${style.color}${label}${RESET} ${pick(style.messages)}`,
+			style.color,
+		)
 		this.spinner.start()
 	}
 
-	endReddit(count: number): void {
-		this.spinner?.stop(`${YELLOW}Reddit${RESET} Found ${count} threads`)
+	/** Stop the search spinner with a result count. */
+	endSource(label: string, count: number, noun: string): void {
+		const { color } = getSourceStyle(label)
+		this.spinner?.stop(`${color}${label}${RESET} Found ${count} ${noun}`)
 	}
 
-	startRedditEnrich(current: number, total: number): void {
+	startEnrich(label: string, current: number, total: number): void {
 		this.spinner?.stop()
+		const { color } = getSourceStyle(label)
 		const msg = pick(ENRICHING_MESSAGES)
 		this.spinner = new Spinner(
-			`${YELLOW}Reddit${RESET} [${current}/${total}] ${msg}`,
-			YELLOW,
+			`${color}${label}${RESET} [${current}/${total}] ${msg}`,
+			color,
 		)
 		this.spinner.start()
 	}
 
-	updateRedditEnrich(current: number, total: number): void {
+	updateEnrich(label: string, current: number, total: number): void {
+		const { color } = getSourceStyle(label)
 		const msg = pick(ENRICHING_MESSAGES)
-		this.spinner?.update(`${YELLOW}Reddit${RESET} [${current}/${total}] ${msg}`)
-	}
-
-	endRedditEnrich(): void {
-		this.spinner?.stop(`${YELLOW}Reddit${RESET} Enriched with engagement data`)
-	}
-
-	startX(): void {
-		const msg = pick(X_MESSAGES)
-		this.spinner = new Spinner(`${CYAN}X${RESET} ${msg}`, CYAN)
-		this.spinner.start()
+		this.spinner?.update(
+			`${color}${label}${RESET} [${current}/${total}] ${msg}`,
+		)
 	}
 
-	endX(count: number): void {
-		this.spinner?.stop(`${CYAN}X${RESET} Found ${count} posts`)
+	endEnrich(label: string): void {
+		const { color } = getSourceStyle(label)
+		this.spinner?.stop(`${color}${label}${RESET} Enriched with engagement data`)
 	}
 
 	startProcessing(): void {
@@ -178,18 +216,34 @@ export class ProgressDisplay {
 		this.spinner?.stop()
 	}
 
-	showComplete(redditCount: number, xCount: number): void {
+	startSynthesis(): void {
+		const msg = pick(SYNTHESIS_MESSAGES)
+		this.spinner = new Spinner(`${PURPLE}Synthesis${RESET} ${msg}`, PURPLE)
+		this.spinner.start()
+	}
+
+	endSynthesis(practices: number): void {
+		this.spinner?.stop(
+			`${PURPLE}Synthesis${RESET} ${practices} cited best practices`,
+		)
+	}
+
+	/** Show completion with per-source result counts. */
+	showComplete(counts: SourceCount[]): void {
 		const elapsed = ((Date.now() - this.startTime) / 1000).toFixed(1)
 		if (IS_TTY) {
 			process.stderr.write(
 				`\n${GREEN}${BOLD}✓ Research complete${RESET} ${DIM}(${elapsed}s)${RESET}\n`,
 			)
-			process.stderr.write(
-				`  ${YELLOW}Reddit:${RESET} ${redditCount} threads  ${CYAN}X:${RESET} ${xCount} posts\n\n`,
+			const parts = counts.map(
+				(c) =>
+					`${getSourceStyle(c.label).color}${c.label}:${RESET} ${c.count} ${c.noun}`,
 			)
+			process.stderr.write(`  ${parts.join('  ')}\n\n`)
 		} else {
+			const parts = counts.map((c) => `${c.label}: ${c.count} ${c.noun}`)
 			process.stderr.write(
-				`✓ Research complete (${elapsed}s) - Reddit: ${redditCount} threads, X: ${xCount} posts\n`,
+				`✓ Research complete (${elapsed}s) - ${parts.join(', ')}\n`,
 			)
 		}
 	}
@@ -224,6 +278,11 @@ export class ProgressDisplay {
 		process.stderr.write(`${RED}✗ Error:${RESET} ${message}\n`)
 	}
 
+	/** Show a non-fatal note (e.g. source fallback). */
+	showNote(message: string): void {
+		process.stderr.write(`Note: ${message}\n`)
+	}
+
 	startWebOnly(): void {
 		const msg = pick(WEB_ONLY_MESSAGES)
 		this.spinner = new Spinner(`${GREEN}Web${RESET} ${msg}`, GREEN)
@@ -251,11 +310,11 @@ export class ProgressDisplay {
 	showPromo(missing: string): void {
 		if (missing === 'both') {
 			process.stderr.write(
-				`\n${YELLOW}⚡ Add API keys to ~/.config/last-30-days/.env for Reddit & X data${RESET}\n`,
+				`\n${YELLOW}⚡ Add API keys to ~/.config/last-30-days/.env for X data & AI-curated Reddit search${RESET}\n`,
 			)
 		} else if (missing === 'reddit') {
 			process.stderr.write(
-				`${DIM}💡 Add OPENAI_API_KEY for Reddit data with real engagement metrics${RESET}\n`,
+				`${DIM}💡 Using public Reddit search - add OPENAI_API_KEY for AI-curated Reddit threads${RESET}\n`,
 			)
 		} else if (missing === 'x') {
 			process.stderr.write(
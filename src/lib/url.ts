@@ -0,0 +1,18 @@
+/** URL helpers shared by history, dedupe and rendering. */
+
+/**
+ * Comparable URL key: scheme, `www.`/`old.` prefixes, trailing slashes and
+ * case dropped, twitter.com folded into x.com.
+ */
+export function normalizeUrl(url: string): string {
+	try {
+		const parsed = new URL(url)
+		const host = parsed.hostname
+			.replace(/^(www|old|mobile)\./, '')
+			.replace(/^twitter\.com$/, 'x.com')
+		const path = parsed.pathname.replace(/\/+$/, '')
+		return `${host}${path}${parsed.search}`.toLowerCase()
+	} catch {
+		return url.trim().toLowerCase().replace(/\/+$/, '')
+	}
+}
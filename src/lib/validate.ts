@@ -0,0 +1,278 @@
+/**
+ * Validation of LLM-returned search items.
+ *
+ * The Reddit and X searches ask a model for `{"items": [...]}` JSON inside
+ * free text. These helpers pull that JSON out, check each item and record
+ * why anything was dropped or repaired, so a bad prompt or truncated output
+ * can be told apart from a topic with no results.
+ */
+
+import type { HTTPError } from './http.js'
+import type { ParseDiagnostics, ParseIssueReason } from './schema.js'
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Responses API `text.format` asking for strict `{"items": [...]}` JSON.
+ * Strict mode requires every property listed in `required`, so optional
+ * fields are expressed as nullable types instead.
+ */
+export function itemsResponseFormat(
+	name: string,
+	itemSchema: Record<string, unknown>,
+): Record<string, unknown> {
+	return {
+		type: 'json_schema',
+		name,
+		strict: true,
+		schema: {
+			type: 'object',
+			properties: { items: { type: 'array', items: itemSchema } },
+			required: ['items'],
+			additionalProperties: false,
+		},
+	}
+}
+
+/** Check if a 400 is the provider rejecting the structured response format. */
+export function isResponseFormatError(error: HTTPError): boolean {
+	if (error.status_code !== 400 || !error.body) return false
+	const bodyLower = error.body.toLowerCase()
+	return ['text.format', 'json_schema', 'response_format'].some((phrase) =>
+		bodyLower.includes(phrase),
+	)
+}
+
+/** Empty diagnostics for one response. */
+export function createParseDiagnostics(): ParseDiagnostics {
+	return { output_chars: 0, received: 0, accepted: 0, issues: [] }
+}
+
+/** Record an issue if a diagnostics collector was passed. */
+export function addParseIssue(
+	diagnostics: ParseDiagnostics | undefined,
+	reason: ParseIssueReason,
+	index: number | null,
+	detail: string,
+	dropped = true,
+): void {
+	diagnostics?.issues.push({ reason, index, detail, dropped })
+}
+
+/**
+ * Extract the model's output text from a Responses API payload (or the
+ * older chat `choices` format). Returns '' when there is none.
+ */
+export function extractOutputText(response: Record<string, unknown>): string {
+	let outputText = ''
+	if (response.output) {
+		const output = response.output
+		if (typeof output === 'string') {
+			outputText = output
+		} else if (Array.isArray(output)) {
+			for (const item of output) {
+				if (item && typeof item === 'object') {
+					const obj = item as Record<string, unknown>
+					if (obj.type === 'message') {
+						const content = obj.content as Record<string, unknown>[]
+						for (const c of content ?? []) {
+							if (c?.type === 'output_text') {
+								outputText = (c.text as string) ?? ''
+								break
+							}
+						}
+					} else if (typeof obj.text === 'string') {
+						outputText = obj.text
+					}
+				} else if (typeof item === 'string') {
+					outputText = item
+				}
+				if (outputText) break
+			}
+		}
+	}
+
+	// Check choices (older format)
+	if (!outputText && response.choices) {
+		for (const choice of response.choices as Record<string, unknown>[]) {
+			const message = choice.message as Record<string, unknown> | undefined
+			if (message) {
+				outputText = (message.content as string) ?? ''
+				break
+			}
+		}
+	}
+
+	return outputText
+}
+
+/**
+ * Record `truncated_output` when the provider says it stopped early (e.g.
+ * `status: "incomplete"` after hitting max output tokens).
+ */
+export function checkResponseComplete(
+	response: Record<string, unknown>,
+	diagnostics?: ParseDiagnostics,
+): void {
+	if (response.status !== 'incomplete') return
+	const details = response.incomplete_details as
+		| Record<string, unknown>
+		| undefined
+	addParseIssue(
+		diagnostics,
+		'truncated_output',
+		null,
+		`response incomplete: ${String(details?.reason ?? 'unknown reason')}`,
+		false,
+	)
+}
+
+/** Index of the `}` closing the object opened at `start`, or -1 if unclosed. */
+function findObjectEnd(text: string, start: number): number {
+	let depth = 0
+	let inString = false
+	let escaped = false
+	for (let i = start; i < text.length; i++) {
+		const ch = text[i]
+		if (inString) {
+			if (escaped) escaped = false
+			else if (ch === '\\') escaped = true
+			else if (ch === '"') inString = false
+		} else if (ch === '"') {
+			inString = true
+		} else if (ch === '{') {
+			depth++
+		} else if (ch === '}') {
+			depth--
+			if (depth === 0) return i
+		}
+	}
+	return -1
+}
+
+/**
+ * Find the first balanced `{"items": [...]}` object in model output.
+ * Records `truncated_output` when the object never closes and
+ * `unparsable_json` when no candidate parses.
+ * @returns The raw items array, or null if none could be extracted.
+ */
+export function extractItemsJson(
+	text: string,
+	diagnostics?: ParseDiagnostics,
+): unknown[] | null {
+	let parseError = ''
+	let start = text.indexOf('{')
+	while (start !== -1) {
+		const end = findObjectEnd(text, start)
+		if (end === -1) {
+			if (text.slice(start).includes('"items"')) {
+				addParseIssue(
+					diagnostics,
+					'truncated_output',
+					null,
+					`JSON object starting at offset ${start} never closes (output ends after ${text.length} chars)`,
+				)
+				return null
+			}
+			break
+		}
+		const candidate = text.slice(start, end + 1)
+		if (candidate.includes('"items"')) {
+			try {
+				const data = JSON.parse(candidate) as Record<string, unknown>
+				if (Array.isArray(data.items)) return data.items
+				parseError = '"items" is not an array'
+			} catch (e) {
+				parseError = e instanceof Error ? e.message : String(e)
+			}
+			start = text.indexOf('{', start + 1)
+		} else {
+			start = text.indexOf('{', end + 1)
+		}
+	}
+	addParseIssue(
+		diagnostics,
+		'unparsable_json',
+		null,
+		parseError || 'no JSON object with "items" in output',
+	)
+	return null
+}
+
+/**
+ * Check an item URL. Records `missing_url`, `bad_url` or `wrong_domain`
+ * and returns false when the item must be dropped.
+ * @param domains Allowed registrable domains (subdomains match); any if omitted.
+ */
+export function checkItemUrl(
+	url: string,
+	index: number,
+	diagnostics?: ParseDiagnostics,
+	domains?: string[],
+): boolean {
+	if (!url) {
+		addParseIssue(diagnostics, 'missing_url', index, 'item has no url')
+		return false
+	}
+	let host: string
+	try {
+		const parsed = new URL(url)
+		if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+			throw new Error('not http(s)')
+		}
+		host = parsed.hostname.toLowerCase()
+	} catch {
+		addParseIssue(diagnostics, 'bad_url', index, `not an http(s) URL: ${url}`)
+		return false
+	}
+	if (domains && !domains.some((d) => host === d || host.endsWith(`.${d}`))) {
+		addParseIssue(
+			diagnostics,
+			'wrong_domain',
+			index,
+			`${host} is not ${domains.join(' or ')}`,
+		)
+		return false
+	}
+	return true
+}
+
+/**
+ * Normalize an item date to YYYY-MM-DD or null. Records `invalid_date`
+ * (item kept) when a non-empty value doesn't match.
+ */
+export function checkItemDate(
+	date: unknown,
+	index: number,
+	diagnostics?: ParseDiagnostics,
+): string | null {
+	if (date == null || date === '') return null
+	const value = String(date)
+	if (DATE_RE.test(value)) return value
+	addParseIssue(
+		diagnostics,
+		'invalid_date',
+		index,
+		`date "${value}" is not YYYY-MM-DD; cleared`,
+		false,
+	)
+	return null
+}
+
+/** One-line summary for debug output, e.g. "12 received, 10 accepted ...". */
+export function formatParseDiagnostics(diagnostics: ParseDiagnostics): string {
+	const counts = new Map<string, number>()
+	for (const issue of diagnostics.issues) {
+		const key = issue.dropped ? issue.reason : `${issue.reason} (kept)`
+		counts.set(key, (counts.get(key) ?? 0) + 1)
+	}
+	const parts = [
+		`${diagnostics.received} received`,
+		`${diagnostics.accepted} accepted`,
+		`${diagnostics.output_chars} output chars`,
+	]
+	const reasons = [...counts].map(([reason, n]) => `${reason} x${n}`)
+	return reasons.length > 0
+		? `${parts.join(', ')}; ${reasons.join(', ')}`
+		: parts.join(', ')
+}
@@ -0,0 +1,200 @@
+/** Watch mode: scheduled re-runs of topics with new-item alerts. */
+
+import { appendFileSync } from 'node:fs'
+
+import * as history from './history.js'
+import * as http from './http.js'
+import { type ResearchOptions, research } from './research.js'
+import type { Report } from './schema.js'
+
+const DEFAULT_INTERVAL_MS = 60 * 60_000
+const DEFAULT_MIN_SCORE = 60
+
+/** A newly surfaced item for a watched topic. */
+export interface WatchAlert {
+	topic: string
+	generated_at: string
+	item: history.HistoryItem
+}
+
+/** Options for `watch()`. */
+export interface WatchOptions {
+	/** Topics to re-run each cycle. */
+	topics: string[]
+	/** Delay between cycles. Default: 1 hour. */
+	intervalMs?: number
+	/** Only alert on items scoring at least this. Default: 60. */
+	minScore?: number
+	/** Stop after this many cycles. Default: run until aborted. */
+	cycles?: number
+	/** Append alerts as JSON lines to this file. */
+	jsonl?: string
+	/** POST alerts for each topic to this URL. */
+	webhook?: string
+	/** Options passed through to `research()` each run. */
+	research?: ResearchOptions
+	/** History store root (where previous reports are read from). */
+	historyDir?: string
+	/** Stop between cycles when aborted. */
+	signal?: AbortSignal
+	/** Status messages. Default: stderr. */
+	log?: (message: string) => void
+	/** Alert lines when no JSONL/webhook sink is set. Default: stdout. */
+	print?: (line: string) => void
+}
+
+/**
+ * Parse an interval like "90s", "30m", "2h" or a bare number of minutes.
+ * @returns Milliseconds, or NaN when invalid.
+ */
+export function parseInterval(value: string): number {
+	const match = /^(\d+(?:\.\d+)?)([smh]?)$/.exec(value.trim())
+	if (!match) return Number.NaN
+	const n = Number(match[1])
+	const unit = match[2] || 'm'
+	const ms = n * (unit === 's' ? 1000 : unit === 'h' ? 3_600_000 : 60_000)
+	return ms > 0 ? ms : Number.NaN
+}
+
+/** Items in `current` that were not in `previous` and clear the threshold. */
+export function findNewItems(
+	previous: Report,
+	current: Report,
+	minScore = DEFAULT_MIN_SCORE,
+): history.HistoryItem[] {
+	return history
+		.diffReports(previous, current)
+		.added.filter((item) => item.score >= minScore)
+}
+
+/** Most recent stored report for a topic, if any. */
+function loadLatestRun(topic: string, dir?: string): Report | null {
+	const runs = history.listRuns(topic, dir)
+	const latest = runs[runs.length - 1]
+	if (!latest) return null
+	try {
+		return history.loadRun(latest.path)
+	} catch {
+		return null
+	}
+}
+
+/** Format an alert as a human-readable stdout line. */
+export function formatAlert(alert: WatchAlert): string {
+	const { item } = alert
+	return `[${alert.topic}] NEW ${item.source} (score:${item.score}) ${item.title}\n  ${item.url}`
+}
+
+/** Deliver a topic's alerts to the configured sinks. */
+async function emitAlerts(
+	topic: string,
+	alerts: WatchAlert[],
+	options: WatchOptions,
+	log: (message: string) => void,
+): Promise<void> {
+	if (alerts.length === 0) return
+
+	if (options.jsonl) {
+		try {
+			appendFileSync(
+				options.jsonl,
+				alerts.map((a) => `${JSON.stringify(a)}\n`).join(''),
+			)
+		} catch (e) {
+			log(`JSONL write to ${options.jsonl} failed for "${topic}": ${e}`)
+		}
+	}
+	if (options.webhook) {
+		try {
+			await http.post(options.webhook, {
+				topic,
+				generated_at: alerts[0]!.generated_at,
+				items: alerts.map((a) => a.item),
+			})
+		} catch (e) {
+			log(`Webhook delivery failed for "${topic}": ${e}`)
+		}
+	}
+	if (!options.jsonl && !options.webhook) {
+		const print = options.print ?? console.log
+		for (const alert of alerts) print(formatAlert(alert))
+	}
+}
+
+/**
+ * Run every topic once and alert on new items.
+ * The first run of a topic with no stored report only records a baseline.
+ * @param lastReports Previous report per topic from earlier cycles; used
+ *   ahead of the history store (which mock runs never write to).
+ */
+export async function runWatchCycle(
+	options: WatchOptions,
+	lastReports: Map<string, Report> = new Map(),
+): Promise<WatchAlert[]> {
+	const log = options.log ?? ((m) => process.stderr.write(`${m}\n`))
+	const minScore = options.minScore ?? DEFAULT_MIN_SCORE
+	const all: WatchAlert[] = []
+
+	for (const topic of options.topics) {
+		const previous =
+			lastReports.get(topic) ?? loadLatestRun(topic, options.historyDir)
+
+		let report: Report
+		try {
+			report = await research(topic, {
+				...options.research,
+				writeOutputs: false,
+				saveHistory: true,
+				historyDir: options.historyDir,
+			})
+		} catch (e) {
+			log(`✗ ${topic}: ${e instanceof Error ? e.message : e}`)
+			continue
+		}
+		lastReports.set(topic, report)
+
+		if (!previous) {
+			log(`✓ ${topic}: baseline recorded`)
+			continue
+		}
+
+		const alerts = findNewItems(previous, report, minScore).map((item) => ({
+			topic,
+			generated_at: report.generated_at,
+			item,
+		}))
+		log(`✓ ${topic}: ${alerts.length} new`)
+		await emitAlerts(topic, alerts, options, log)
+		all.push(...alerts)
+	}
+
+	return all
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		if (signal?.aborted) return resolve()
+		const onAbort = () => {
+			clearTimeout(timer)
+			resolve()
+		}
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort)
+			resolve()
+		}, ms)
+		signal?.addEventListener('abort', onAbort, { once: true })
+	})
+}
+
+/** Re-run topics on an interval until `cycles` is reached or aborted. */
+export async function watch(options: WatchOptions): Promise<void> {
+	const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS
+	const lastReports = new Map<string, Report>()
+
+	for (let cycle = 1; ; cycle++) {
+		await runWatchCycle(options, lastReports)
+		if (options.cycles != null && cycle >= options.cycles) return
+		await sleep(intervalMs, options.signal)
+		if (options.signal?.aborted) return
+	}
+}
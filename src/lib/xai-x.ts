@@ -1,11 +1,59 @@
 /** xAI API client for X (Twitter) discovery. */
 
 import * as http from './http.js'
+import type { ParseDiagnostics } from './schema.js'
+import {
+	addParseIssue,
+	checkItemDate,
+	checkItemUrl,
+	checkResponseComplete,
+	extractItemsJson,
+	extractOutputText,
+	isResponseFormatError,
+	itemsResponseFormat,
+} from './validate.js'
 
 const XAI_RESPONSES_URL = 'https://api.x.ai/v1/responses'
 
-/** Cache-busting version for X search prompt behavior. */
-export const X_PROMPT_VERSION = '2026-02-11-v1'
+/**
+ * Cache-busting version for X search prompt behavior. Bump when
+ * X_SEARCH_PROMPT or X_ITEM_SCHEMA changes.
+ */
+export const X_PROMPT_VERSION = '2026-10-19-v2'
+
+/** JSON schema for one post in the structured X response. */
+export const X_ITEM_SCHEMA: Record<string, unknown> = {
+	type: 'object',
+	properties: {
+		text: { type: 'string' },
+		url: { type: 'string' },
+		author_handle: { type: 'string' },
+		date: { type: ['string', 'null'] },
+		engagement: {
+			type: ['object', 'null'],
+			properties: {
+				likes: { type: ['number', 'null'] },
+				reposts: { type: ['number', 'null'] },
+				replies: { type: ['number', 'null'] },
+				quotes: { type: ['number', 'null'] },
+			},
+			required: ['likes', 'reposts', 'replies', 'quotes'],
+			additionalProperties: false,
+		},
+		why_relevant: { type: 'string' },
+		relevance: { type: 'number' },
+	},
+	required: [
+		'text',
+		'url',
+		'author_handle',
+		'date',
+		'engagement',
+		'why_relevant',
+		'relevance',
+	],
+	additionalProperties: false,
+}
 
 /** Depth configurations: [min, max] posts to request. */
 const DEPTH_CONFIG: Record<string, [number, number]> = {
@@ -45,6 +93,11 @@ Rules:
 - Include diverse voices/accounts if applicable
 - Prefer posts with substantive content, not just links`
 
+/** Models known to support a strict `json_schema` response format. */
+export function supportsStructuredOutputs(model: string): boolean {
+	return /^grok-[34]/.test(model.toLowerCase())
+}
+
 /** Search X for relevant posts using xAI API with live search. */
 export async function searchX(
 	apiKey: string,
@@ -54,6 +107,7 @@ export async function searchX(
 	toDate: string,
 	depth = 'default',
 	mockResponse: Record<string, unknown> | null = null,
+	transport?: http.Transport,
 ): Promise<Record<string, unknown>> {
 	if (mockResponse !== null) return mockResponse
 
@@ -67,7 +121,7 @@ export async function searchX(
 	const timeout =
 		depth === 'quick' ? 90_000 : depth === 'default' ? 120_000 : 180_000
 
-	const payload = {
+	const payload: Record<string, unknown> = {
 		model,
 		tools: [{ type: 'x_search' }],
 		input: [
@@ -82,7 +136,33 @@ export async function searchX(
 		],
 	}
 
-	return http.post(XAI_RESPONSES_URL, payload, headers, { timeout })
+	if (!supportsStructuredOutputs(model)) {
+		return http.post(XAI_RESPONSES_URL, payload, headers, {
+			timeout,
+			transport,
+		})
+	}
+
+	// Strict JSON first; fall back to the prompt's text format if rejected.
+	try {
+		return await http.post(
+			XAI_RESPONSES_URL,
+			{
+				...payload,
+				text: { format: itemsResponseFormat('x_posts', X_ITEM_SCHEMA) },
+			},
+			headers,
+			{ timeout, transport },
+		)
+	} catch (e) {
+		if (e instanceof http.HTTPError && isResponseFormatError(e)) {
+			return http.post(XAI_RESPONSES_URL, payload, headers, {
+				timeout,
+				transport,
+			})
+		}
+		throw e
+	}
 }
 
 /** Safe relevance parsing with NaN guard. */
@@ -98,75 +178,45 @@ function safeNumber(val: unknown): number | null {
 	return Number.isFinite(n) ? n : null
 }
 
-/** Parse xAI response to extract X items. */
+/**
+ * Parse xAI response to extract X items.
+ * @param diagnostics Filled with why items were dropped or repaired.
+ */
 export function parseXResponse(
 	response: Record<string, unknown>,
+	diagnostics?: ParseDiagnostics,
 ): Record<string, unknown>[] {
 	// Check for API errors
 	if (response.error) return []
 
-	// Find output text
-	let outputText = ''
-	if (response.output) {
-		const output = response.output
-		if (typeof output === 'string') {
-			outputText = output
-		} else if (Array.isArray(output)) {
-			for (const item of output) {
-				if (item && typeof item === 'object') {
-					const obj = item as Record<string, unknown>
-					if (obj.type === 'message') {
-						const content = obj.content as Record<string, unknown>[]
-						for (const c of content ?? []) {
-							if (c?.type === 'output_text') {
-								outputText = (c.text as string) ?? ''
-								break
-							}
-						}
-					} else if (typeof obj.text === 'string') {
-						outputText = obj.text
-					}
-				} else if (typeof item === 'string') {
-					outputText = item
-				}
-				if (outputText) break
-			}
-		}
-	}
-
-	// Check choices (older format)
-	if (!outputText && response.choices) {
-		for (const choice of response.choices as Record<string, unknown>[]) {
-			const message = choice.message as Record<string, unknown> | undefined
-			if (message) {
-				outputText = (message.content as string) ?? ''
-				break
-			}
-		}
-	}
-
+	const outputText = extractOutputText(response)
+	if (diagnostics) diagnostics.output_chars = outputText.length
+	checkResponseComplete(response, diagnostics)
 	if (!outputText) return []
 
 	// Extract JSON from the response
-	const jsonMatch = outputText.match(/\{[\s\S]*"items"[\s\S]*\}/)
-	let items: Record<string, unknown>[] = []
-	if (jsonMatch) {
-		try {
-			const data = JSON.parse(jsonMatch[0]) as Record<string, unknown>
-			items = (data.items as Record<string, unknown>[]) ?? []
-		} catch {
-			// ignore parse errors
-		}
-	}
+	const items = (extractItemsJson(outputText, diagnostics) ?? []) as Record<
+		string,
+		unknown
+	>[]
+	if (diagnostics) diagnostics.received = items.length
 
 	// Validate and clean items
 	const cleanItems: Record<string, unknown>[] = []
 	for (let i = 0; i < items.length; i++) {
 		const item = items[i]
-		if (!item || typeof item !== 'object') continue
+		if (!item || typeof item !== 'object') {
+			addParseIssue(
+				diagnostics,
+				'not_an_object',
+				i,
+				`item is ${item === null ? 'null' : typeof item}`,
+			)
+			continue
+		}
 
 		const url = String(item.url ?? '')
-		if (!url) continue
+		if (!checkItemUrl(url, i, diagnostics)) continue
 
 		// Parse engagement
 		let engagement: Record<string, number | null> | null = null
@@ -189,19 +239,15 @@ export function parseXResponse(
 			author_handle: String(item.author_handle ?? '')
 				.trim()
 				.replace(/^@/, ''),
-			date: item.date ?? null,
+			date: checkItemDate(item.date, i, diagnostics),
 			engagement,
 			why_relevant: String(item.why_relevant ?? '').trim(),
 			relevance: safeRelevance(item.relevance),
 		}
 
-		// Validate date format
-		if (cleanItem.date && !/^\d{4}-\d{2}-\d{2}$/.test(String(cleanItem.date))) {
-			cleanItem.date = null
-		}
-
 		cleanItems.push(cleanItem)
 	}
 
+	if (diagnostics) diagnostics.accepted = cleanItems.length
 	return cleanItems
 }
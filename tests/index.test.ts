@@ -1,46 +1,167 @@
 import { describe, expect, test } from 'bun:test'
 
-import { existsSync, rmSync } from 'node:fs'
+import {
+	existsSync,
+	mkdirSync,
+	readdirSync,
+	readFileSync,
+	rmSync,
+	utimesSync,
+	writeFileSync,
+} from 'node:fs'
+import { hostname } from 'node:os'
 import { join } from 'node:path'
 
 import {
+	type BaseItem,
 	backoffDelay,
+	buildSynthesisPrompt,
+	CassetteError,
+	CircuitOpenError,
+	type Comment,
+	clusterStories,
+	computeRelevance,
+	createParseDiagnostics,
 	createReport,
 	daysAgo,
+	diffLatestRuns,
+	diffReports,
+	type Engagement,
+	enrichHackerNewsItem,
 	extractDateFromSnippet,
 	extractDateFromUrl,
 	extractDomain,
+	extractItemsJson,
+	extractUrls,
+	FLAT_COLUMNS,
+	fetchTransport,
+	filterCited,
+	findNewItems,
+	formatParseDiagnostics,
 	getContextPath,
+	getCreatedAtFilter,
 	getDateConfidence,
 	getDateRange,
+	getEnrichLimit,
+	getFeedEntryId,
+	getHackerNewsEnrichLimit,
 	getNgrams,
+	getOpenCircuit,
+	getReportItems,
+	getSectionItems,
+	getSource,
+	getSynthesisTarget,
+	getTimeFilter,
+	getTopicSlug,
+	getTopSubreddits,
 	HTTPError,
 	isExcludedDomain,
 	isModelAccessError,
+	isResponseFormatError,
 	isRetryableRateLimit,
+	isValidSourceSelection,
+	itemsResponseFormat,
 	jaccardSimilarity,
+	listRuns,
+	listSources,
+	loadRun,
+	normalizeHackerNewsItems,
+	normalizeRedditItems,
 	normalizeText,
+	normalizeUrl,
+	observeRateLimitHeaders,
 	parseDate,
+	parseHackerNewsResponse,
+	parseInterval,
 	parseRateLimitResetMs,
+	parseRateLimits,
 	parseRedditResponse,
+	parseRedditSearchResponse,
 	parseRetryAfterMs,
+	parseScoringWeights,
+	parseSynthesisResponse,
 	parseXResponse,
 	RateLimitError,
+	REDDIT_ITEM_SCHEMA,
+	type RedditItem,
+	type ReportDiff,
+	ResearchError,
 	recencyScore,
+	recordCircuitResult,
+	redactUrl,
+	redditPublicSource,
+	registerSource,
+	renderAtom,
 	renderCompact,
 	renderContextSnippet,
+	renderCsv,
+	renderDiff,
 	renderFullReport,
+	renderHtml,
+	renderJsonl,
+	renderRss,
+	research,
+	reserveRateLimit,
+	resolveScoringProfile,
+	resolveSources,
+	runSourceSearch,
+	runWatchCycle,
+	SCORING_PROFILES,
+	ScoringError,
+	type SourceAdapter,
+	saveCache,
+	saveRun,
+	scoreHackerNewsItems,
 	scoreRedditItems,
+	scoreWebsearchItems,
+	setRateLimits,
+	sortItems,
+	supportsStructuredOutputs,
 	supportsWebSearchFilters,
+	synthesizeReport,
+	type Transport,
 	timestampToDate,
+	unregisterSource,
+	useCassette,
+	watch,
+	X_ITEM_SCHEMA,
+	xSource,
 } from '../src/index'
 
 import {
+	acquireCacheLock,
+	DEFAULT_CACHE_LIMITS,
+	getCacheDir,
+	getCacheLimits,
+	getCacheStats,
 	getEnrichmentCacheKey,
 	getSourceCacheKey,
+	inspectCacheEntry,
+	invalidateCache,
+	listCacheEntries,
+	loadCache,
+	loadCacheWithAge,
+	parseCacheLimits,
+	pruneCache,
+	queryCache,
+	rebuildCacheIndex,
+	releaseCacheLock,
 	SEARCH_CACHE_SCHEMA_VERSION,
+	setCacheBackend,
+	setCacheDir,
+	setCacheLimits,
 } from '../src/lib/cache'
-import { reportFromDict, reportToDict } from '../src/lib/schema'
+import { request } from '../src/lib/http'
+import { REPORT_JSON_SCHEMA } from '../src/lib/report-schema'
+import {
+	migrateReportDict,
+	REPORT_SCHEMA_VERSION,
+	ReportVersionError,
+	reportFromDict,
+	reportToDict,
+} from '../src/lib/schema'
+import { enrichSourceItems } from '../src/lib/sources'
+import { searchX } from '../src/lib/xai-x'
 
 // ---------------------------------------------------------------------------
 // dates
@@ -189,6 +310,50 @@ describe('websearch', () => {
 // ---------------------------------------------------------------------------
 // schema
 // ---------------------------------------------------------------------------
+/**
+ * Check `value` against the subset of JSON Schema that REPORT_JSON_SCHEMA
+ * uses (no `format`), returning one message per violation.
+ */
+function schemaErrors(schema: unknown, value: unknown, path = '$'): string[] {
+	const s = schema as Record<string, unknown>
+	const errors: string[] = []
+	const typeOf = (v: unknown) => (v === null ? 'null' : Array.isArray(v) ? 'array' : typeof v)
+	if ('const' in s && value !== s.const) errors.push(`${path}: expected ${String(s.const)}`)
+	if (Array.isArray(s.enum) && !s.enum.includes(value)) errors.push(`${path}: not in enum`)
+	if (s.type) {
+		const types = Array.isArray(s.type) ? s.type : [s.type]
+		const ok = types.some((t) => (t === 'integer' ? Number.isInteger(value) : typeOf(value) === t))
+		if (!ok) return [...errors, `${path}: expected ${types.join('|')}, got ${typeOf(value)}`]
+	}
+	if (typeof value === 'number') {
+		if (typeof s.minimum === 'number' && value < s.minimum) errors.push(`${path}: below minimum`)
+		if (typeof s.maximum === 'number' && value > s.maximum) errors.push(`${path}: above maximum`)
+	}
+	if (typeof value === 'string' && typeof s.pattern === 'string') {
+		if (!new RegExp(s.pattern).test(value)) errors.push(`${path}: does not match ${s.pattern}`)
+	}
+	if (Array.isArray(value) && s.items) {
+		value.forEach((v, i) => {
+			errors.push(...schemaErrors(s.items, v, `${path}[${i}]`))
+		})
+	}
+	if (typeOf(value) === 'object') {
+		const obj = value as Record<string, unknown>
+		const props = (s.properties ?? {}) as Record<string, unknown>
+		for (const key of (s.required ?? []) as string[]) {
+			if (!(key in obj)) errors.push(`${path}.${key}: required`)
+		}
+		for (const [key, v] of Object.entries(obj)) {
+			if (key in props) errors.push(...schemaErrors(props[key], v, `${path}.${key}`))
+			else if (s.additionalProperties === false) errors.push(`${path}.${key}: not allowed`)
+			else if (typeof s.additionalProperties === 'object') {
+				errors.push(...schemaErrors(s.additionalProperties, v, `${path}.${key}`))
+			}
+		}
+	}
+	return errors
+}
+
 describe('schema', () => {
 	test('createReport sets required fields', () => {
 		const report = createReport(
@@ -206,9 +371,8 @@ describe('schema', () => {
 		expect(report.mode).toBe('both')
 		expect(report.openai_model_used).toBe('gpt-4o')
 		expect(report.xai_model_used).toBe('grok-3')
-		expect(report.reddit).toEqual([])
-		expect(report.x).toEqual([])
-		expect(report.web).toEqual([])
+		expect(report.items).toEqual({})
+		expect(report.errors).toEqual({})
 	})
 
 	test('createReport accepts custom days', () => {
@@ -224,7 +388,8 @@ describe('schema', () => {
 		const range = dict.range as { from: string; to: string }
 		expect(range.from).toBe('2025-01-01')
 		expect(range.to).toBe('2025-01-31')
-		expect(Array.isArray(dict.reddit)).toBe(true)
+		expect(dict.items).toEqual({})
+		expect(dict).not.toHaveProperty('errors')
 	})
 
 	test('reportFromDict defaults days to 30 for older serialized payloads', () => {
@@ -253,6 +418,131 @@ describe('schema', () => {
 		})
 		expect(report.days).toBe(14)
 	})
+
+	test('reportToDict output matches the published JSON Schema', () => {
+		const report = createReport('test', '2025-01-01', '2025-01-31', 'all')
+		report.items.reddit = scoreRedditItems([historyRedditItem('R1', 'https://reddit.com/r/a/1', 0)])
+		report.items.reddit[0]!.cluster_id = null
+		report.errors.web = 'failed'
+		const dict = reportToDict(report)
+		expect(dict.schema_version).toBe(REPORT_SCHEMA_VERSION)
+		const schemaProps = REPORT_JSON_SCHEMA.properties
+		for (const key of REPORT_JSON_SCHEMA.required) expect(dict).toHaveProperty(key)
+		for (const key of Object.keys(dict)) expect(schemaProps).toHaveProperty(key)
+		const redditSchema = schemaProps.items.properties.reddit.items as { required: string[] }
+		const items = dict.items as Record<string, object[]>
+		expect(Object.keys(items.reddit![0]!).sort()).toEqual([...redditSchema.required].sort())
+		expect(dict.errors).toEqual({ web: 'failed' })
+	})
+
+	test('a mock research report validates against the published JSON Schema', async () => {
+		const report = await research('test topic', {
+			mock: true,
+			config: {},
+			days: 365,
+			sources: 'x,hn',
+		})
+		report.items.lobsters = [{ ...getSectionItems(report, 'hn')[0]!, id: 'L1', points: 3 }]
+		report.errors.web = 'failed'
+		const dict = reportToDict(report)
+		const items = dict.items as Record<string, Record<string, unknown>[]>
+		expect(Object.keys(items)).toEqual(['x', 'hn', 'lobsters'])
+		expect((items.hn![0]!.explain as { components: unknown[] }).components).toHaveLength(3)
+		expect(schemaErrors(REPORT_JSON_SCHEMA, dict)).toEqual([])
+
+		const { total: _total, ...noTotal } = items.x![0]!.explain as Record<string, unknown>
+		const broken = {
+			...dict,
+			surprise: true,
+			items: {
+				...items,
+				hn: [{ ...items.hn![0]!, flair: 'News' }],
+				x: [{ ...items.x![0]!, explain: noTotal }],
+			},
+		}
+		expect(schemaErrors(REPORT_JSON_SCHEMA, broken).sort()).toEqual([
+			'$.items.hn[0].flair: not allowed',
+			'$.items.x[0].explain.total: required',
+			'$.surprise: not allowed',
+		])
+	})
+
+	test('shipped schema file is in sync with REPORT_JSON_SCHEMA', () => {
+		const shipped = JSON.parse(
+			readFileSync(
+				join(import.meta.dir, '..', 'schemas', 'last-30-days-report.schema.json'),
+				'utf-8',
+			),
+		)
+		expect(shipped).toEqual(JSON.parse(JSON.stringify(REPORT_JSON_SCHEMA)))
+	})
+
+	test('migrateReportDict upgrades unversioned reports', () => {
+		const migrated = migrateReportDict({
+			topic: 'legacy',
+			range_from: '2025-01-01',
+			range_to: '2025-01-31',
+			reddit: [],
+			x: [],
+			web: [],
+		})
+		expect(migrated.schema_version).toBe(REPORT_SCHEMA_VERSION)
+		expect(migrated.range).toEqual({ from: '2025-01-01', to: '2025-01-31' })
+		expect(migrated).not.toHaveProperty('range_from')
+		expect(migrated.items).toEqual({ reddit: [], x: [], hn: [], web: [] })
+		expect(migrated.stories).toEqual([])
+	})
+
+	test('migrateReportDict moves v1 per-source fields into items and errors', () => {
+		const migrated = migrateReportDict({
+			schema_version: 1,
+			topic: 'v1',
+			range: { from: '2025-01-01', to: '2025-01-31' },
+			reddit: [{ id: 'R1' }],
+			x: [],
+			hackernews: [{ id: 'HN1' }],
+			web: [],
+			reddit_error: null,
+			x_error: 'Rate limited after 3 retries',
+			stories: [],
+		})
+		expect(migrated.items).toEqual({ reddit: [{ id: 'R1' }], x: [], hn: [{ id: 'HN1' }], web: [] })
+		expect(migrated.errors).toEqual({ x: 'Rate limited after 3 retries' })
+		for (const key of ['reddit', 'x', 'hackernews', 'web', 'reddit_error', 'x_error']) {
+			expect(migrated).not.toHaveProperty(key)
+		}
+	})
+
+	test('items from other adapters round-trip with their own fields', () => {
+		const report = createReport('t', '2025-01-01', '2025-01-31', 'lobsters')
+		report.items.lobsters = [
+			{
+				id: 'L1',
+				title: 'A story',
+				url: 'https://lobste.rs/s/abc',
+				date: '2025-01-20',
+				date_confidence: 'high',
+				relevance: 0.9,
+				why_relevant: '',
+				subs: { relevance: 90, recency: 50, engagement: 0 },
+				score: 70,
+				explain: null,
+				tags: ['rust'],
+			} as BaseItem,
+		]
+		report.errors.other = 'failed'
+		const restored = reportFromDict(JSON.parse(JSON.stringify(reportToDict(report))))
+		expect(restored.items.lobsters).toEqual(report.items.lobsters!)
+		expect(restored.errors).toEqual({ other: 'failed' })
+	})
+
+	test('reportFromDict rejects newer or invalid schema versions', () => {
+		const base = { topic: 't', range: { from: '', to: '' }, reddit: [], x: [], web: [] }
+		expect(() => reportFromDict({ ...base, schema_version: REPORT_SCHEMA_VERSION + 1 })).toThrow(
+			ReportVersionError,
+		)
+		expect(() => reportFromDict({ ...base, schema_version: 'v1' })).toThrow(ReportVersionError)
+	})
 })
 
 // ---------------------------------------------------------------------------
@@ -281,6 +571,107 @@ describe('scoring', () => {
 		const recency7 = scoreRedditItems([{ ...base }], 7)[0]!.subs.recency
 		expect(recency30).toBeGreaterThan(recency7)
 	})
+
+	test('scoring profiles reorder items by their weights', () => {
+		const [today] = getDateRange(1)
+		const fresh = {
+			...historyRedditItem('R1', 'https://reddit.com/r/a/1', 0, 1),
+			date: today,
+			relevance: 0.5,
+		}
+		const popular = {
+			...historyRedditItem('R2', 'https://reddit.com/r/a/2', 0, 5000),
+			date: '2020-01-01',
+			relevance: 0.9,
+		}
+		const rank = (profile: string) => {
+			const { weights } = resolveScoringProfile(profile)
+			return sortItems(scoreRedditItems([{ ...fresh }, { ...popular }], 30, weights)).map(
+				(i) => i.id,
+			)
+		}
+		expect(rank('recency')).toEqual(['R1', 'R2'])
+		expect(rank('relevance')).toEqual(['R2', 'R1'])
+	})
+
+	test('resolveScoringProfile applies overrides as a custom profile', () => {
+		const profile = resolveScoringProfile(
+			'default',
+			parseScoringWeights('relevance=2,recency=1,engagement=1'),
+		)
+		expect(profile.name).toBe('custom')
+		expect(profile.weights.relevance).toBe(0.5)
+		expect(profile.weights.recency).toBe(0.25)
+		expect(resolveScoringProfile().weights).toEqual(SCORING_PROFILES.default!)
+	})
+
+	test('partial weight specs merge with the profile before rescaling', () => {
+		const partial = resolveScoringProfile(
+			'default',
+			parseScoringWeights('relevance=0.6,recency=0.4'),
+		)
+		expect(partial.weights).toMatchObject({ relevance: 0.462, recency: 0.308, engagement: 0.231 })
+		const full = resolveScoringProfile(
+			'default',
+			parseScoringWeights('relevance=0.6,recency=0.2,engagement=0.2'),
+		)
+		expect(full.weights).toMatchObject({ relevance: 0.6, recency: 0.2, engagement: 0.2 })
+	})
+
+	test('invalid profiles and weights throw ScoringError', () => {
+		expect(() => resolveScoringProfile('hot')).toThrow(ScoringError)
+		expect(() => resolveScoringProfile('custom')).toThrow(ScoringError)
+		expect(() => parseScoringWeights('freshness=1')).toThrow(ScoringError)
+		expect(() => parseScoringWeights('recency=-1')).toThrow(ScoringError)
+	})
+
+	test('explain lists components, penalties and normalization range', () => {
+		const known = historyRedditItem('R1', 'https://reddit.com/r/a/1', 0, 100)
+		const unknown = {
+			...historyRedditItem('R2', 'https://reddit.com/r/a/2', 0),
+			engagement: null,
+			date_confidence: 'low',
+		}
+		const [scoredKnown, scoredUnknown] = scoreRedditItems([known, unknown], 30)
+		const explain = scoredUnknown!.explain!
+		expect(explain.components.map((c) => c.name)).toEqual(['relevance', 'recency', 'engagement'])
+		expect(explain.components[2]).toMatchObject({ raw: null, value: 35, weight: 0.3 })
+		expect(explain.adjustments).toEqual([
+			{ reason: 'unknown engagement', points: -10 },
+			{ reason: 'low date confidence', points: -10 },
+		])
+		expect(explain.normalization).toEqual(scoredKnown!.explain!.normalization)
+		expect(explain.normalization!.min).toBe(explain.normalization!.max)
+		expect(scoredUnknown!.score).toBe(Math.max(0, Math.floor(explain.total)))
+	})
+
+	test('web explain records the source penalty and date bonus', () => {
+		const [item] = scoreWebsearchItems(
+			[
+				{
+					id: 'W1',
+					title: 'Post',
+					url: 'https://example.com',
+					source_domain: 'example.com',
+					snippet: '',
+					date: null,
+					date_confidence: 'high',
+					relevance: 0.6,
+					why_relevant: '',
+					subs: { relevance: 0, recency: 0, engagement: 0 },
+					score: 0,
+					explain: null,
+					cluster_id: null,
+				},
+			],
+			30,
+		)
+		expect(item!.explain!.normalization).toBeNull()
+		expect(item!.explain!.adjustments).toEqual([
+			{ reason: 'web source', points: -15 },
+			{ reason: 'verified date', points: 10 },
+		])
+	})
 })
 
 // ---------------------------------------------------------------------------
@@ -302,6 +693,130 @@ describe('render', () => {
 		expect(renderCompact(report)).toContain('last 14 days')
 	})
 
+	test('--explain output includes the score breakdown', () => {
+		const report = createReport('testing', '2025-01-24', '2025-01-31', 'both')
+		report.items.reddit = scoreRedditItems([
+			historyRedditItem('R1', 'https://reddit.com/r/a/1', 0, 100),
+		])
+		expect(renderCompact(report)).not.toContain('Explain:')
+		expect(renderCompact(report, 15, 'none', true)).toContain('Explain: relevance 80×0.45=36')
+		const md = renderFullReport(report, true)
+		expect(md).toContain('**Score Breakdown:**')
+		expect(md).toContain('  - relevance: 80 (raw 0.8) × 0.45 = 36')
+	})
+
+	test('renderHtml escapes content and collapses comment insights', () => {
+		const report = createReport('<Bun>', '2025-01-24', '2025-01-31', 'both')
+		report.items.reddit = scoreRedditItems([
+			{
+				...historyRedditItem('R1', 'https://reddit.com/r/a/1', 0, 100),
+				title: 'Tips & <tricks>',
+				comment_insights: ['Use bun --hot'],
+			},
+		])
+		report.errors.web = 'Search failed'
+		const html = renderHtml(report)
+		expect(html).toStartWith('<!DOCTYPE html>')
+		expect(html).toContain('<title>&lt;Bun&gt; - Last 30 Days Research Report</title>')
+		expect(html).toContain('Tips &amp; &lt;tricks&gt;')
+		expect(html).toContain('<details><summary>1 comment insight(s)</summary>')
+		expect(html).toContain('<th data-sort="number">Score</th>')
+		expect(html).toContain('<strong>Error:</strong> Search failed')
+		expect(html).toContain('class="banner warn"')
+		expect(html).not.toContain('<h2>X Posts')
+	})
+
+	test('feed entry ids are stable across URL variants', () => {
+		const id = getFeedEntryId('https://www.reddit.com/r/bun/comments/1/')
+		expect(id).toMatch(/^urn:last-30-days:item:[0-9a-f]{32}$/)
+		expect(getFeedEntryId('https://old.reddit.com/r/bun/comments/1')).toBe(id)
+		expect(getFeedEntryId('https://reddit.com/r/bun/comments/2')).not.toBe(id)
+	})
+
+	test('renderAtom and renderRss emit one entry per item', () => {
+		const report = createReport('Bun & Node', '2025-01-24', '2025-01-31', 'both')
+		report.items.reddit = scoreRedditItems([
+			historyRedditItem('R1', 'https://reddit.com/r/a/1', 0, 100),
+		])
+		report.items.web = [
+			{
+				id: 'W1',
+				title: 'Release notes',
+				url: 'https://bun.sh/blog',
+				source_domain: 'bun.sh',
+				snippet: '',
+				date: null,
+				date_confidence: 'low',
+				relevance: 0.5,
+				why_relevant: '',
+				subs: { relevance: 0, recency: 0, engagement: 0 },
+				score: 12,
+				explain: null,
+				cluster_id: null,
+			},
+		]
+		const atom = renderAtom(report)
+		expect(atom).toContain('<feed xmlns="http://www.w3.org/2005/Atom">')
+		expect(atom).toContain('<title>Bun &amp; Node - Last 30 Days</title>')
+		expect(atom.match(/<entry>/g)).toHaveLength(2)
+		expect(atom).toContain(`<id>${getFeedEntryId('https://reddit.com/r/a/1')}</id>`)
+		expect(atom).toContain('<updated>2026-01-15T00:00:00Z</updated>')
+		expect(atom).toContain(`<updated>${report.generated_at}</updated>`)
+		expect(atom).toMatch(/<summary>Score \d+\/100 · r\/test · 100 pts, 1 cmt<\/summary>/)
+
+		const rss = renderRss(report)
+		expect(rss).toContain('<rss version="2.0">')
+		expect(rss.match(/<item>/g)).toHaveLength(2)
+		expect(rss).toContain(
+			`<guid isPermaLink="false">${getFeedEntryId('https://bun.sh/blog')}</guid>`,
+		)
+		expect(rss).toContain('<pubDate>Thu, 15 Jan 2026 00:00:00 GMT</pubDate>')
+	})
+
+	test('renderCsv and renderJsonl flatten items with a fixed column order', () => {
+		const report = createReport('testing', '2025-01-24', '2025-01-31', 'both')
+		report.items.hn = [
+			{
+				id: 'HN1',
+				title: 'Show HN: "fast", small',
+				url: 'https://news.ycombinator.com/item?id=1',
+				story_url: 'https://example.com',
+				author: 'pg',
+				date: '2025-01-30',
+				date_confidence: 'high',
+				engagement: { points: 120, num_comments: 40 },
+				top_comments: [],
+				comment_insights: [],
+				relevance: 0.9,
+				why_relevant: '',
+				subs: { relevance: 90, recency: 80, engagement: 70 },
+				score: 81,
+				explain: null,
+				cluster_id: null,
+			},
+		]
+		const csv = renderCsv(report).split('\r\n')
+		expect(csv[0]).toBe(FLAT_COLUMNS.join(','))
+		expect(csv[1]).toStartWith('hn,HN1,"Show HN: ""fast"", small",')
+		expect(csv[1]!.split(',')).toHaveLength(FLAT_COLUMNS.length + 1)
+
+		const [row] = renderJsonl(report)
+			.trim()
+			.split('\n')
+			.map((line) => JSON.parse(line) as Record<string, unknown>)
+		expect(Object.keys(row!)).toEqual([...FLAT_COLUMNS])
+		expect(row).toMatchObject({
+			engagement_points: 120,
+			engagement_likes: null,
+			subs_engagement: 70,
+			author: 'pg',
+			subreddit: null,
+		})
+		expect(renderCsv(createReport('empty', '2025-01-24', '2025-01-31', 'both'))).toBe(
+			`${FLAT_COLUMNS.join(',')}\r\n`,
+		)
+	})
+
 	test('getContextPath returns default path when no outdir', () => {
 		const path = getContextPath()
 		expect(path).toContain('last-30-days')
@@ -718,21 +1233,481 @@ describe('cache key versioning', () => {
 	})
 })
 
+// ---------------------------------------------------------------------------
+// cache: inventory and maintenance
+// ---------------------------------------------------------------------------
+/**
+ * Run `fn` against an empty cache directory under /tmp, so tests never touch
+ * the user's own `~/.cache/last-30-days`.
+ */
+async function withTempCacheDir(fn: (dir: string) => unknown): Promise<void> {
+	const dir = `/tmp/l30d-cache-${Date.now()}-${Math.random().toString(36).slice(2)}`
+	mkdirSync(dir, { recursive: true })
+	setCacheDir(dir)
+	try {
+		await fn(dir)
+	} finally {
+		setCacheDir(null)
+		rmSync(dir, { recursive: true, force: true })
+	}
+}
+
+describe('cache inventory', () => {
+	test('search entries carry a metadata envelope', async () => {
+		await withTempCacheDir(() => {
+			const topic = `inventory test ${Date.now()}`
+			const key = getSourceCacheKey(
+				topic,
+				'2026-01-01',
+				'2026-01-31',
+				30,
+				'hn',
+				'quick',
+				null,
+				'test-v1',
+			)
+			saveCache(key, { items: [{ id: 'H1' }, { id: 'H2' }], raw: {} })
+			const found = inspectCacheEntry(key.slice(0, 12))
+			expect(found?.entry.kind).toBe('search')
+			expect(found?.entry.item_count).toBe(2)
+			expect(found?.entry.meta).toMatchObject({
+				kind: 'search',
+				topic,
+				source: 'hn',
+				depth: 'quick',
+				model: null,
+				prompt_version: 'test-v1',
+				schema_version: SEARCH_CACHE_SCHEMA_VERSION,
+			})
+			expect(found?.data).toEqual({ items: [{ id: 'H1' }, { id: 'H2' }], raw: {} })
+			expect(loadCache(key)).toEqual(found?.data ?? null)
+			expect(
+				listCacheEntries()
+					.filter((e) => e.kind === 'search')
+					.map((e) => e.key),
+			).toEqual([key])
+			expect(getCacheStats().kinds.search.count).toBe(1)
+		})
+	})
+
+	test('enrichment entries are told apart from search entries', async () => {
+		await withTempCacheDir(() => {
+			const url = `https://news.ycombinator.com/item?id=${Date.now()}`
+			const key = getEnrichmentCacheKey(url, 'hn')
+			saveCache(key, { item: { url }, cached_at: new Date().toISOString() })
+			const found = inspectCacheEntry(key)
+			expect(found?.entry.kind).toBe('enrichment')
+			expect(found?.entry.meta).toMatchObject({
+				kind: 'enrichment',
+				source: 'hn',
+				url,
+				topic: null,
+			})
+		})
+	})
+
+	test('legacy entries without an envelope still load', async () => {
+		await withTempCacheDir((dir) => {
+			const key = `legacy-${Date.now()}`
+			writeFileSync(join(dir, `${key}.json`), JSON.stringify({ items: [{ id: 'R1' }], raw: {} }))
+			expect(loadCache(key)).toEqual({ items: [{ id: 'R1' }], raw: {} })
+			const found = inspectCacheEntry(key)
+			expect(found?.entry.kind).toBe('search')
+			expect(found?.entry.meta).toBeNull()
+		})
+	})
+
+	test('index answers queries and invalidates by topic or prompt version', async () => {
+		await withTempCacheDir((dir) => {
+			const topic = `Index Test ${Date.now()}`
+			const keyFor = (source: string, prompt: string) =>
+				getSourceCacheKey(topic, '2026-01-01', '2026-01-31', 30, source, 'default', null, prompt)
+			const oldReddit = keyFor('reddit', 'old-v1')
+			const newReddit = keyFor('reddit', 'new-v2')
+			const hn = keyFor('hn', 'new-v2')
+			saveCache(oldReddit, { items: [], raw: {} })
+			const snapshot = readFileSync(join(dir, 'index.json'), 'utf-8')
+			saveCache(newReddit, { items: [], raw: {} })
+			saveCache(hn, { items: [], raw: {} })
+			// Later writes append to the log instead of rewriting index.json
+			expect(readFileSync(join(dir, 'index.json'), 'utf-8')).toBe(snapshot)
+			expect(readFileSync(join(dir, 'index.log'), 'utf-8')).toContain(hn)
+
+			const keys = (filter: Parameters<typeof queryCache>[0]) =>
+				queryCache(filter)
+					.map((e) => e.key)
+					.sort()
+			expect(keys({ topic: `  ${topic.toUpperCase()} ` })).toEqual(
+				[oldReddit, newReddit, hn].sort(),
+			)
+			expect(keys({ topic, source: 'reddit' })).toEqual([oldReddit, newReddit].sort())
+
+			expect(invalidateCache({ topic, prompt_version: 'old-v1' }).map((e) => e.key)).toEqual([
+				oldReddit,
+			])
+			expect(existsSync(join(dir, `${oldReddit}.json`))).toBe(false)
+			expect(keys({ topic })).toEqual([newReddit, hn].sort())
+
+			// A lost index is rebuilt from the envelopes on disk.
+			rmSync(join(dir, 'index.json'), { force: true })
+			expect(keys({ topic })).toEqual([newReddit, hn].sort())
+			expect(rebuildCacheIndex()).toBe(2)
+			expect(existsSync(join(dir, 'index.log'))).toBe(false)
+
+			expect(invalidateCache({ topic })).toHaveLength(2)
+			expect(keys({ topic })).toEqual([])
+		})
+	})
+
+	test('prune removes entries past their TTL', async () => {
+		await withTempCacheDir((dir) => {
+			const key = getEnrichmentCacheKey(`https://example.com/prune-${Date.now()}`)
+			saveCache(key, { item: {}, cached_at: '2020-01-01T00:00:00Z' })
+			const path = join(dir, `${key}.json`)
+			const old = new Date(Date.now() - 72 * 60 * 60 * 1000)
+			utimesSync(path, old, old)
+			expect(inspectCacheEntry(key)?.entry.expired).toBe(true)
+			expect(pruneCache().map((e) => e.key)).toEqual([key])
+			expect(existsSync(path)).toBe(false)
+		})
+	})
+})
+
+// ---------------------------------------------------------------------------
+// cache: locks
+// ---------------------------------------------------------------------------
+describe('cache locks', () => {
+	const lockPath = (key: string) => join(getCacheDir(), 'locks', `${key}.lock`)
+	const writeLock = (key: string, owner: Record<string, unknown> | null) => {
+		mkdirSync(join(getCacheDir(), 'locks'), { recursive: true })
+		writeFileSync(lockPath(key), owner ? JSON.stringify(owner) : '')
+	}
+
+	test('lock files record pid, host and token, and release removes them', async () => {
+		await withTempCacheDir(async () => {
+			const key = 'lock-owner'
+			expect(await acquireCacheLock(key, 0)).toBe(true)
+			const owner = JSON.parse(readFileSync(lockPath(key), 'utf-8'))
+			expect(owner).toMatchObject({ pid: process.pid, host: hostname() })
+			expect(owner.token).toEqual(expect.any(String))
+			expect(await acquireCacheLock(key, 0)).toBe(false)
+			releaseCacheLock(key)
+			expect(existsSync(lockPath(key))).toBe(false)
+		})
+	})
+
+	test('release leaves a lock that was taken over by someone else', async () => {
+		await withTempCacheDir(async () => {
+			const key = 'lock-stolen'
+			expect(await acquireCacheLock(key, 0)).toBe(true)
+			writeLock(key, {
+				pid: process.pid,
+				host: hostname(),
+				token: 'someone-else',
+				acquired_at: new Date().toISOString(),
+			})
+			releaseCacheLock(key)
+			expect(JSON.parse(readFileSync(lockPath(key), 'utf-8')).token).toBe('someone-else')
+		})
+	})
+
+	test('a fresh lock held by a dead process on this host is taken over at once', async () => {
+		await withTempCacheDir(async () => {
+			const key = 'lock-dead'
+			const exited = Bun.spawnSync({ cmd: [process.execPath, '--version'], stdout: 'pipe' })
+			writeLock(key, {
+				pid: exited.pid,
+				host: hostname(),
+				token: 'dead',
+				acquired_at: new Date().toISOString(),
+			})
+			try {
+				expect(await acquireCacheLock(key, 0)).toBe(true)
+				expect(JSON.parse(readFileSync(lockPath(key), 'utf-8')).pid).toBe(process.pid)
+			} finally {
+				releaseCacheLock(key)
+			}
+		})
+	})
+
+	test('a fresh lock from another host is respected until it goes stale', async () => {
+		await withTempCacheDir(async () => {
+			const key = 'lock-remote'
+			writeLock(key, {
+				pid: 1,
+				host: 'some-other-host',
+				token: 'remote',
+				acquired_at: new Date().toISOString(),
+			})
+			try {
+				expect(await acquireCacheLock(key, 0)).toBe(false)
+				const old = new Date(Date.now() - 10 * 60 * 1000)
+				utimesSync(lockPath(key), old, old)
+				expect(await acquireCacheLock(key, 0)).toBe(true)
+			} finally {
+				releaseCacheLock(key)
+			}
+		})
+	})
+
+	test('a lock without a recorded owner is live until stale by mtime', async () => {
+		await withTempCacheDir(async () => {
+			const key = 'lock-ownerless'
+			// What a holder's lock looks like between creating and writing it
+			writeLock(key, null)
+			try {
+				expect(await acquireCacheLock(key, 0)).toBe(false)
+				expect(readFileSync(lockPath(key), 'utf-8')).toBe('')
+				const old = new Date(Date.now() - 10 * 60 * 1000)
+				utimesSync(lockPath(key), old, old)
+				expect(await acquireCacheLock(key, 0)).toBe(true)
+				expect(JSON.parse(readFileSync(lockPath(key), 'utf-8')).pid).toBe(process.pid)
+			} finally {
+				releaseCacheLock(key)
+			}
+		})
+	})
+
+	test('three processes racing to break an abandoned lock leave one holder', async () => {
+		await withTempCacheDir(async (dir) => {
+			const keys = ['race-0', 'race-1', 'race-2', 'race-3', 'race-4']
+			const exited = Bun.spawnSync({ cmd: [process.execPath, '--version'], stdout: 'pipe' })
+			for (const key of keys) {
+				writeLock(key, {
+					pid: exited.pid,
+					host: hostname(),
+					token: 'dead',
+					acquired_at: new Date().toISOString(),
+				})
+			}
+			// Each round starts on a shared clock so the contenders overlap
+			const startAt = Date.now() + 1500
+			const script = `
+				const cache = await import(${JSON.stringify(join(process.cwd(), 'src/lib/cache.ts'))})
+				cache.setCacheDir(${JSON.stringify(dir)})
+				const keys = ${JSON.stringify(keys)}
+				const acquired = {}
+				for (const [i, key] of keys.entries()) {
+					await Bun.sleep(Math.max(0, ${startAt} + i * 200 - Date.now()))
+					acquired[key] = await cache.acquireCacheLock(key, 0)
+				}
+				await Bun.sleep(Math.max(0, ${startAt} + keys.length * 200 + 500 - Date.now()))
+				const holders = {}
+				for (const key of keys) {
+					holders[key] = JSON.parse(await Bun.file(${JSON.stringify(join(dir, 'locks'))} + '/' + key + '.lock').text()).pid
+				}
+				console.log(JSON.stringify({ pid: process.pid, acquired, holders }))
+				process.exit(0)
+			`
+			const contenders = [0, 1, 2].map(() =>
+				Bun.spawn({ cmd: [process.execPath, '-e', script], stdout: 'pipe', stderr: 'pipe' }),
+			)
+			const results = await Promise.all(
+				contenders.map(async (p) => {
+					const out = await new Response(p.stdout).text()
+					await p.exited
+					return JSON.parse(out) as {
+						pid: number
+						acquired: Record<string, boolean>
+						holders: Record<string, number>
+					}
+				}),
+			)
+			for (const key of keys) {
+				const winners = results.filter((r) => r.acquired[key])
+				expect(winners).toHaveLength(1)
+				for (const r of results) expect(r.holders[key]).toBe(winners[0]!.pid)
+			}
+		})
+	}, 15000)
+})
+
+// ---------------------------------------------------------------------------
+// cache: SQLite backend
+// ---------------------------------------------------------------------------
+describe('sqlite cache backend', () => {
+	test('rejects unknown backends', () => {
+		expect(() => setCacheBackend('redis')).toThrow('Invalid CACHE_BACKEND')
+	})
+
+	test('saves, loads, queries and invalidates without touching JSON files', async () => {
+		await withTempCacheDir((dir) => {
+			const topic = `sqlite test ${Date.now()}`
+			const key = getSourceCacheKey(
+				topic,
+				'2026-01-01',
+				'2026-01-31',
+				30,
+				'hn',
+				'quick',
+				null,
+				'test-v1',
+			)
+			setCacheBackend('sqlite')
+			try {
+				saveCache(key, { items: [{ id: 'H1' }], raw: {} })
+				expect(existsSync(join(dir, `${key}.json`))).toBe(false)
+				expect(existsSync(join(dir, 'cache.sqlite'))).toBe(true)
+				const [data, age] = loadCacheWithAge(key, 1)
+				expect(data).toEqual({ items: [{ id: 'H1' }], raw: {} })
+				expect(age).toBeLessThan(1)
+
+				const found = inspectCacheEntry(key)
+				expect(found?.entry).toMatchObject({ backend: 'sqlite', kind: 'search', item_count: 1 })
+				expect(found?.entry.meta).toMatchObject({ topic, prompt_version: 'test-v1' })
+				expect(queryCache({ topic }).map((e) => e.key)).toEqual([key])
+
+				expect(invalidateCache({ topic })).toHaveLength(1)
+				expect(loadCache(key)).toBeNull()
+			} finally {
+				setCacheBackend('file')
+			}
+		})
+	})
+
+	test('locks are exclusive until released', async () => {
+		await withTempCacheDir(async () => {
+			const key = `sqlite-lock-${Date.now()}`
+			setCacheBackend('sqlite')
+			try {
+				expect(await acquireCacheLock(key, 0)).toBe(true)
+				expect(await acquireCacheLock(key, 150)).toBe(false)
+				releaseCacheLock(key)
+				expect(await acquireCacheLock(key, 0)).toBe(true)
+			} finally {
+				releaseCacheLock(key)
+				setCacheBackend('file')
+			}
+		})
+	})
+})
+
+// ---------------------------------------------------------------------------
+// cache: size limits
+// ---------------------------------------------------------------------------
+describe('cache size limits', () => {
+	test('parses sizes and entry counts per kind', () => {
+		expect(parseCacheLimits('search_bytes=1.5KB, enrichment_entries=10,search_entries=0')).toEqual({
+			search: { max_bytes: 1536, max_entries: 0 },
+			enrichment: { max_entries: 10 },
+		})
+		expect(() => parseCacheLimits('search=10')).toThrow('Invalid cache limit')
+		expect(() => parseCacheLimits('search_entries=10MB')).toThrow('Invalid cache limit')
+		setCacheLimits({ search: { max_entries: 3 } })
+		try {
+			expect(getCacheLimits().search).toEqual({ ...DEFAULT_CACHE_LIMITS.search, max_entries: 3 })
+		} finally {
+			setCacheLimits({})
+		}
+	})
+
+	// Eviction deletes real entries, so it runs against an isolated HOME.
+	test.each([
+		'file',
+		'sqlite',
+	])('evicts the least recently used search entry (%s backend)', (backend) => {
+		const script = `
+			const cache = await import(${JSON.stringify(join(process.cwd(), 'src/lib/cache.ts'))})
+			cache.setCacheBackend(${JSON.stringify(backend)})
+			cache.clearCache()
+			cache.setCacheLimits({ search: { max_entries: 2 } })
+			const key = (topic) => cache.getSourceCacheKey(topic, '2026-01-01', '2026-01-31', 30, 'hn', 'quick', null, 'v1')
+			const [a, b, c] = [key('a'), key('b'), key('c')]
+			for (const k of [a, b]) {
+				cache.saveCache(k, { items: [], raw: {} })
+				Bun.sleepSync(20)
+			}
+			for (let i = 0; i < 3; i++) {
+				cache.saveCache(cache.getEnrichmentCacheKey('https://example.com/' + i), { item: {} })
+			}
+			cache.loadCache(a)
+			Bun.sleepSync(20)
+			cache.saveCache(c, { items: [], raw: {} })
+			const stats = cache.getCacheStats()
+			console.log(JSON.stringify({
+				a: cache.loadCache(a) !== null,
+				b: cache.loadCache(b) !== null,
+				c: cache.loadCache(c) !== null,
+				search: stats.kinds.search.count,
+				enrichment: stats.kinds.enrichment.count,
+			}))
+			cache.clearCache()
+		`
+		const result = Bun.spawnSync({
+			cmd: [process.execPath, '-e', script],
+			env: { ...process.env, HOME: '/tmp/last-30-days-limits-home' },
+			stdout: 'pipe',
+			stderr: 'pipe',
+		})
+		expect(new TextDecoder().decode(result.stderr)).toBe('')
+		expect(JSON.parse(new TextDecoder().decode(result.stdout))).toEqual({
+			a: true,
+			b: false,
+			c: true,
+			search: 2,
+			enrichment: 3,
+		})
+	})
+})
+
 // ---------------------------------------------------------------------------
 // cli
 // ---------------------------------------------------------------------------
 describe('cli', () => {
-	function runCli(args: string[]) {
+	function runCli(args: string[], env: Record<string, string> = {}) {
 		const testHome = '/tmp/last-30-days-test-home'
 		return Bun.spawnSync({
 			cmd: [process.execPath, 'run', 'src/cli.ts', ...args],
 			cwd: process.cwd(),
-			env: { ...process.env, HOME: testHome },
+			env: { ...process.env, HOME: testHome, ...env },
 			stdout: 'pipe',
 			stderr: 'pipe',
 		})
 	}
 
+	test('cache subcommands report stats and reject unknown keys', () => {
+		expect(runCli(['cache', 'clear']).exitCode).toBe(0)
+		const stats = runCli(['cache', 'stats', '--emit=json'])
+		expect(stats.exitCode).toBe(0)
+		const parsed = JSON.parse(new TextDecoder().decode(stats.stdout)) as {
+			total: { count: number }
+		}
+		expect(parsed.total.count).toBe(0)
+		expect(runCli(['cache', 'show', 'ffffffffffffffff']).exitCode).toBe(1)
+		expect(runCli(['cache', 'bogus']).exitCode).toBe(1)
+		expect(runCli(['cache', 'invalidate']).exitCode).toBe(1)
+		expect(runCli(['cache', 'invalidate', '--prompt=old-v1']).exitCode).toBe(0)
+		expect(runCli(['cache', 'ls', '--kind=bogus']).exitCode).toBe(1)
+	})
+
+	test('cache migrate moves file entries into SQLite', () => {
+		expect(runCli(['cache', 'clear']).exitCode).toBe(0)
+		const cacheDir = '/tmp/last-30-days-test-home/.cache/last-30-days'
+		mkdirSync(cacheDir, { recursive: true })
+		writeFileSync(
+			join(cacheDir, 'abcdef0123456789.json'),
+			JSON.stringify({ items: [{ id: 'R1' }], raw: {} }),
+		)
+
+		const migrate = runCli(['cache', 'migrate', '--emit=json'])
+		expect(migrate.exitCode).toBe(0)
+		expect(JSON.parse(new TextDecoder().decode(migrate.stdout))).toEqual({
+			migrated: 1,
+			skipped: 0,
+		})
+		expect(existsSync(join(cacheDir, 'abcdef0123456789.json'))).toBe(false)
+
+		const show = runCli(['cache', 'show', 'abcdef', '--emit=json'], { CACHE_BACKEND: 'sqlite' })
+		expect(show.exitCode).toBe(0)
+		const found = JSON.parse(new TextDecoder().decode(show.stdout)) as {
+			entry: { backend: string }
+			data: unknown
+		}
+		expect(found.entry.backend).toBe('sqlite')
+		expect(found.data).toEqual({ items: [{ id: 'R1' }], raw: {} })
+		expect(runCli(['cache', 'clear'], { CACHE_BACKEND: 'sqlite' }).exitCode).toBe(0)
+	})
+
 	test('defaults to 30-day window in JSON output', () => {
 		const result = runCli(['test topic', '--mock', '--emit=json'])
 		expect(result.exitCode).toBe(0)
@@ -768,6 +1743,28 @@ describe('cli', () => {
 		)
 	})
 
+	test('accepts --profile and rejects unknown profiles', () => {
+		const result = runCli(['test topic', '--mock', '--emit=json', '--profile=engagement'])
+		expect(result.exitCode).toBe(0)
+		const output = JSON.parse(new TextDecoder().decode(result.stdout)) as {
+			scoring_profile: { name: string }
+		}
+		expect(output.scoring_profile.name).toBe('engagement')
+
+		const bad = runCli(['test topic', '--mock', '--profile=hot'])
+		expect(bad.exitCode).toBe(1)
+		expect(new TextDecoder().decode(bad.stderr)).toContain('Unknown scoring profile')
+	})
+
+	test('schema command prints the report JSON Schema', () => {
+		const result = runCli(['schema'])
+		expect(result.exitCode).toBe(0)
+		const output = JSON.parse(new TextDecoder().decode(result.stdout)) as {
+			properties: { schema_version: { const: number } }
+		}
+		expect(output.properties.schema_version.const).toBe(REPORT_SCHEMA_VERSION)
+	})
+
 	test('rejects --days=0', () => {
 		const result = runCli(['test topic', '--mock', '--days=0'])
 		expect(result.exitCode).toBe(1)
@@ -889,12 +1886,28 @@ describe('cli', () => {
 			expect(result.exitCode).toBe(0)
 			expect(existsSync(join(outdir, 'report.json'))).toBe(true)
 			expect(existsSync(join(outdir, 'report.md'))).toBe(true)
+			expect(existsSync(join(outdir, 'report.html'))).toBe(true)
 			expect(existsSync(join(outdir, 'last-30-days.context.md'))).toBe(true)
 		} finally {
 			rmSync(outdir, { recursive: true, force: true })
 		}
 	})
 
+	test('--outdir that cannot be written warns on stderr without --debug', () => {
+		const blocker = `/tmp/l30d-outdir-blocker-${Date.now()}`
+		writeFileSync(blocker, '')
+		try {
+			// A path beneath a regular file can't be created, even as root
+			const result = runCli(['test topic', '--mock', '--emit=json', `--outdir=${blocker}/out`])
+			expect(result.exitCode).toBe(0)
+			expect(new TextDecoder().decode(result.stderr)).toContain(
+				'Warning: Could not write output files',
+			)
+		} finally {
+			rmSync(blocker, { force: true })
+		}
+	})
+
 	test('--outdir with space-separated value works', () => {
 		const outdir = `/tmp/l30d-outdir-space-${Date.now()}`
 		try {
@@ -939,6 +1952,73 @@ describe('cli', () => {
 		expect(stdout).toContain('last-30-days.context.md')
 		expect(stdout).not.toContain('/tmp/l30d-outdir')
 	})
+
+	test('diff reports missing history', () => {
+		const result = runCli(['diff', `never researched ${Date.now()}`])
+		expect(result.exitCode).toBe(1)
+		expect(new TextDecoder().decode(result.stderr)).toContain('No run history')
+	})
+
+	test('diff compares the two latest runs', () => {
+		const topic = `cli diff ${Date.now()}`
+		const dir = '/tmp/last-30-days-test-home/.local/share/last-30-days/history'
+		const first = createReport(topic, '2026-01-01', '2026-01-31', 'both')
+		first.generated_at = '2026-01-31T00:00:00.000Z'
+		first.items.reddit = [
+			{ ...historyRedditItem('R1', 'https://reddit.com/r/a/1', 50), title: 'Old thread' },
+		]
+		const second = createReport(topic, '2026-01-02', '2026-02-01', 'both')
+		second.generated_at = '2026-02-01T00:00:00.000Z'
+		second.items.reddit = [
+			{ ...historyRedditItem('R1', 'https://www.reddit.com/r/a/1/', 70), title: 'Old thread' },
+		]
+		try {
+			saveRun(first, dir)
+			saveRun(second, dir)
+			const result = runCli(['diff', topic, '--emit=json'])
+			expect(result.exitCode).toBe(0)
+			const diff = JSON.parse(new TextDecoder().decode(result.stdout)) as ReportDiff
+			expect(diff.changed).toHaveLength(1)
+			expect(diff.changed[0]!.score_delta).toBe(20)
+		} finally {
+			rmSync(join(dir, getTopicSlug(topic)), { recursive: true, force: true })
+		}
+	})
+
+	test('diff and the first watch cycle read sqlite history under CACHE_BACKEND=sqlite', () => {
+		const topic = 'cli sqlite history'
+		const home = `/tmp/last-30-days-sqlite-home-${Date.now()}`
+		const dir = join(home, '.local', 'share', 'last-30-days', 'history')
+		const first = createReport(topic, '2026-01-01', '2026-01-31', 'both')
+		first.generated_at = '2026-01-31T00:00:00.000Z'
+		first.items.reddit = [historyRedditItem('R1', 'https://reddit.com/r/a/1', 50)]
+		const second = createReport(topic, '2026-01-02', '2026-02-01', 'both')
+		second.generated_at = '2026-02-01T00:00:00.000Z'
+		second.items.reddit = [historyRedditItem('R1', 'https://reddit.com/r/a/1', 70)]
+		const env = { HOME: home, CACHE_BACKEND: 'sqlite' }
+		setCacheBackend('sqlite')
+		try {
+			saveRun(first, dir)
+			saveRun(second, dir)
+			expect(existsSync(join(dir, 'history.sqlite'))).toBe(true)
+
+			const diff = runCli(['diff', topic, '--emit=json'], env)
+			expect(new TextDecoder().decode(diff.stderr)).toBe('')
+			expect(diff.exitCode).toBe(0)
+			expect(
+				(JSON.parse(new TextDecoder().decode(diff.stdout)) as ReportDiff).changed,
+			).toHaveLength(1)
+
+			const watched = runCli(['watch', topic, '--once', '--mock'], env)
+			expect(watched.exitCode).toBe(0)
+			const log = new TextDecoder().decode(watched.stderr)
+			expect(log).toContain(`✓ ${topic}: `)
+			expect(log).not.toContain('baseline recorded')
+		} finally {
+			setCacheBackend('file')
+			rmSync(home, { recursive: true, force: true })
+		}
+	})
 })
 
 // ---------------------------------------------------------------------------
@@ -1196,3 +2276,1567 @@ describe('parser NaN guards', () => {
 		expect(scored[0]!.score).toBeLessThanOrEqual(100)
 	})
 })
+
+// ---------------------------------------------------------------------------
+// parse diagnostics: LLM output validation
+// ---------------------------------------------------------------------------
+describe('parse diagnostics', () => {
+	const respond = (text: string, extra: Record<string, unknown> = {}) => ({
+		...extra,
+		output: [{ type: 'message', content: [{ type: 'output_text', text }] }],
+	})
+
+	test('parseRedditResponse records wrong-domain, bad and missing URLs', () => {
+		const diag = createParseDiagnostics()
+		const items = parseRedditResponse(
+			respond(
+				JSON.stringify({
+					items: [
+						{ title: 'ok', url: 'https://old.reddit.com/r/a/comments/1/x/', subreddit: 'a' },
+						{ title: 'elsewhere', url: 'https://example.com/post', subreddit: 'a' },
+						{ title: 'garbage', url: 'not a url', subreddit: 'a' },
+						{ title: 'none', subreddit: 'a' },
+						'just a string',
+					],
+				}),
+			),
+			diag,
+		)
+		expect(items.length).toBe(1)
+		expect(diag.received).toBe(5)
+		expect(diag.accepted).toBe(1)
+		expect(diag.issues.map((i) => [i.reason, i.index])).toEqual([
+			['wrong_domain', 1],
+			['bad_url', 2],
+			['missing_url', 3],
+			['not_an_object', 4],
+		])
+		expect(diag.issues.every((i) => i.dropped)).toBe(true)
+	})
+
+	test('parseXResponse keeps items with an invalid date but clears it', () => {
+		const diag = createParseDiagnostics()
+		const items = parseXResponse(
+			respond(
+				JSON.stringify({
+					items: [
+						{
+							text: 'hi',
+							url: 'https://x.com/u/status/1',
+							author_handle: 'u',
+							date: 'last Tuesday',
+						},
+					],
+				}),
+			),
+			diag,
+		)
+		expect(items.length).toBe(1)
+		expect(items[0]!.date).toBeNull()
+		expect(diag.issues).toEqual([
+			{
+				reason: 'invalid_date',
+				index: 0,
+				detail: 'date "last Tuesday" is not YYYY-MM-DD; cleared',
+				dropped: false,
+			},
+		])
+		expect(formatParseDiagnostics(diag)).toContain('invalid_date (kept) x1')
+	})
+
+	test('records truncated output when the items object never closes', () => {
+		const diag = createParseDiagnostics()
+		const text = 'Here you go: {"items": [{"title": "a", "url": "https://www.reddit.com/r/a/'
+		const items = parseRedditResponse(
+			respond(text, { status: 'incomplete', incomplete_details: { reason: 'max_output_tokens' } }),
+			diag,
+		)
+		expect(items).toEqual([])
+		expect(diag.output_chars).toBe(text.length)
+		expect(diag.issues.map((i) => i.reason)).toEqual(['truncated_output', 'truncated_output'])
+		expect(diag.issues[0]!.detail).toContain('max_output_tokens')
+	})
+
+	test('records unparsable JSON instead of returning silently', () => {
+		const diag = createParseDiagnostics()
+		expect(parseXResponse(respond('{"items": [oops]}'), diag)).toEqual([])
+		expect(diag.issues.length).toBe(1)
+		expect(diag.issues[0]!.reason).toBe('unparsable_json')
+	})
+
+	test('extractItemsJson skips unrelated objects and braces inside strings', () => {
+		const text =
+			'Prefix {"note": "x"} then {"items": [{"title": "has } brace", "url": "u"}]} trailing {'
+		expect(extractItemsJson(text)).toEqual([{ title: 'has } brace', url: 'u' }])
+	})
+
+	test('no diagnostics collector leaves parsing unchanged', () => {
+		expect(parseXResponse(respond('nothing here'))).toEqual([])
+	})
+
+	test('parses structured output that is the bare items object', () => {
+		const diag = createParseDiagnostics()
+		const text = JSON.stringify({
+			items: [
+				{
+					text: 'hi',
+					url: 'https://x.com/u/status/1',
+					author_handle: 'u',
+					date: null,
+					engagement: null,
+					why_relevant: 'r',
+					relevance: 0.9,
+				},
+			],
+		})
+		expect(parseXResponse(respond(text), diag).length).toBe(1)
+		expect(diag.issues).toEqual([])
+	})
+
+	test('research records diagnostics per source in the report', async () => {
+		const report = await research('test topic', {
+			mock: true,
+			config: {},
+			days: 7,
+			sources: 'reddit',
+		})
+		const diag = report.parse_diagnostics.reddit
+		expect(diag).toBeDefined()
+		expect(diag!.received).toBeGreaterThan(0)
+		expect(diag!.accepted).toBeLessThanOrEqual(diag!.received)
+	})
+})
+
+// ---------------------------------------------------------------------------
+// structured outputs: strict JSON response format
+// ---------------------------------------------------------------------------
+describe('structured outputs', () => {
+	test('item schemas are strict: every property required, no extras', () => {
+		for (const schema of [REDDIT_ITEM_SCHEMA, X_ITEM_SCHEMA]) {
+			const props = Object.keys(schema.properties as Record<string, unknown>)
+			expect([...(schema.required as string[])].sort()).toEqual(props.sort())
+			expect(schema.additionalProperties).toBe(false)
+		}
+	})
+
+	test('itemsResponseFormat wraps the item schema in an items object', () => {
+		const format = itemsResponseFormat('reddit_threads', REDDIT_ITEM_SCHEMA)
+		expect(format.type).toBe('json_schema')
+		expect(format.strict).toBe(true)
+		const schema = format.schema as Record<string, any>
+		expect(schema.required).toEqual(['items'])
+		expect(schema.properties.items.items).toBe(REDDIT_ITEM_SCHEMA)
+	})
+
+	test('supportsStructuredOutputs matches capable OpenAI models', () => {
+		expect(supportsStructuredOutputs('gpt-5.2')).toBe(true)
+		expect(supportsStructuredOutputs('GPT-4o-mini')).toBe(true)
+		expect(supportsStructuredOutputs('gpt-3.5-turbo')).toBe(false)
+	})
+
+	test('isResponseFormatError only matches format rejections', () => {
+		const body = '{"error": {"message": "text.format json_schema is not supported"}}'
+		expect(isResponseFormatError(new HTTPError('bad', 400, body))).toBe(true)
+		expect(isResponseFormatError(new HTTPError('bad', 400, 'model not found'))).toBe(false)
+		expect(isResponseFormatError(new HTTPError('bad', 500, body))).toBe(false)
+	})
+
+	test('searchX requests strict JSON and falls back to text when rejected', async () => {
+		const bodies: Record<string, unknown>[] = []
+		const realFetch = globalThis.fetch
+		globalThis.fetch = (async (_url: string, init: RequestInit) => {
+			const body = JSON.parse(String(init.body)) as Record<string, unknown>
+			bodies.push(body)
+			if (body.text) {
+				return new Response('{"error": {"message": "Invalid text.format"}}', { status: 400 })
+			}
+			return new Response('{"output": "ok"}', { status: 200 })
+		}) as typeof fetch
+		try {
+			const res = await searchX('k', 'grok-4-1-fast', 'topic', '2026-01-01', '2026-01-31')
+			expect(res.output).toBe('ok')
+		} finally {
+			globalThis.fetch = realFetch
+		}
+		expect(bodies.length).toBe(2)
+		expect((bodies[0]!.text as any).format.name).toBe('x_posts')
+		expect(bodies[1]!.text).toBeUndefined()
+	})
+})
+
+// ---------------------------------------------------------------------------
+// rate limiter: per-host token buckets
+// ---------------------------------------------------------------------------
+describe('rate limiter', () => {
+	const t0 = 1_000_000
+
+	test('parseRateLimits reads host=rpm pairs', () => {
+		expect(parseRateLimits('api.openai.com=500, reddit.com=0')).toEqual({
+			'api.openai.com': 500,
+			'reddit.com': 0,
+		})
+		expect(() => parseRateLimits('reddit.com')).toThrow('expected host=rpm')
+		expect(() => parseRateLimits('reddit.com=-1')).toThrow()
+	})
+
+	test('allows a burst, then paces to the configured rate', () => {
+		try {
+			setRateLimits({ 'api.example.com': 60 })
+			for (let i = 0; i < 10; i++) {
+				expect(reserveRateLimit('https://api.example.com/v1', t0)).toBe(0)
+			}
+			expect(reserveRateLimit('https://api.example.com/v1', t0)).toBe(1000)
+			expect(reserveRateLimit('https://api.example.com/v1', t0)).toBe(2000)
+			expect(reserveRateLimit('https://other.example.org/', t0)).toBe(0)
+		} finally {
+			setRateLimits({})
+		}
+	})
+
+	test('subdomains share the parent host bucket and 0 disables it', () => {
+		try {
+			setRateLimits({ 'reddit.com': 6 })
+			expect(reserveRateLimit('https://www.reddit.com/search.json', t0)).toBe(0)
+			expect(reserveRateLimit('https://old.reddit.com/r/x.json', t0)).toBe(10_000)
+			setRateLimits({ 'reddit.com': 0 })
+			expect(reserveRateLimit('https://www.reddit.com/search.json', t0)).toBe(0)
+		} finally {
+			setRateLimits({})
+		}
+	})
+
+	test('holds a host until reset when the provider reports none remaining', () => {
+		try {
+			setRateLimits({ 'api.example.com': 600 })
+			observeRateLimitHeaders(
+				'https://api.example.com/v1',
+				new Headers({ 'x-ratelimit-remaining-requests': '0', 'x-ratelimit-reset-requests': '6s' }),
+				t0,
+			)
+			expect(reserveRateLimit('https://api.example.com/v1', t0)).toBe(6000)
+			expect(reserveRateLimit('https://api.example.com/v1', t0 + 6000)).toBe(0)
+		} finally {
+			setRateLimits({})
+		}
+	})
+
+	test('reddit remaining/reset headers use seconds', () => {
+		try {
+			setRateLimits({ 'reddit.com': 60 })
+			observeRateLimitHeaders(
+				'https://www.reddit.com/search.json',
+				new Headers({ 'x-ratelimit-remaining': '0.0', 'x-ratelimit-reset': '42' }),
+				t0,
+			)
+			expect(reserveRateLimit('https://www.reddit.com/search.json', t0)).toBe(42_000)
+		} finally {
+			setRateLimits({})
+		}
+	})
+})
+
+// ---------------------------------------------------------------------------
+// circuit breaker: persisted per-host failure streaks
+// ---------------------------------------------------------------------------
+describe('circuit breaker', () => {
+	test('opens after consecutive provider failures and then fails fast', async () => {
+		const url = 'https://circuit.example.com/v1'
+		let calls = 0
+		const down: Transport = async () => {
+			calls++
+			return new Response('upstream down', { status: 503 })
+		}
+		await withTempCacheDir(async () => {
+			for (let i = 0; i < 3; i++) {
+				await expect(request('GET', url, { retries: 1, transport: down })).rejects.toBeInstanceOf(
+					HTTPError,
+				)
+			}
+			expect(calls).toBe(3)
+			const err = await request('GET', url, { retries: 1, transport: down }).catch((e) => e)
+			expect(err).toBeInstanceOf(CircuitOpenError)
+			expect((err as CircuitOpenError).failures).toBe(3)
+			expect(calls).toBe(3)
+			expect(getOpenCircuit(url, Date.now() + 16 * 60_000)).toBeNull()
+			recordCircuitResult(url, null)
+			expect(getOpenCircuit(url)).toBeNull()
+		})
+	})
+
+	test('half-open circuits let one trial request through', async () => {
+		const url = 'https://circuit-trial.example.com/v1'
+		const down = new HTTPError('upstream down', 503)
+		const openedAt = Date.now() - 16 * 60_000
+		let release = () => {}
+		let calls = 0
+		const slow: Transport = async () => {
+			calls++
+			await new Promise<void>((resolve) => {
+				release = resolve
+			})
+			return Response.json({ ok: true })
+		}
+		await withTempCacheDir(async () => {
+			for (let i = 0; i < 3; i++) recordCircuitResult(url, down, openedAt)
+			expect(getOpenCircuit(url)).toBeNull()
+
+			const trial = request('GET', url, { retries: 1, transport: slow })
+			expect(getOpenCircuit(url)).toBeInstanceOf(CircuitOpenError)
+			const blocked = await request('GET', url, { retries: 1, transport: slow }).catch((e) => e)
+			expect(blocked).toBeInstanceOf(CircuitOpenError)
+			expect(calls).toBe(1)
+
+			release()
+			expect(await trial).toEqual({ ok: true })
+			expect(getOpenCircuit(url)).toBeNull()
+
+			// A failed trial reopens the circuit for a full cooldown
+			for (let i = 0; i < 3; i++) recordCircuitResult(url, down, openedAt)
+			const failing: Transport = async () => new Response('still down', { status: 503 })
+			await expect(request('GET', url, { retries: 1, transport: failing })).rejects.toBeInstanceOf(
+				HTTPError,
+			)
+			const reopened = getOpenCircuit(url)
+			expect(reopened?.failures).toBe(4)
+			expect(reopened!.retry_at > new Date(Date.now() + 14 * 60_000).toISOString()).toBe(true)
+		})
+	})
+
+	test('client errors reset the streak instead of extending it', async () => {
+		const url = 'https://circuit-reset.example.com/v1'
+		let status = 503
+		const flaky: Transport = async () => new Response('{}', { status })
+		await withTempCacheDir(async () => {
+			for (let i = 0; i < 2; i++) {
+				await request('GET', url, { retries: 1, transport: flaky }).catch(() => {})
+			}
+			status = 404
+			await request('GET', url, { retries: 1, transport: flaky }).catch(() => {})
+			status = 503
+			for (let i = 0; i < 2; i++) {
+				await request('GET', url, { retries: 1, transport: flaky }).catch(() => {})
+			}
+			expect(getOpenCircuit(url)).toBeNull()
+		})
+	})
+})
+
+// ---------------------------------------------------------------------------
+// cassettes: HTTP record/replay
+// ---------------------------------------------------------------------------
+describe('cassettes', () => {
+	const fixture = (name: string) =>
+		readFileSync(join(import.meta.dir, '..', 'fixtures', name), 'utf-8')
+
+	/** Run `fn` with global fetch replaced, counting calls. */
+	async function withFetch<T>(handler: (url: string) => Response, fn: () => Promise<T>) {
+		const realFetch = globalThis.fetch
+		const calls: string[] = []
+		globalThis.fetch = (async (url: string) => {
+			calls.push(url)
+			return handler(url)
+		}) as typeof fetch
+		try {
+			return { result: await fn(), calls }
+		} finally {
+			globalThis.fetch = realFetch
+		}
+	}
+
+	const offline = () => {
+		throw new Error('network disabled')
+	}
+
+	test('redactUrl hides credential query parameters', () => {
+		expect(redactUrl('https://api.example.com/v1?api_key=sk-123&q=bun&access_token=t')).toBe(
+			'https://api.example.com/v1?api_key=REDACTED&q=bun&access_token=REDACTED',
+		)
+		expect(redactUrl('not a url')).toBe('not a url')
+	})
+
+	test('records interactions and replays them without the network', async () => {
+		const dir = `/tmp/l30d-cassette-${Date.now()}`
+		try {
+			useCassette({ mode: 'record', dir })
+			const recorded = await withFetch(
+				() => new Response('{"n": 1}', { status: 200, headers: { 'set-cookie': 'secret' } }),
+				() =>
+					request('POST', 'https://api.example.com/v1?key=sk-live', {
+						headers: { Authorization: 'Bearer sk-live' },
+						jsonData: { from: '2026-01-01', q: 'bun' },
+					}),
+			)
+			expect(recorded.result).toEqual({ n: 1 })
+			const files = readdirSync(dir)
+			expect(files.length).toBe(1)
+			const stored = readFileSync(join(dir, files[0]!), 'utf-8')
+			expect(stored).not.toContain('sk-live')
+			expect(stored).not.toContain('set-cookie')
+
+			useCassette({ mode: 'replay', dir })
+			const replayed = await withFetch(offline, () =>
+				request('POST', 'https://api.example.com/v1?key=other', {
+					jsonData: { from: '2026-03-05', q: 'bun' },
+				}),
+			)
+			expect(replayed.result).toEqual({ n: 1 })
+			expect(replayed.calls).toEqual([])
+
+			await expect(
+				request('GET', 'https://api.example.com/missing', { retries: 1 }),
+			).rejects.toBeInstanceOf(CassetteError)
+		} finally {
+			useCassette(null)
+			rmSync(dir, { recursive: true, force: true })
+		}
+	})
+
+	test('replays a recorded research run offline', async () => {
+		const dir = `/tmp/l30d-cassette-run-${Date.now()}`
+		const opts = { config: {}, days: 365, sources: 'hn' }
+		await withTempCacheDir(async () => {
+			const recorded = await withFetch(
+				(url) =>
+					new Response(
+						fixture(url.includes('/items/') ? 'hn_item_sample.json' : 'hn_search_sample.json'),
+					),
+				() => research('bun runtime', { ...opts, cassette: { mode: 'record', dir } }),
+			)
+			expect(recorded.calls.length).toBeGreaterThan(0)
+			expect(getSectionItems(recorded.result, 'hn').length).toBeGreaterThan(0)
+			expect(existsSync(join(dir, 'manifest.json'))).toBe(true)
+
+			const replayed = await withFetch(offline, () =>
+				research('bun runtime', { ...opts, cassette: { mode: 'replay', dir } }),
+			)
+			expect(replayed.calls).toEqual([])
+			expect(getSectionItems(replayed.result, 'hn').map((i) => i.url)).toEqual(
+				getSectionItems(recorded.result, 'hn').map((i) => i.url),
+			)
+			// Recording bypasses the search cache in both directions
+			expect(queryCache()).toEqual([])
+		}).finally(() => rmSync(dir, { recursive: true, force: true }))
+	})
+
+	test('replays with the recorded sources instead of re-resolving them', async () => {
+		const dir = `/tmp/l30d-cassette-reddit-${Date.now()}`
+		const opts = { config: {}, days: 365, sources: 'reddit', noCache: true }
+		try {
+			const recorded = await withFetch(
+				() => new Response(fixture('reddit_search_sample.json')),
+				() => research('bun runtime', { ...opts, cassette: { mode: 'record', dir } }),
+			)
+			expect(recorded.result.errors?.reddit).toBeUndefined()
+			const manifest = JSON.parse(readFileSync(join(dir, 'manifest.json'), 'utf-8'))
+			expect(manifest.sources.adapters).toEqual(['reddit-public'])
+
+			// A replay must not pick the OpenAI Reddit adapter it never recorded
+			const replayed = await withFetch(offline, () =>
+				research('bun runtime', { ...opts, cassette: { mode: 'replay', dir } }),
+			)
+			expect(replayed.calls).toEqual([])
+			expect(replayed.result.errors?.reddit).toBeUndefined()
+		} finally {
+			rmSync(dir, { recursive: true, force: true })
+		}
+	})
+
+	test('research rejects a missing replay cassette and mock mode', async () => {
+		await expect(
+			research('t', { cassette: { mode: 'replay', dir: '/nonexistent/cassette' } }),
+		).rejects.toBeInstanceOf(ResearchError)
+		await expect(
+			research('t', { mock: true, cassette: { mode: 'replay', dir: '/tmp' } }),
+		).rejects.toBeInstanceOf(ResearchError)
+	})
+})
+
+// ---------------------------------------------------------------------------
+// transport: injectable fetch
+// ---------------------------------------------------------------------------
+describe('transport', () => {
+	const fixture = (name: string) =>
+		readFileSync(join(import.meta.dir, '..', 'fixtures', name), 'utf-8')
+
+	test('request sends through the given transport', async () => {
+		const seen: { url: string; headers: Record<string, string> }[] = []
+		const traced: Transport = async (url, init) => {
+			seen.push({ url, headers: init.headers as Record<string, string> })
+			return new Response('{"ok": true}')
+		}
+		const result = await request('GET', 'https://api.example.com/ping', {
+			headers: { 'X-Trace-Id': 'abc' },
+			transport: traced,
+		})
+		expect(result).toEqual({ ok: true })
+		expect(seen.length).toBe(1)
+		expect(seen[0]!.url).toBe('https://api.example.com/ping')
+		expect(seen[0]!.headers['X-Trace-Id']).toBe('abc')
+	})
+
+	test('fetchTransport defers to the global fetch at call time', async () => {
+		const realFetch = globalThis.fetch
+		globalThis.fetch = (async () => new Response('{"via": "global"}')) as unknown as typeof fetch
+		try {
+			expect(
+				await request('GET', 'https://api.example.com/', { transport: fetchTransport }),
+			).toEqual({
+				via: 'global',
+			})
+		} finally {
+			globalThis.fetch = realFetch
+		}
+	})
+
+	test('research routes every source request through options.transport', async () => {
+		const urls: string[] = []
+		const fake: Transport = async (url) => {
+			urls.push(url)
+			return new Response(
+				fixture(url.includes('/items/') ? 'hn_item_sample.json' : 'hn_search_sample.json'),
+			)
+		}
+		const report = await research('bun runtime', {
+			config: {},
+			days: 365,
+			sources: 'hn',
+			noCache: true,
+			transport: fake,
+		})
+		expect(getSectionItems(report, 'hn').length).toBeGreaterThan(0)
+		expect(urls.some((u) => u.includes('/search_by_date?'))).toBe(true)
+		expect(urls.some((u) => u.includes('/items/'))).toBe(true)
+	})
+})
+
+// ---------------------------------------------------------------------------
+// research: programmatic pipeline
+// ---------------------------------------------------------------------------
+describe('research', () => {
+	test('returns a report in mock mode', async () => {
+		const report = await research('test topic', { mock: true, config: {}, days: 7 })
+		expect(report.topic).toBe('test topic')
+		expect(report.days).toBe(7)
+		expect(report.mode).toBe('both')
+		expect(Array.isArray(getSectionItems(report, 'reddit'))).toBe(true)
+		expect(report.errors.reddit).toBeUndefined()
+		expect(report.errors.x).toBeUndefined()
+		expect(report.context_snippet_md).toContain('Last 7 Days')
+	})
+
+	test('honours sources selection', async () => {
+		const report = await research('test topic', { mock: true, config: {}, sources: 'x' })
+		expect(report.mode).toBe('x-only')
+		expect(getSectionItems(report, 'reddit')).toEqual([])
+	})
+
+	test('writes output files only when outdir is provided', async () => {
+		const outdir = `/tmp/l30d-research-${Date.now()}`
+		try {
+			await research('test topic', { mock: true, config: {}, outdir })
+			expect(existsSync(join(outdir, 'report.json'))).toBe(true)
+		} finally {
+			rmSync(outdir, { recursive: true, force: true })
+		}
+	})
+
+	test('rejects out-of-range days', async () => {
+		await expect(research('test topic', { mock: true, days: 0 })).rejects.toBeInstanceOf(
+			ResearchError,
+		)
+	})
+
+	test('rejects empty topic', async () => {
+		await expect(research('   ', { mock: true })).rejects.toBeInstanceOf(ResearchError)
+	})
+
+	test('records the scoring profile from options or config', async () => {
+		const report = await research('test topic', { mock: true, config: {}, profile: 'recency' })
+		expect(report.scoring_profile?.name).toBe('recency')
+		const fromConfig = await research('test topic', {
+			mock: true,
+			config: { SCORING_WEIGHTS: 'engagement=1' },
+		})
+		expect(fromConfig.scoring_profile?.name).toBe('custom')
+		await expect(
+			research('test topic', { mock: true, config: {}, profile: 'hot' }),
+		).rejects.toBeInstanceOf(ResearchError)
+	})
+})
+
+// ---------------------------------------------------------------------------
+// source adapters: registry and shared search runner
+// ---------------------------------------------------------------------------
+describe('source adapters', () => {
+	const fakeSource: SourceAdapter<RedditItem> = {
+		name: 'fake',
+		label: 'Fake',
+		noun: 'posts',
+		provider: 'Fake',
+		isAvailable: (cfg) => Boolean(cfg.FAKE_API_KEY),
+		cacheKey: (ctx) => `fake:${ctx.topic}`,
+		search: async () => ({}),
+		parse: () => [
+			{
+				id: 'F1',
+				title: 'Fake thread',
+				url: 'https://example.com/fake',
+				subreddit: 'fake',
+				date: new Date().toISOString().slice(0, 10),
+				relevance: 0.9,
+				why_relevant: 'fake',
+			},
+		],
+		normalize: normalizeRedditItems,
+		score: scoreRedditItems,
+		dedupe: (items) => items,
+	}
+
+	test('registers and unregisters adapters', () => {
+		expect(listSources().map((s) => s.name)).toEqual(['reddit', 'reddit-public', 'x', 'hn'])
+		registerSource(fakeSource)
+		try {
+			expect(getSource('fake')?.label).toBe('Fake')
+			expect(isValidSourceSelection('reddit,fake')).toBe(true)
+		} finally {
+			expect(unregisterSource('fake')).toBe(true)
+		}
+		expect(getSource('fake')).toBeUndefined()
+		expect(isValidSourceSelection('reddit,fake')).toBe(false)
+	})
+
+	test('resolves legacy modes to adapters', () => {
+		const [selection, error] = resolveSources('both', {}, false, true)
+		expect(error).toBeNull()
+		expect(selection.adapters.map((a) => a.name)).toEqual(['reddit', 'x'])
+		expect(selection.mode).toBe('both')
+		expect(selection.web).toBe(false)
+	})
+
+	test('resolves comma-separated source lists', () => {
+		const cfg = { OPENAI_API_KEY: 'k', XAI_API_KEY: 'k' }
+		const [selection, error] = resolveSources('x, reddit', cfg, true)
+		expect(error).toBeNull()
+		expect(selection.adapters.map((a) => a.name)).toEqual(['x', 'reddit'])
+		expect(selection.mode).toBe('x+reddit+web')
+		expect(selection.web).toBe(true)
+	})
+
+	test('reports unknown and unconfigured sources', () => {
+		expect(resolveSources('nope', {})[1]).toContain('Unknown source')
+		expect(resolveSources('reddit,x', {})[1]).toContain('not configured')
+	})
+
+	test('runSourceSearch serves the mock fixture', async () => {
+		const [from, to] = getDateRange(30)
+		const result = await runSourceSearch(
+			xSource,
+			{
+				topic: 'test',
+				fromDate: from,
+				toDate: to,
+				days: 30,
+				depth: 'default',
+				config: {},
+				models: {},
+				mock: true,
+			},
+			{ skipRead: false, skipWrite: false },
+		)
+		expect(result.error).toBeNull()
+		expect(result.fromCache).toBe(false)
+		expect(result.items.length).toBeGreaterThan(0)
+	})
+
+	test('runSourceSearch reports an open circuit and serves stale cache', async () => {
+		const [from, to] = getDateRange(30)
+		const open = new CircuitOpenError(
+			'api.fake.test',
+			3,
+			Date.now() + 60_000,
+			'https://api.fake.test/',
+		)
+		const tripped: SourceAdapter<RedditItem> = {
+			...fakeSource,
+			cacheKey: () => 'fake-circuit-stale',
+			search: async () => {
+				throw open
+			},
+		}
+		const ctx = {
+			topic: 't',
+			fromDate: from,
+			toDate: to,
+			days: 30,
+			depth: 'default',
+			config: {},
+			models: {},
+			mock: false,
+		}
+		await withTempCacheDir(async (dir) => {
+			saveCache('fake-circuit-stale', {
+				items: [{ id: 'S1', url: 'https://example.com/stale' }],
+				raw: {},
+			})
+			// Two hours old: past the fresh TTL, still usable as stale cache
+			const saved = new Date(Date.now() - 2 * 3_600_000)
+			utimesSync(join(dir, 'fake-circuit-stale.json'), saved, saved)
+
+			const stale = await runSourceSearch(tripped, ctx, {
+				skipRead: false,
+				skipWrite: true,
+			})
+			expect(stale.error).toContain('Fake provider circuit open')
+			expect(stale.fromCache).toBe(true)
+			expect(stale.usedStaleCache).toBe(true)
+			expect(stale.items.map((i) => i.id)).toEqual(['S1'])
+
+			const fresh = await runSourceSearch(tripped, ctx, {
+				skipRead: true,
+				skipWrite: true,
+			})
+			expect(fresh.error).toContain('retrying after')
+			expect(fresh.fromCache).toBe(false)
+		})
+	})
+
+	test('research runs a registered adapter', async () => {
+		registerSource(fakeSource)
+		try {
+			const report = await research('test topic', {
+				mock: true,
+				config: {},
+				sources: 'fake',
+			})
+			expect(report.mode).toBe('fake')
+			expect(Object.keys(report.items)).toEqual(['fake'])
+			expect(getSectionItems(report, 'fake').map((r) => r.id)).toEqual(['F1'])
+			expect(getSectionItems(report, 'fake')[0]!.url).toBe('https://example.com/fake')
+			expect(renderCompact(report)).toContain('### Fake\n')
+			expect(renderCsv(report)).toContain('\r\nfake,F1,Fake thread,')
+			expect(getReportItems(report).map((i) => i.source)).toEqual(['fake'])
+		} finally {
+			unregisterSource('fake')
+		}
+	})
+})
+
+// ---------------------------------------------------------------------------
+// Hacker News: Algolia search, parsing, enrichment
+// ---------------------------------------------------------------------------
+describe('hackernews', () => {
+	const fixture = (name: string) =>
+		JSON.parse(readFileSync(join(import.meta.dir, '..', 'fixtures', name), 'utf-8'))
+
+	test('getCreatedAtFilter covers whole days in UTC', () => {
+		expect(getCreatedAtFilter('2026-01-01', '2026-01-31')).toBe(
+			'created_at_i>=1767225600,created_at_i<=1769903999',
+		)
+	})
+
+	test('parseHackerNewsResponse maps hits to raw items', () => {
+		const items = parseHackerNewsResponse(fixture('hn_search_sample.json'))
+		expect(items).toHaveLength(3)
+		expect(items[0]!.id).toBe('HN1')
+		expect(items[0]!.url).toBe('https://news.ycombinator.com/item?id=42000001')
+		expect(items[0]!.story_url).toBe('https://github.com/example/last-30-days')
+		expect(items[0]!.date).toBe('2026-01-15')
+		expect(items[0]!.engagement).toEqual({ points: 312, num_comments: 87 })
+		expect(items[1]!.story_url).toBeNull()
+	})
+
+	test('parseHackerNewsResponse skips malformed hits', () => {
+		const items = parseHackerNewsResponse({
+			hits: [
+				null,
+				{ objectID: '1' },
+				{ title: 'no id' },
+				{ objectID: '2', title: 'ok', points: 'NaN' },
+			],
+		})
+		expect(items).toHaveLength(1)
+		expect(items[0]!.id).toBe('HN1')
+		expect((items[0]!.engagement as Engagement).points).toBeNull()
+		expect(parseHackerNewsResponse({ error: 'boom' })).toEqual([])
+	})
+
+	test('computeRelevance rewards query term overlap', () => {
+		expect(computeRelevance('claude code', 'Claude Code skills')).toBe(1)
+		expect(computeRelevance('claude code', 'Unrelated launch')).toBe(0.4)
+		expect(computeRelevance('', 'Anything')).toBe(0.5)
+	})
+
+	test('enrichHackerNewsItem adds points and top comments', async () => {
+		const [raw] = parseHackerNewsResponse(fixture('hn_search_sample.json'))
+		const item = await enrichHackerNewsItem(raw!, null, fixture('hn_item_sample.json'))
+		expect((item.engagement as Engagement).points).toBe(318)
+		expect((item.engagement as Engagement).num_comments).toBe(87)
+		const comments = item.top_comments as Comment[]
+		expect(comments).toHaveLength(2)
+		expect(comments[0]!.author).toBe('toolsmith')
+		expect(comments[0]!.score).toBe(2)
+		expect(comments[0]!.excerpt).not.toContain('<p>')
+		expect(comments[1]!.excerpt).toContain("I'd hate")
+		expect(comments[0]!.url).toBe('https://news.ycombinator.com/item?id=42000101')
+	})
+
+	test('scoreHackerNewsItems ranks by engagement', () => {
+		const today = new Date().toISOString().slice(0, 10)
+		const items = normalizeHackerNewsItems(
+			[
+				{
+					id: 'HN1',
+					title: 'a',
+					url: 'u1',
+					date: today,
+					relevance: 0.8,
+					engagement: { points: 5, num_comments: 1 },
+				},
+				{
+					id: 'HN2',
+					title: 'b',
+					url: 'u2',
+					date: today,
+					relevance: 0.8,
+					engagement: { points: 500, num_comments: 200 },
+				},
+			],
+			today,
+			today,
+		)
+		const sorted = sortItems(scoreHackerNewsItems(items))
+		expect(sorted[0]!.id).toBe('HN2')
+		expect(sorted[0]!.score).toBeGreaterThan(sorted[1]!.score)
+	})
+
+	test('research queries a stand-in Algolia server end to end', async () => {
+		const now = Math.floor(Date.now() / 1000)
+		const requests: URL[] = []
+		const server = Bun.serve({
+			port: 0,
+			fetch(req) {
+				const url = new URL(req.url)
+				requests.push(url)
+				if (url.pathname === '/search_by_date') {
+					return Response.json({
+						query: url.searchParams.get('query'),
+						hits: [
+							{
+								objectID: '1',
+								title: 'Bun 2 released',
+								url: 'https://bun.sh',
+								author: 'a',
+								points: 900,
+								num_comments: 300,
+								created_at_i: now - 3600,
+							},
+							{
+								objectID: '2',
+								title: 'Bun 2 released!',
+								url: 'https://bun.sh/blog',
+								author: 'b',
+								points: 10,
+								num_comments: 2,
+								created_at_i: now - 7200,
+							},
+							{
+								objectID: '3',
+								title: 'Deno vs Bun 2',
+								url: null,
+								author: 'c',
+								points: 120,
+								num_comments: 80,
+								created_at_i: now - 86400,
+							},
+						],
+					})
+				}
+				if (url.pathname.startsWith('/items/')) {
+					return Response.json({ id: Number(url.pathname.split('/')[2]), children: [] })
+				}
+				return new Response('not found', { status: 404 })
+			},
+		})
+		try {
+			const report = await research('Bun 2', {
+				sources: 'hn',
+				noCache: true,
+				days: 7,
+				config: { HN_API_BASE_URL: `http://localhost:${server.port}` },
+			})
+			const search = requests.find((u) => u.pathname === '/search_by_date')!
+			expect(search.searchParams.get('tags')).toBe('story')
+			expect(search.searchParams.get('numericFilters')).toContain('created_at_i>=')
+			expect(report.mode).toBe('hn')
+			expect(report.errors.hn).toBeUndefined()
+			// Near-duplicate "Bun 2 released!" is deduped against the higher-scored story
+			expect(getSectionItems(report, 'hn').map((h) => h.title)).toEqual([
+				'Bun 2 released',
+				'Deno vs Bun 2',
+			])
+			expect(getSectionItems(report, 'hn')[0]!.engagement?.points).toBe(900)
+			expect(requests.filter((u) => u.pathname.startsWith('/items/'))).toHaveLength(3)
+		} finally {
+			server.stop(true)
+		}
+	})
+
+	test('comment enrichment stops at the depth limit', async () => {
+		const limit = getHackerNewsEnrichLimit('quick')
+		expect(limit).toBeLessThan(getHackerNewsEnrichLimit('deep'))
+		const now = Math.floor(Date.now() / 1000)
+		const hits = Array.from({ length: limit + 5 }, (_, i) => ({
+			objectID: String(43000000 + i),
+			title: `Story ${i}`,
+			points: 10,
+			num_comments: 1,
+			created_at_i: now - i * 60,
+		}))
+		const itemCalls: string[] = []
+		const transport: Transport = async (url) => {
+			if (url.includes('/items/')) {
+				itemCalls.push(url)
+				return new Response(JSON.stringify(fixture('hn_item_sample.json')))
+			}
+			return new Response(JSON.stringify({ query: 'story', hits }))
+		}
+		const report = await research('story', {
+			config: {},
+			depth: 'quick',
+			sources: 'hn',
+			noCache: true,
+			transport,
+		})
+		expect(report.errors.hn).toBeUndefined()
+		expect(itemCalls).toHaveLength(limit)
+	})
+})
+
+// ---------------------------------------------------------------------------
+// keyless Reddit: public search JSON
+// ---------------------------------------------------------------------------
+describe('reddit public search', () => {
+	const sample = () =>
+		JSON.parse(
+			readFileSync(join(import.meta.dir, '..', 'fixtures', 'reddit_search_sample.json'), 'utf-8'),
+		)
+
+	test('getTimeFilter maps lookback windows', () => {
+		expect(getTimeFilter(1)).toBe('day')
+		expect(getTimeFilter(7)).toBe('week')
+		expect(getTimeFilter(30)).toBe('month')
+		expect(getTimeFilter(90)).toBe('year')
+	})
+
+	test('getTopSubreddits ranks by frequency', () => {
+		const listing = sample().listings[1]
+		expect(getTopSubreddits(listing, 1)).toEqual(['ClaudeAI'])
+		expect(getTopSubreddits(null)).toEqual([])
+	})
+
+	test('parseRedditSearchResponse dedupes across listings', () => {
+		const items = parseRedditSearchResponse(sample())
+		expect(items.map((i) => i.id)).toEqual(['R1', 'R2', 'R3'])
+		expect(items[0]!.url).toBe(
+			'https://www.reddit.com/r/ClaudeAI/comments/abc123/best_practices_for_claude_code_skills/',
+		)
+		expect(items[0]!.subreddit).toBe('ClaudeAI')
+		expect(items[0]!.date).toBe('2026-01-15')
+		expect(items[0]!.engagement).toEqual({ score: 847, num_comments: 156, upvote_ratio: 0.94 })
+		expect(items[2]!.relevance).toBeLessThan(items[0]!.relevance as number)
+	})
+
+	test('parseRedditSearchResponse ignores errors and non-posts', () => {
+		expect(parseRedditSearchResponse({ error: 'boom' })).toEqual([])
+		expect(
+			parseRedditSearchResponse({
+				listings: [{ data: { children: [{ kind: 't1', data: { permalink: '/x', title: 'c' } }] } }],
+			}),
+		).toEqual([])
+	})
+
+	test('parseRedditSearchResponse keeps the top-scoring posts up to the limit', () => {
+		const post = (id: string, score: number) => ({
+			kind: 't3',
+			data: { permalink: `/r/t/comments/${id}/`, title: `Post ${id}`, subreddit: 't', score },
+		})
+		const items = parseRedditSearchResponse({
+			query: 'post',
+			limit: 2,
+			listings: [
+				{ data: { children: [post('a', 5), post('b', 50)] } },
+				{ data: { children: [post('c', 50), post('d', 90)] } },
+			],
+		})
+		expect(items.map((i) => i.title)).toEqual(['Post d', 'Post b'])
+		expect(items.map((i) => i.id)).toEqual(['R1', 'R2'])
+	})
+
+	test('public Reddit enrichment stops at the depth limit', async () => {
+		expect(getEnrichLimit('quick')).toBeLessThan(getEnrichLimit('deep'))
+		const enrichedIds: unknown[] = []
+		const adapter = {
+			...redditPublicSource,
+			enrich: async (item: Record<string, unknown>) => {
+				enrichedIds.push(item.id)
+				return { ...item, enriched: true }
+			},
+		}
+		const items = Array.from({ length: getEnrichLimit('quick') + 5 }, (_, i) => ({
+			id: `R${i + 1}`,
+		}))
+		const [from, to] = getDateRange(30)
+		const enriched = await enrichSourceItems(
+			adapter,
+			items,
+			{
+				topic: 't',
+				fromDate: from,
+				toDate: to,
+				days: 30,
+				depth: 'quick',
+				config: {},
+				models: {},
+				mock: true,
+			},
+			{ skipRead: true, skipWrite: true },
+		)
+		expect(enriched).toHaveLength(getEnrichLimit('quick'))
+		expect(enrichedIds).toHaveLength(getEnrichLimit('quick'))
+		expect(items.at(-1)).toEqual({ id: `R${items.length}` })
+	})
+
+	test('auto uses public Reddit search without an OpenAI key', () => {
+		const [noKeys, noKeysError] = resolveSources('auto', {})
+		expect(noKeysError).toBeNull()
+		expect(noKeys.adapters.map((a) => a.name)).toEqual(['reddit-public'])
+		expect(noKeys.mode).toBe('reddit-only')
+
+		const [xOnly] = resolveSources('auto', { XAI_API_KEY: 'k' })
+		expect(xOnly.adapters.map((a) => a.name)).toEqual(['reddit-public', 'x'])
+		expect(xOnly.mode).toBe('both')
+
+		const [withKey] = resolveSources('reddit', { OPENAI_API_KEY: 'k' })
+		expect(withKey.adapters.map((a) => a.name)).toEqual(['reddit'])
+	})
+
+	test('comma lists fall back to public Reddit search', () => {
+		const [selection, error] = resolveSources('reddit,hn', {})
+		expect(error).toBeNull()
+		expect(selection.adapters.map((a) => a.name)).toEqual(['reddit-public', 'hn'])
+	})
+
+	test('rejects two adapters that fill the same section', () => {
+		const [selection, error] = resolveSources('reddit,reddit-public', { OPENAI_API_KEY: 'k' })
+		expect(error).toContain('both fill the reddit section')
+		expect(selection.adapters).toEqual([])
+
+		// Without a key both names resolve to the public adapter, so nothing clashes
+		const [keyless, keylessError] = resolveSources('reddit,reddit-public', {})
+		expect(keylessError).toBeNull()
+		expect(keyless.adapters.map((a) => a.name)).toEqual(['reddit-public'])
+	})
+})
+
+// ---------------------------------------------------------------------------
+// history: run store and run-to-run diff
+// ---------------------------------------------------------------------------
+function historyRedditItem(id: string, url: string, score: number, points = 10) {
+	return {
+		id,
+		title: `Thread ${id}`,
+		url,
+		subreddit: 'test',
+		date: '2026-01-15',
+		date_confidence: 'high',
+		engagement: { score: points, num_comments: 1 },
+		top_comments: [],
+		comment_insights: [],
+		relevance: 0.8,
+		why_relevant: '',
+		subs: { relevance: 80, recency: 50, engagement: 50 },
+		score,
+	}
+}
+
+describe('history', () => {
+	test('getTopicSlug is readable and collision-safe', () => {
+		expect(getTopicSlug('  Claude   Code ')).toMatch(/^claude-code-[0-9a-f]{8}$/)
+		expect(getTopicSlug('Claude Code')).toBe(getTopicSlug('claude code'))
+		expect(getTopicSlug('C++')).not.toBe(getTopicSlug('C#'))
+	})
+
+	test('normalizeUrl folds equivalent URLs', () => {
+		expect(normalizeUrl('https://www.reddit.com/r/a/1/')).toBe(
+			normalizeUrl('http://old.reddit.com/r/a/1'),
+		)
+		expect(normalizeUrl('https://twitter.com/u/status/1')).toBe(
+			normalizeUrl('https://x.com/u/status/1'),
+		)
+		expect(normalizeUrl('https://news.ycombinator.com/item?id=1')).not.toBe(
+			normalizeUrl('https://news.ycombinator.com/item?id=2'),
+		)
+	})
+
+	test('saveRun and listRuns round-trip oldest first', () => {
+		const dir = `/tmp/l30d-history-${Date.now()}`
+		try {
+			const later = createReport('topic', '2026-01-02', '2026-02-01', 'both')
+			later.generated_at = '2026-02-01T00:00:00.000Z'
+			const earlier = createReport('topic', '2026-01-01', '2026-01-31', 'both')
+			earlier.generated_at = '2026-01-31T00:00:00.000Z'
+			saveRun(later, dir)
+			saveRun(earlier, dir)
+			const runs = listRuns('Topic', dir)
+			expect(runs.map((r) => r.generated_at)).toEqual([earlier.generated_at, later.generated_at])
+			expect(loadRun(runs[1]!.path).range_to).toBe('2026-02-01')
+			expect(listRuns('other', dir)).toEqual([])
+		} finally {
+			rmSync(dir, { recursive: true, force: true })
+		}
+	})
+
+	test('runs go to history.sqlite under the sqlite backend', async () => {
+		const dir = `/tmp/l30d-history-sqlite-${Date.now()}`
+		const run = (generatedAt: string) => {
+			const report = createReport('topic', '2026-01-01', '2026-01-31', 'both')
+			report.generated_at = generatedAt
+			return report
+		}
+		try {
+			// A run saved as JSON before switching backends
+			saveRun(run('2026-01-30T00:00:00.000Z'), dir)
+			await withTempCacheDir(() => {
+				setCacheBackend('sqlite')
+				try {
+					const path = saveRun(run('2026-01-31T00:00:00.000Z'), dir)
+					expect(path).toBe(`${join(dir, 'history.sqlite')}#1`)
+					const runs = listRuns('topic', dir)
+					expect(runs.map((r) => r.generated_at)).toEqual([
+						'2026-01-30T00:00:00.000Z',
+						'2026-01-31T00:00:00.000Z',
+					])
+					expect(loadRun(runs[1]!.path).generated_at).toBe('2026-01-31T00:00:00.000Z')
+					expect(diffLatestRuns('topic', dir)?.current_generated_at).toBe(
+						'2026-01-31T00:00:00.000Z',
+					)
+					expect(() => loadRun(`${join(dir, 'history.sqlite')}#99`)).toThrow('No saved run')
+				} finally {
+					setCacheBackend('file')
+				}
+			})
+		} finally {
+			rmSync(dir, { recursive: true, force: true })
+		}
+	})
+
+	test('diffReports finds new, dropped and moved items', () => {
+		const previous = createReport('t', '2026-01-01', '2026-01-31', 'both')
+		previous.items.reddit = [
+			historyRedditItem('R1', 'https://reddit.com/r/a/1', 60, 100),
+			historyRedditItem('R2', 'https://reddit.com/r/a/2', 40),
+			historyRedditItem('R3', 'https://reddit.com/r/a/3', 30),
+		]
+		const current = createReport('t', '2026-01-02', '2026-02-01', 'both')
+		current.items.reddit = [
+			historyRedditItem('R1', 'https://www.reddit.com/r/a/1/', 75, 250),
+			historyRedditItem('R2', 'https://reddit.com/r/a/4', 50),
+			historyRedditItem('R3', 'https://reddit.com/r/a/3', 30),
+		]
+
+		const diff = diffReports(previous, current)
+		expect(diff.added.map((i) => i.url)).toEqual(['https://reddit.com/r/a/4'])
+		expect(diff.dropped.map((i) => i.url)).toEqual(['https://reddit.com/r/a/2'])
+		expect(diff.changed).toHaveLength(1)
+		expect(diff.changed[0]!.previous_score).toBe(60)
+		expect(diff.changed[0]!.score_delta).toBe(15)
+		expect(diff.changed[0]!.engagement_delta).toEqual({ score: 150 })
+		expect(diff.unchanged).toBe(1)
+
+		const md = renderDiff(diff)
+		expect(md).toContain('1 new, 1 dropped, 1 moved, 1 unchanged')
+		expect(md).toContain('score 60 → 75 (+15, +150 score)')
+	})
+
+	test('diffLatestRuns needs two runs', () => {
+		const dir = `/tmp/l30d-history-one-${Date.now()}`
+		try {
+			saveRun(createReport('solo', '2026-01-01', '2026-01-31', 'both'), dir)
+			expect(diffLatestRuns('solo', dir)).toBeNull()
+		} finally {
+			rmSync(dir, { recursive: true, force: true })
+		}
+	})
+
+	test('research saves history only when asked and not mocked', async () => {
+		const dir = `/tmp/l30d-history-research-${Date.now()}`
+		try {
+			await research('history topic', {
+				mock: true,
+				config: {},
+				saveHistory: true,
+				historyDir: dir,
+			})
+			expect(listRuns('history topic', dir)).toEqual([])
+		} finally {
+			rmSync(dir, { recursive: true, force: true })
+		}
+	})
+})
+
+// ---------------------------------------------------------------------------
+// watch: scheduled re-runs with new-item alerts
+// ---------------------------------------------------------------------------
+describe('watch', () => {
+	test('parseInterval accepts s/m/h and bare minutes', () => {
+		expect(parseInterval('90s')).toBe(90_000)
+		expect(parseInterval('30m')).toBe(1_800_000)
+		expect(parseInterval('2h')).toBe(7_200_000)
+		expect(parseInterval('5')).toBe(300_000)
+		expect(parseInterval('0m')).toBeNaN()
+		expect(parseInterval('soon')).toBeNaN()
+	})
+
+	test('findNewItems applies the score threshold', () => {
+		const previous = createReport('t', '2026-01-01', '2026-01-31', 'both')
+		previous.items.reddit = [historyRedditItem('R1', 'https://reddit.com/r/a/1', 80)]
+		const current = createReport('t', '2026-01-01', '2026-01-31', 'both')
+		current.items.reddit = [
+			historyRedditItem('R1', 'https://reddit.com/r/a/1', 90),
+			historyRedditItem('R2', 'https://reddit.com/r/a/2', 70),
+			historyRedditItem('R3', 'https://reddit.com/r/a/3', 20),
+		]
+		expect(findNewItems(previous, current, 50).map((i) => i.id)).toEqual(['R2'])
+	})
+
+	test('alerts only on newly surfaced items via JSONL and webhook', async () => {
+		const now = Math.floor(Date.now() / 1000)
+		const hit = (id: string, title: string, points: number) => ({
+			objectID: id,
+			title,
+			url: `https://example.com/${id}`,
+			author: 'a',
+			points,
+			num_comments: points,
+			created_at_i: now - 3600,
+		})
+		let hits = [hit('1', 'Watched topic launch', 500)]
+		const webhookBodies: unknown[] = []
+		const server = Bun.serve({
+			port: 0,
+			async fetch(req) {
+				const url = new URL(req.url)
+				if (url.pathname === '/search_by_date') {
+					return Response.json({ query: url.searchParams.get('query'), hits })
+				}
+				if (url.pathname === '/hook') {
+					webhookBodies.push(await req.json())
+					return Response.json({ ok: true })
+				}
+				return Response.json({ children: [] })
+			},
+		})
+		const dir = `/tmp/l30d-watch-${Date.now()}`
+		const jsonl = `${dir}/alerts.jsonl`
+		const logs: string[] = []
+		try {
+			mkdirSync(dir, { recursive: true })
+			const options = {
+				topics: ['watched topic'],
+				minScore: 0,
+				jsonl,
+				webhook: `http://localhost:${server.port}/hook`,
+				historyDir: dir,
+				log: (m: string) => logs.push(m),
+				research: {
+					sources: 'hn',
+					noCache: true,
+					config: { HN_API_BASE_URL: `http://localhost:${server.port}` },
+				},
+			}
+
+			expect(await runWatchCycle(options)).toEqual([])
+			expect(logs[0]).toContain('baseline recorded')
+
+			hits = [hit('1', 'Watched topic launch', 600), hit('2', 'Watched topic postmortem', 300)]
+			// Fresh map: previous report must come from the history store
+			const alerts = await runWatchCycle(options)
+			expect(alerts.map((a) => a.item.title)).toEqual(['Watched topic postmortem'])
+			expect(alerts[0]!.item.source).toBe('hn')
+
+			const lines = readFileSync(jsonl, 'utf-8').trim().split('\n')
+			expect(lines).toHaveLength(1)
+			expect(JSON.parse(lines[0]!).topic).toBe('watched topic')
+			expect(webhookBodies).toHaveLength(1)
+			expect((webhookBodies[0] as { items: unknown[] }).items).toHaveLength(1)
+
+			// An unwritable JSONL sink is logged and does not stop the webhook
+			hits = [...hits, hit('3', 'Watched topic retro', 200)]
+			const retro = await runWatchCycle({ ...options, jsonl: dir })
+			expect(retro.map((a) => a.item.title)).toEqual(['Watched topic retro'])
+			expect(logs.some((l) => l.startsWith(`JSONL write to ${dir} failed`))).toBe(true)
+			expect(webhookBodies).toHaveLength(2)
+		} finally {
+			server.stop(true)
+			rmSync(dir, { recursive: true, force: true })
+		}
+	})
+
+	test('watch stops after the requested cycles', async () => {
+		const printed: string[] = []
+		const logs: string[] = []
+		await watch({
+			topics: ['test topic'],
+			cycles: 2,
+			intervalMs: 1,
+			log: (m) => logs.push(m),
+			print: (l) => printed.push(l),
+			research: { mock: true, config: {} },
+		})
+		expect(logs).toEqual(['✓ test topic: baseline recorded', '✓ test topic: 0 new'])
+		expect(printed).toEqual([])
+	})
+})
+
+// ---------------------------------------------------------------------------
+// synthesis: cited best practices and prompt pack
+// ---------------------------------------------------------------------------
+describe('synthesis', () => {
+	function synthesisReport() {
+		const report = createReport('Claude Code skills', '2026-01-01', '2026-01-31', 'both')
+		report.items.reddit = [
+			{
+				...historyRedditItem('R1', 'https://reddit.com/r/a/1', 80),
+				comment_insights: ['Start with one bash command, then grow the skill.'],
+			},
+		]
+		report.items.x = [
+			{
+				id: 'X1',
+				text: 'context: fork keeps heavy skills off the main thread',
+				url: 'https://x.com/u/status/1',
+				author_handle: 'dev',
+				date: '2026-01-18',
+				date_confidence: 'high',
+				engagement: { likes: 10 },
+				relevance: 0.9,
+				why_relevant: '',
+				subs: { relevance: 90, recency: 50, engagement: 50 },
+				score: 70,
+			},
+		]
+		return report
+	}
+
+	test('getSynthesisTarget prefers OpenAI then xAI', () => {
+		expect(
+			getSynthesisTarget({ OPENAI_API_KEY: 'o', XAI_API_KEY: 'x' }, { openai: 'gpt', xai: 'grok' })
+				?.provider,
+		).toBe('openai')
+		expect(getSynthesisTarget({ XAI_API_KEY: 'x' }, { openai: null, xai: 'grok' })?.model).toBe(
+			'grok',
+		)
+		expect(getSynthesisTarget({}, { openai: null, xai: null })).toBeNull()
+	})
+
+	test('buildSynthesisPrompt tags items with their IDs', () => {
+		const prompt = buildSynthesisPrompt(synthesisReport())
+		expect(prompt).toContain('[R1] Reddit r/test (score 80)')
+		expect(prompt).toContain('  - comment: Start with one bash command')
+		expect(prompt).toContain('[X1] X @dev (score 70)')
+	})
+
+	test('buildSynthesisPrompt keeps $ sequences in topics and items literal', () => {
+		const report = synthesisReport()
+		report.topic = "pricing $& $' $$"
+		report.items.x = [{ ...getSectionItems(report, 'x')[0]!, text: 'costs $` per seat' }]
+		const prompt = buildSynthesisPrompt(report)
+		expect(prompt).toContain(`about "pricing $& $' $$" between`)
+		expect(prompt).toContain('[X1] X @dev (score 70): costs $` per seat')
+	})
+
+	test('filterCited drops uncited entries and invented IDs', () => {
+		const ids = new Set(['R1', 'X1'])
+		expect(
+			filterCited(['Do a thing [R1]', 'No citation', 'Made up [R9]', 'Mixed [R9][X1]', 42], ids),
+		).toEqual(['Do a thing [R1]', 'Mixed [X1]'])
+		expect(filterCited('not a list', ids)).toEqual([])
+	})
+
+	test('parseSynthesisResponse reads the Responses API payload', () => {
+		const fixture = JSON.parse(
+			readFileSync(join(import.meta.dir, '..', 'fixtures', 'synthesis_sample.json'), 'utf-8'),
+		)
+		const result = parseSynthesisResponse(fixture, synthesisReport())
+		expect(result.best_practices).toHaveLength(2)
+		expect(result.best_practices[1]).toContain('[R1][X1]')
+		expect(result.prompt_pack).toHaveLength(1)
+		expect(parseSynthesisResponse({ error: 'boom' }, synthesisReport())).toEqual({
+			best_practices: [],
+			prompt_pack: [],
+		})
+	})
+
+	test('synthesizeReport posts the prompt to the target model', async () => {
+		const bodies: Record<string, unknown>[] = []
+		const headers: string[] = []
+		const server = Bun.serve({
+			port: 0,
+			async fetch(req) {
+				bodies.push((await req.json()) as Record<string, unknown>)
+				headers.push(req.headers.get('authorization') ?? '')
+				return Response.json({
+					output: '{"best_practices": ["Keep it small [X1]"], "prompt_pack": []}',
+				})
+			},
+		})
+		try {
+			const result = await synthesizeReport(synthesisReport(), {
+				provider: 'xai',
+				url: `http://localhost:${server.port}/v1/responses`,
+				apiKey: 'secret',
+				model: 'grok-test',
+			})
+			expect(result.best_practices).toEqual(['Keep it small [X1]'])
+			expect(bodies[0]!.model).toBe('grok-test')
+			expect(String(bodies[0]!.input)).toContain('[R1]')
+			expect(headers[0]).toBe('Bearer secret')
+		} finally {
+			server.stop(true)
+		}
+	})
+
+	test('renderFullReport lists synthesized entries', () => {
+		const report = synthesisReport()
+		report.best_practices = ['Keep it small [X1]']
+		const md = renderFullReport(report)
+		expect(md).toContain('## Best Practices\n\n- Keep it small [X1]')
+		expect(md).toContain('## Prompt Pack\n\n*To be synthesized by Claude*')
+		expect(renderCompact(report)).toContain('### Best Practices')
+	})
+
+	test('research requires a model key to synthesize', async () => {
+		await expect(research('test topic', { config: {}, synthesize: true })).rejects.toBeInstanceOf(
+			ResearchError,
+		)
+	})
+})
+
+// ---------------------------------------------------------------------------
+// stories: cross-source clustering
+// ---------------------------------------------------------------------------
+describe('stories', () => {
+	function storyReport() {
+		const report = createReport('bun release', '2026-01-01', '2026-01-31', 'all')
+		report.items.reddit = [
+			{
+				...historyRedditItem('R1', 'https://reddit.com/r/bun/1', 70),
+				title: 'Bun 2.0 is out with a new bundler',
+			},
+			{
+				...historyRedditItem('R2', 'https://reddit.com/r/bun/2', 40),
+				title: 'Why I moved my monorepo to pnpm',
+			},
+		]
+		report.items.x = [
+			{
+				id: 'X1',
+				text: 'Huge release today: https://bun.sh/blog/bun-v2.0.',
+				url: 'https://x.com/u/status/1',
+				author_handle: 'dev',
+				date: '2026-01-18',
+				date_confidence: 'high',
+				engagement: { likes: 10 },
+				relevance: 0.9,
+				why_relevant: '',
+				subs: { relevance: 90, recency: 50, engagement: 50 },
+				score: 60,
+				cluster_id: null,
+			},
+		]
+		report.items.hn = [
+			{
+				id: 'HN1',
+				title: 'Bun v2.0',
+				url: 'https://news.ycombinator.com/item?id=1',
+				story_url: 'https://bun.sh/blog/bun-v2.0',
+				author: 'pg',
+				date: '2026-01-18',
+				date_confidence: 'high',
+				engagement: { points: 300, num_comments: 120 },
+				top_comments: [],
+				comment_insights: [],
+				relevance: 0.9,
+				why_relevant: '',
+				subs: { relevance: 90, recency: 50, engagement: 90 },
+				score: 85,
+				cluster_id: null,
+			},
+		]
+		report.items.web = [
+			{
+				id: 'W1',
+				title: 'Bun 2.0 is out with a new bundler!',
+				url: 'https://example.com/bun-2',
+				source_domain: 'example.com',
+				snippet: '',
+				date: '2026-01-18',
+				date_confidence: 'high',
+				relevance: 0.8,
+				why_relevant: '',
+				subs: { relevance: 80, recency: 50, engagement: 0 },
+				score: 50,
+				cluster_id: null,
+			},
+		]
+		return report
+	}
+
+	test('extractUrls trims trailing punctuation', () => {
+		expect(extractUrls('see https://bun.sh/blog/bun-v2.0. and (http://a.io/x)')).toEqual([
+			'https://bun.sh/blog/bun-v2.0',
+			'http://a.io/x',
+		])
+	})
+
+	test('clusterStories links by shared URL and by title similarity', () => {
+		const report = storyReport()
+		const stories = clusterStories(report)
+		expect(stories.map((s) => s.item_ids.sort())).toEqual([
+			['HN1', 'X1'],
+			['R1', 'W1'],
+		])
+		expect(stories[0]!.id).toBe('S1')
+		expect(stories[0]!.title).toBe('Bun v2.0')
+		expect(stories[0]!.sources).toEqual(['hn', 'x'])
+		// best member score plus a bonus for the second source
+		expect(stories[0]!.score).toBe(90)
+		expect(getSectionItems(report, 'hn')[0]!.cluster_id).toBe('S1')
+		expect(getSectionItems(report, 'web')[0]!.cluster_id).toBe('S2')
+		expect(getSectionItems(report, 'reddit')[1]!.cluster_id).toBeNull()
+		// all members stay in their source lists
+		expect(getSectionItems(report, 'reddit')).toHaveLength(2)
+		expect(report.stories).toBe(stories)
+	})
+
+	test('clusterStories ignores same-source near-duplicates', () => {
+		const report = storyReport()
+		getSectionItems(report, 'reddit')[1]!.title = 'Bun 2.0 is out with a new bundler'
+		report.items.web = []
+		const stories = clusterStories(report)
+		expect(stories.every((s) => s.sources.length > 1)).toBe(true)
+		expect(getSectionItems(report, 'reddit')[1]!.cluster_id).toBeNull()
+	})
+
+	test('stories round-trip and render', () => {
+		const report = storyReport()
+		clusterStories(report)
+		const restored = reportFromDict(reportToDict(report))
+		expect(restored.stories).toEqual(report.stories)
+		expect(getSectionItems(restored, 'x')[0]!.cluster_id).toBe('S1')
+		expect(renderCompact(report)).toContain('### Cross-Source Stories')
+		expect(renderCompact(report)).toContain('{story:S1}')
+		expect(renderFullReport(report)).toContain('### S1: Bun v2.0')
+		expect(renderContextSnippet(report)).toContain('- Bun v2.0 (hn, x)')
+	})
+})